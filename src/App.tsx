@@ -3,11 +3,37 @@ import Dashboard from './pages/Dashboard';
 import AddTransaction from './pages/AddTransaction';
 import AccountDetails from './pages/AccountDetails';
 import Transactions from './pages/Transactions';
+import TagAnalytics from './pages/TagAnalytics';
+import ImportTransactions from './pages/ImportTransactions';
 import FXPage from './pages/FXPage';
 import FXAnalytics from './pages/FXAnalytics';
 import DimeStock from './pages/DimeStock';
+import Accounts from './pages/Accounts';
+import Recurring from './pages/Recurring';
+import Budgets from './pages/Budgets';
+import Backup from './pages/Backup';
+import BaseCurrencyProvider from './context/BaseCurrencyProvider';
+import AuthProvider from './context/AuthProvider';
+import { useAuth } from './context/auth';
+import RequireAuth from './components/RequireAuth';
+import SyncStatus from './components/SyncStatus';
+import { offlineSync } from './data/defaultBackend';
+import { accountsQuery, assetsQuery, dimeQuery, fxQuery, transactionsPageQuery } from './data/queries';
+import { prefetch } from './data/queryCache';
+import type { QueryDef } from './data/queryCache';
+import { parseFilters } from './lib/transactionFilters';
+import { useBaseCurrency } from './context/baseCurrency';
+import { SUPPORTED_CURRENCIES } from './lib/currency';
 import './App.css';
 
+// Reads each tab starts with, fetched on hover/press so the switch renders from cache
+const TAB_QUERIES: Record<string, QueryDef<unknown>[]> = {
+    '/': [assetsQuery, accountsQuery, fxQuery],
+    '/transactions': [transactionsPageQuery(parseFilters(new URLSearchParams())), accountsQuery],
+    '/fx': [fxQuery],
+    '/dime-stock': [dimeQuery],
+};
+
 function NavItem({ to, label, icon }: { to: string, label: string, icon: string }) {
     const location = useLocation();
 
@@ -16,9 +42,14 @@ function NavItem({ to, label, icon }: { to: string, label: string, icon: string
         ? location.pathname === '/'
         : location.pathname.startsWith(to);
 
+    const warm = () => TAB_QUERIES[to]?.forEach(query => prefetch(query));
+
     return (
         <Link
             to={to}
+            onMouseEnter={warm}
+            onFocus={warm}
+            onTouchStart={warm}
             className={`flex flex-col items-center justify-center gap-1 w-full py-3 pb-2 transition-colors z-10 ${isActive ? 'text-[#001f3f]' : 'text-gray-400 hover:text-gray-600'}`}
         >
             <i className={`${icon} text-xl ${isActive ? 'font-bold' : ''}`}></i>
@@ -28,6 +59,9 @@ function NavItem({ to, label, icon }: { to: string, label: string, icon: string
 }
 
 function BottomNav() {
+    const { user } = useAuth();
+    if (!user) return null;
+
     return (
         <div className="fixed bottom-0 left-0 right-0 z-50 safe-area-bottom">
             <div className="mx-auto max-w-lg bg-white shadow-[0_-4px_6px_rgba(0,0,0,0.05)]">
@@ -64,10 +98,65 @@ function BottomNav() {
 
 
 function Header() {
+    const { baseCurrency, setBaseCurrency } = useBaseCurrency();
+    const { user, isDemo, signOut } = useAuth();
+
+    const handleSignOut = async () => {
+        try {
+            await signOut();
+        } catch (error) {
+            console.error('Error signing out:', error);
+            alert('Sign out failed: ' + (error as Error).message);
+        }
+    };
+
     return (
         <div className="bg-surface-ground sticky top-0 z-40">
             <div className="max-w-lg mx-auto px-6 py-2 flex justify-between items-center">
                 <span className="text-2xl font-bold text-[#001f3f]">Pantagon Assets</span>
+                {user && (
+                    <div className="flex items-center gap-2">
+                        {isDemo && (
+                            <span
+                                className="px-2 py-1 rounded-lg bg-amber-50 border border-amber-100 text-amber-600 text-[10px] font-bold uppercase tracking-wider"
+                                title="Sample data kept in memory; changes are lost on reload"
+                            >
+                                Demo
+                            </span>
+                        )}
+                        {offlineSync && <SyncStatus sync={offlineSync} />}
+                        <Link
+                            to="/backup"
+                            className="w-8 h-8 flex items-center justify-center rounded-lg bg-white border border-gray-200 text-gray-500 shadow-sm hover:text-[#001f3f] transition-colors"
+                            aria-label="Backup and restore"
+                        >
+                            <i className="pi pi-database text-xs"></i>
+                        </Link>
+                        <div className="relative">
+                            <select
+                                value={baseCurrency}
+                                onChange={(e) => setBaseCurrency(e.target.value)}
+                                className="bg-white border border-gray-200 text-[#001f3f] text-xs font-bold rounded-lg pl-2.5 pr-6 py-1.5 shadow-sm appearance-none focus:ring-2 focus:ring-blue-500 outline-none"
+                                aria-label="Base currency"
+                            >
+                                {SUPPORTED_CURRENCIES.map(currency => (
+                                    <option key={currency} value={currency}>{currency}</option>
+                                ))}
+                            </select>
+                            <i className="pi pi-chevron-down absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 text-[8px] pointer-events-none"></i>
+                        </div>
+                        {!isDemo && (
+                            <button
+                                onClick={handleSignOut}
+                                className="w-8 h-8 flex items-center justify-center rounded-lg bg-white border border-gray-200 text-gray-500 shadow-sm hover:text-red-500 transition-colors"
+                                aria-label="Sign out"
+                                title={user.email ? `Sign out ${user.email}` : 'Sign out'}
+                            >
+                                <i className="pi pi-sign-out text-xs"></i>
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
     )
@@ -75,23 +164,36 @@ function Header() {
 
 function App() {
     return (
-        <BrowserRouter>
-            <div className="min-h-screen flex flex-col bg-surface-ground">
-                <Header />
-                <div className="flex-1 w-full max-w-lg mx-auto p-2 pb-28">
-                    <Routes>
-                        <Route path="/" element={<Dashboard />} />
-                        <Route path="/add" element={<AddTransaction />} />
-                        <Route path="/transactions" element={<Transactions />} />
-                        <Route path="/fx" element={<FXPage />} />
-                        <Route path="/fx/analytics" element={<FXAnalytics />} />
-                        <Route path="/dime-stock" element={<DimeStock />} />
-                        <Route path="/account/:accountName" element={<AccountDetails />} />
-                    </Routes>
-                </div>
-                <BottomNav />
-            </div>
-        </BrowserRouter>
+        <AuthProvider>
+            <BaseCurrencyProvider>
+                <BrowserRouter>
+                    <div className="min-h-screen flex flex-col bg-surface-ground">
+                        <Header />
+                        <div className="flex-1 w-full max-w-lg mx-auto p-2 pb-28">
+                            <RequireAuth>
+                                <Routes>
+                                    <Route path="/" element={<Dashboard />} />
+                                    <Route path="/add" element={<AddTransaction />} />
+                                    <Route path="/edit/:id" element={<AddTransaction />} />
+                                    <Route path="/transactions" element={<Transactions />} />
+                                    <Route path="/transactions/analytics" element={<TagAnalytics />} />
+                                    <Route path="/transactions/import" element={<ImportTransactions />} />
+                                    <Route path="/fx" element={<FXPage />} />
+                                    <Route path="/fx/analytics" element={<FXAnalytics />} />
+                                    <Route path="/dime-stock" element={<DimeStock />} />
+                                    <Route path="/account/:accountName" element={<AccountDetails />} />
+                                    <Route path="/accounts" element={<Accounts />} />
+                                    <Route path="/recurring" element={<Recurring />} />
+                                    <Route path="/budgets" element={<Budgets />} />
+                                    <Route path="/backup" element={<Backup />} />
+                                </Routes>
+                            </RequireAuth>
+                        </div>
+                        <BottomNav />
+                    </div>
+                </BrowserRouter>
+            </BaseCurrencyProvider>
+        </AuthProvider>
     );
 }
 
@@ -0,0 +1,144 @@
+import { useMemo } from 'react';
+import {
+    Chart as ChartJS,
+    CategoryScale,
+    LinearScale,
+    PointElement,
+    LineElement,
+    Tooltip,
+} from 'chart.js';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { buildRateHistory, MOVING_AVERAGE_WINDOW } from '../lib/fxRateHistory';
+import type { PantagonUSD } from '../types';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip);
+
+const BUY_COLOR = '#059669';
+const SELL_COLOR = '#dc2626';
+const COST_COLOR = '#001f3f';
+const MOVING_COLOR = '#d97706';
+
+interface FxRateChartProps {
+    rows: PantagonUSD[];
+    currency: string;
+    year: string; // 'All' or 'YYYY'
+}
+
+export default function FxRateChart({ rows, currency, year }: FxRateChartProps) {
+    // Built over the whole history so the average cost carries into the year shown
+    const points = useMemo(() => {
+        const history = buildRateHistory(rows, currency);
+        return year === 'All'
+            ? history
+            : history.filter(p => new Date(p.row.transaction_at).getFullYear().toString() === year);
+    }, [rows, currency, year]);
+
+    const chartData: ChartData<'line'> = useMemo(() => ({
+        labels: points.map(p => new Date(p.row.transaction_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: '2-digit' })),
+        datasets: [
+            {
+                label: 'Buy',
+                data: points.map(p => p.side === 'buy' ? p.rate : null),
+                showLine: false,
+                pointStyle: 'triangle',
+                pointRadius: 5,
+                pointHoverRadius: 7,
+                backgroundColor: BUY_COLOR,
+                borderColor: BUY_COLOR,
+            },
+            {
+                label: 'Sell',
+                data: points.map(p => p.side === 'sell' ? p.rate : null),
+                showLine: false,
+                pointStyle: 'triangle',
+                rotation: 180,
+                pointRadius: 5,
+                pointHoverRadius: 7,
+                backgroundColor: SELL_COLOR,
+                borderColor: SELL_COLOR,
+            },
+            {
+                label: 'Avg cost',
+                data: points.map(p => p.averageCost),
+                borderColor: COST_COLOR,
+                borderWidth: 1.5,
+                borderDash: [4, 3],
+                stepped: true,
+                pointRadius: 0,
+                spanGaps: false,
+            },
+            {
+                label: `${MOVING_AVERAGE_WINDOW}-trade avg`,
+                data: points.map(p => p.movingAverage),
+                borderColor: MOVING_COLOR,
+                borderWidth: 1.5,
+                pointRadius: 0,
+                tension: 0.3,
+            },
+        ],
+    }), [points]);
+
+    const chartOptions: ChartOptions<'line'> = useMemo(() => ({
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index', intersect: false },
+        plugins: {
+            legend: { display: false },
+            tooltip: {
+                filter: (item) => item.raw !== null,
+                callbacks: {
+                    label: (ctx) => `${ctx.dataset.label}: ${Number(ctx.raw).toFixed(4)}`,
+                },
+            },
+        },
+        scales: {
+            x: {
+                grid: { display: false },
+                ticks: { maxTicksLimit: 6, font: { size: 10 }, color: '#9ca3af' },
+            },
+            y: {
+                grid: { color: '#f1f5f9' },
+                ticks: {
+                    maxTicksLimit: 5,
+                    font: { size: 10 },
+                    color: '#9ca3af',
+                    callback: (value) => Number(value).toFixed(2),
+                },
+            },
+        },
+    }), []);
+
+    const legend = [
+        { label: 'Buy', color: BUY_COLOR },
+        { label: 'Sell', color: SELL_COLOR },
+        { label: 'Avg cost', color: COST_COLOR },
+        { label: `${MOVING_AVERAGE_WINDOW}-trade avg`, color: MOVING_COLOR },
+    ];
+
+    return (
+        <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 flex flex-col gap-3">
+            <div className="flex justify-between items-center">
+                <span className="text-xs font-bold text-[#001f3f] uppercase tracking-wider opacity-70">{currency} Rate</span>
+                <span className="text-[10px] text-gray-400">THB per {currency}</span>
+            </div>
+
+            <div className="relative h-52">
+                {points.length > 0 ? (
+                    <Line data={chartData} options={chartOptions} />
+                ) : (
+                    <div className="h-full flex items-center justify-center text-xs text-gray-400">No {currency} conversions in this period</div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-x-3 gap-y-1">
+                {legend.map(item => (
+                    <span key={item.label} className="flex items-center gap-1.5 text-[10px] text-gray-500">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: item.color }}></span>
+                        {item.label}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import {
+    Chart as ChartJS,
+    CategoryScale,
+    LinearScale,
+    PointElement,
+    LineElement,
+    Filler,
+    Tooltip,
+    Legend,
+} from 'chart.js';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { buildBalanceHistory, HISTORY_RANGES } from '../lib/netWorthHistory';
+import type { HistoryRange } from '../lib/netWorthHistory';
+import type { PantagonAsset } from '../types';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Filler, Tooltip, Legend);
+
+const PALETTE = ['#001f3f', '#2563eb', '#0891b2', '#059669', '#65a30d', '#d97706', '#dc2626', '#db2777', '#7c3aed', '#64748b'];
+
+interface NetWorthChartProps {
+    assets: PantagonAsset[];
+    accountOrder: string[];
+    formatCurrency: (value: number) => string;
+}
+
+function formatPointLabel(key: string, granularity: 'day' | 'month'): string {
+    const [year, month, day] = key.split('-').map(Number);
+    const d = new Date(year, month - 1, day || 1);
+    return granularity === 'day'
+        ? d.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })
+        : d.toLocaleDateString('en-GB', { month: 'short', year: '2-digit' });
+}
+
+export default function NetWorthChart({ assets, accountOrder, formatCurrency }: NetWorthChartProps) {
+    const [range, setRange] = useState<HistoryRange>('6M');
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+    const history = useMemo(() => buildBalanceHistory(assets, range), [assets, range]);
+
+    // Stack accounts in Dashboard order; anything not listed there goes on top
+    const orderedAccounts = useMemo(() => {
+        const rank = (name: string) => {
+            const index = accountOrder.indexOf(name);
+            return index === -1 ? accountOrder.length : index;
+        };
+        return [...history.accounts].sort((a, b) => rank(a) - rank(b));
+    }, [history.accounts, accountOrder]);
+
+    const chartData: ChartData<'line'> = useMemo(() => ({
+        labels: history.points.map(p => formatPointLabel(p.key, history.granularity)),
+        datasets: orderedAccounts.map((name, index) => {
+            const color = PALETTE[index % PALETTE.length];
+            return {
+                label: name,
+                data: history.points.map(p => p.balances[name] ?? 0),
+                borderColor: color,
+                backgroundColor: `${color}99`,
+                borderWidth: 1,
+                pointRadius: 0,
+                pointHitRadius: 6,
+                tension: 0.25,
+                fill: index === 0 ? 'origin' : '-1',
+            };
+        }),
+    }), [history, orderedAccounts]);
+
+    const chartOptions: ChartOptions<'line'> = useMemo(() => ({
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: { mode: 'index', intersect: false },
+        plugins: {
+            legend: { display: false },
+            tooltip: {
+                callbacks: {
+                    label: (ctx) => `${ctx.dataset.label}: ${formatCurrency(Number(ctx.raw))}`,
+                },
+            },
+        },
+        scales: {
+            x: {
+                grid: { display: false },
+                ticks: { maxTicksLimit: 6, font: { size: 10 }, color: '#9ca3af' },
+            },
+            y: {
+                stacked: true,
+                grid: { color: '#f1f5f9' },
+                ticks: {
+                    maxTicksLimit: 5,
+                    font: { size: 10 },
+                    color: '#9ca3af',
+                    callback: (value) => Number(value).toLocaleString('en-US', { notation: 'compact' }),
+                },
+            },
+        },
+        onClick: (_event, elements) => {
+            if (elements.length > 0) {
+                setSelectedIndex(elements[0].index);
+            }
+        },
+    }), [formatCurrency]);
+
+    const selectedPoint = selectedIndex !== null ? history.points[selectedIndex] : undefined;
+
+    return (
+        <div className="bg-white rounded-2xl p-4 shadow-[0_1px_3px_0_rgba(0,0,0,0.05)] border border-slate-100 flex flex-col gap-3">
+            <div className="flex justify-between items-center">
+                <span className="text-xs font-bold text-[#001f3f] uppercase tracking-wider opacity-70">History</span>
+                <div className="flex bg-gray-100 rounded-lg p-0.5 gap-0.5">
+                    {HISTORY_RANGES.map(r => (
+                        <button
+                            key={r}
+                            onClick={() => { setRange(r); setSelectedIndex(null); }}
+                            className={`px-2 py-1 rounded-md text-[10px] font-bold transition-all ${range === r ? 'bg-white text-[#001f3f] shadow-sm' : 'text-gray-500'}`}
+                        >
+                            {r}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="relative h-48">
+                {history.points.length > 0 ? (
+                    <Line data={chartData} options={chartOptions} />
+                ) : (
+                    <div className="h-full flex items-center justify-center text-xs text-gray-400">No history yet</div>
+                )}
+            </div>
+
+            {selectedPoint ? (
+                <div className="border-t border-slate-100 pt-3 flex flex-col gap-1.5">
+                    <div className="flex justify-between items-center">
+                        <span className="text-xs font-semibold text-gray-500">
+                            {new Date(`${selectedPoint.date}T00:00:00`).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                        </span>
+                        <span className="text-sm font-bold text-[#001f3f]">{formatCurrency(selectedPoint.total)}</span>
+                    </div>
+                    {orderedAccounts
+                        .filter(name => Math.abs(selectedPoint.balances[name] ?? 0) >= 0.005)
+                        .map(name => (
+                            <div key={name} className="flex justify-between items-center text-xs">
+                                <span className="flex items-center gap-2 text-gray-600 truncate">
+                                    <span
+                                        className="w-2 h-2 rounded-full flex-shrink-0"
+                                        style={{ backgroundColor: PALETTE[orderedAccounts.indexOf(name) % PALETTE.length] }}
+                                    ></span>
+                                    {name}
+                                </span>
+                                <span className={`font-semibold ${selectedPoint.balances[name] >= 0 ? 'text-gray-800' : 'text-red-500'}`}>
+                                    {formatCurrency(selectedPoint.balances[name])}
+                                </span>
+                            </div>
+                        ))}
+                </div>
+            ) : (
+                history.points.length > 0 && (
+                    <p className="text-[10px] text-gray-400 text-center">Tap the chart to see the breakdown for a date</p>
+                )
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,17 @@
+import { Fragment } from 'react';
+import type { ReactNode } from 'react';
+import { useAuth } from '../context/auth';
+import SignIn from '../pages/SignIn';
+
+// Renders the sign-in screen in place of any route until there is a session
+export default function RequireAuth({ children }: { children: ReactNode }) {
+    const { user, loading } = useAuth();
+
+    if (loading) {
+        return <div className="flex justify-center items-center min-h-[60vh] text-gray-400 font-sans text-sm">Loading...</div>;
+    }
+    if (!user) return <SignIn />;
+
+    // Keyed by user so nothing fetched for one member survives a switch to another
+    return <Fragment key={user.id}>{children}</Fragment>;
+}
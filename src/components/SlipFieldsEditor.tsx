@@ -0,0 +1,105 @@
+import { LOW_CONFIDENCE } from '../lib/dimeSlipParser';
+import type { SlipConfidence, SlipField } from '../lib/dimeSlipParser';
+import type { TradeInput } from '../lib/dimeTrades';
+
+interface SlipFieldsEditorProps {
+    input: TradeInput;
+    confidence: SlipConfidence;
+    onChange: (input: TradeInput, field: SlipField) => void;
+}
+
+type NumericField = Exclude<SlipField, 'side' | 'symbol' | 'transaction_date'>;
+
+const FEE_INPUTS: { field: NumericField; label: string }[] = [
+    { field: 'commission', label: 'Comm.' },
+    { field: 'vat', label: 'VAT' },
+    { field: 'sec_fee', label: 'SEC' },
+    { field: 'taf_fee', label: 'TAF' },
+    { field: 'fee', label: 'Fee' },
+];
+
+// datetime-local wants local time without a zone; slips are read as +07:00
+function toLocalInput(value: string): string {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return '';
+    date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+    return date.toISOString().slice(0, 16);
+}
+
+/**
+ * One OCR'd trade as editable fields. Fields read with low confidence are
+ * amber and required fields the slip did not show are red, so the eye goes
+ * to what needs checking; editing a field clears its highlight.
+ */
+export default function SlipFieldsEditor({ input, confidence, onChange }: SlipFieldsEditorProps) {
+    const required: SlipField[] = ['side', 'symbol', 'transaction_date', 'executed_price', input.side === 'BUY' ? 'input_amount_usd' : 'input_shares'];
+
+    const tone = (field: SlipField) => {
+        const score = confidence[field];
+        if (score == null) return required.includes(field) ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-white';
+        return score < LOW_CONFIDENCE ? 'border-amber-300 bg-amber-50' : 'border-gray-200 bg-white';
+    };
+    const inputClass = (field: SlipField) =>
+        `w-full border rounded-md px-2 py-1 text-[11px] text-gray-700 focus:outline-none focus:ring-2 focus:ring-amber-300 ${tone(field)}`;
+
+    const setNumber = (field: NumericField, value: string) =>
+        onChange({ ...input, [field]: value.trim() ? Number(value) : null }, field);
+
+    const numberInput = (field: NumericField, label: string) => (
+        <label key={field} className="flex flex-col gap-0.5">
+            <span className="text-[9px] font-semibold text-gray-400 uppercase tracking-wider">{label}</span>
+            <input
+                type="number"
+                step="any"
+                value={input[field] == null || Number.isNaN(input[field]) ? '' : String(input[field])}
+                onChange={(e) => setNumber(field, e.target.value)}
+                className={inputClass(field)}
+            />
+        </label>
+    );
+
+    return (
+        <div className="flex flex-col gap-1.5">
+            <div className="grid grid-cols-[4.5rem_1fr_1.5fr] gap-1.5">
+                <label className="flex flex-col gap-0.5">
+                    <span className="text-[9px] font-semibold text-gray-400 uppercase tracking-wider">Side</span>
+                    <select
+                        value={input.side}
+                        onChange={(e) => onChange({ ...input, side: e.target.value as TradeInput['side'] }, 'side')}
+                        className={inputClass('side')}
+                    >
+                        <option value="BUY">BUY</option>
+                        <option value="SELL">SELL</option>
+                    </select>
+                </label>
+                <label className="flex flex-col gap-0.5">
+                    <span className="text-[9px] font-semibold text-gray-400 uppercase tracking-wider">Symbol</span>
+                    <input
+                        type="text"
+                        value={input.symbol}
+                        onChange={(e) => onChange({ ...input, symbol: e.target.value.toUpperCase() }, 'symbol')}
+                        className={`${inputClass('symbol')} uppercase font-semibold`}
+                    />
+                </label>
+                <label className="flex flex-col gap-0.5">
+                    <span className="text-[9px] font-semibold text-gray-400 uppercase tracking-wider">Date</span>
+                    <input
+                        type="datetime-local"
+                        value={toLocalInput(input.transaction_date)}
+                        onChange={(e) => onChange({ ...input, transaction_date: e.target.value }, 'transaction_date')}
+                        className={inputClass('transaction_date')}
+                    />
+                </label>
+            </div>
+            <div className="grid grid-cols-2 gap-1.5">
+                {numberInput('executed_price', 'Price')}
+                {input.side === 'BUY'
+                    ? numberInput('input_amount_usd', 'Amount (USD)')
+                    : numberInput('input_shares', 'Shares')}
+            </div>
+            <div className="grid grid-cols-5 gap-1.5">
+                {FEE_INPUTS.map(({ field, label }) => numberInput(field, label))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,119 @@
+import { useState, useSyncExternalStore } from 'react';
+import type { OfflineSync } from '../data/offlineBackend';
+import type { QueuedWrite } from '../data/offlineStore';
+
+const TABLE_LABELS: Record<string, string> = {
+    pantagon_assets: 'Transaction',
+    pantagon_usd: 'FX exchange',
+    dime_transactions: 'Dime trade',
+};
+
+function describe(write: QueuedWrite): string {
+    const label = TABLE_LABELS[write.table] ?? write.table;
+    const count = write.rows.length > 1 ? ` ×${write.rows.length}` : '';
+    const queued = new Date(write.queuedAt).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+    return `${label}${count} · queued ${queued}`;
+}
+
+// Header badge for the offline queue: hidden while online with nothing to send
+export default function SyncStatus({ sync }: { sync: OfflineSync }) {
+    const status = useSyncExternalStore(sync.subscribe, sync.getStatus);
+    const [open, setOpen] = useState(false);
+    const [busyId, setBusyId] = useState<number | null>(null);
+
+    const hasConflicts = status.conflicts.length > 0;
+    if (status.online && !status.usingCache && status.pending === 0 && !hasConflicts && !status.syncing) return null;
+
+    const handle = async (id: number, action: (id: number) => Promise<void>) => {
+        try {
+            setBusyId(id);
+            await action(id);
+        } catch (error) {
+            console.error('Error resolving sync conflict:', error);
+            alert('Sync failed: ' + (error as Error).message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const icon = status.syncing
+        ? 'pi pi-sync pi-spin'
+        : hasConflicts ? 'pi pi-exclamation-triangle'
+        : status.online ? 'pi pi-cloud-upload' : 'pi pi-wifi';
+    const tone = hasConflicts
+        ? 'bg-red-50 border-red-100 text-red-500'
+        : status.online ? 'bg-blue-50 border-blue-100 text-blue-600' : 'bg-gray-100 border-gray-200 text-gray-500';
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setOpen(prev => !prev)}
+                className={`h-8 px-2 flex items-center gap-1.5 rounded-lg border shadow-sm text-[10px] font-bold uppercase tracking-wider ${tone}`}
+                aria-label="Sync status"
+            >
+                <i className={`${icon} text-xs`}></i>
+                {status.online ? null : <span>Offline</span>}
+                {status.pending + status.conflicts.length > 0 && <span>{status.pending + status.conflicts.length}</span>}
+            </button>
+
+            {open && (
+                <div className="absolute right-0 top-10 w-72 bg-white rounded-2xl shadow-lg border border-gray-100 p-3 flex flex-col gap-2 z-50">
+                    <div className="flex justify-between items-center">
+                        <span className="text-sm font-bold text-[#001f3f]">{status.online ? 'Online' : 'Offline'}</span>
+                        <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+                            <i className="pi pi-times text-xs"></i>
+                        </button>
+                    </div>
+
+                    <p className="text-xs text-gray-500 m-0">
+                        {status.pending > 0
+                            ? `${status.pending} ${status.pending === 1 ? 'entry' : 'entries'} waiting to sync.`
+                            : 'Nothing waiting to sync.'}
+                        {status.usingCache && ' Showing data saved on this device.'}
+                    </p>
+                    {status.lastSyncedAt && (
+                        <p className="text-[10px] text-gray-400 m-0">
+                            Last sync {new Date(status.lastSyncedAt).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                    )}
+
+                    {hasConflicts && (
+                        <div className="flex flex-col gap-2 border-t border-gray-100 pt-2">
+                            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Rejected by the server</span>
+                            {status.conflicts.map(write => (
+                                <div key={write.id} className="bg-red-50 rounded-xl px-3 py-2 flex flex-col gap-1">
+                                    <span className="text-xs font-bold text-gray-700">{describe(write)}</span>
+                                    <span className="text-[10px] text-red-500">{write.error}</span>
+                                    <div className="flex gap-2 justify-end">
+                                        <button
+                                            onClick={() => handle(write.id as number, sync.retry)}
+                                            disabled={busyId !== null}
+                                            className="text-[10px] font-bold text-blue-600 disabled:opacity-50"
+                                        >
+                                            <i className="pi pi-refresh text-[10px] mr-1"></i>Retry
+                                        </button>
+                                        <button
+                                            onClick={() => handle(write.id as number, sync.discard)}
+                                            disabled={busyId !== null}
+                                            className="text-[10px] font-bold text-red-500 disabled:opacity-50"
+                                        >
+                                            <i className="pi pi-trash text-[10px] mr-1"></i>Discard
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <button
+                        onClick={() => sync.syncNow()}
+                        disabled={!status.online || status.syncing || status.pending === 0}
+                        className="py-2 rounded-xl text-xs font-bold bg-[#001f3f] text-white hover:bg-[#002f5f] transition-all disabled:opacity-50"
+                    >
+                        {status.syncing ? <i className="pi pi-spin pi-spinner"></i> : 'Sync Now'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { AuthContext } from './auth';
+import type { AuthUser } from './auth';
+import { supabase } from '../supabaseClient';
+import { isDemoMode, offlineSync } from '../data/defaultBackend';
+import { clearQueryCache } from '../data/queryCache';
+
+const DEMO_USER: AuthUser = { id: 'demo', email: null };
+
+const toUser = (session: Session | null): AuthUser | null =>
+    session ? { id: session.user.id, email: session.user.email ?? null } : null;
+
+export default function AuthProvider({ children }: { children: ReactNode }) {
+    const [user, setUser] = useState<AuthUser | null>(isDemoMode ? DEMO_USER : null);
+    const [loading, setLoading] = useState(!isDemoMode);
+
+    useEffect(() => {
+        if (isDemoMode || !supabase) return;
+
+        // Fires once with the stored session (INITIAL_SESSION), then on every sign-in/out and refresh
+        let currentId: string | null = null;
+        const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+            const next = toUser(session);
+            if ((next?.id ?? null) !== currentId) {
+                // Cached reads and queued writes belong to one member; switch
+                // them before anything renders for the next one
+                currentId = next?.id ?? null;
+                offlineSync?.setUser(currentId);
+                clearQueryCache();
+            }
+            setUser(prev => prev?.id === next?.id ? prev : next);
+            setLoading(false);
+        });
+        return () => data.subscription.unsubscribe();
+    }, []);
+
+    const signInWithPassword = async (email: string, password: string) => {
+        if (!supabase) return;
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+    };
+
+    const sendMagicLink = async (email: string) => {
+        if (!supabase) return;
+        const { error } = await supabase.auth.signInWithOtp({
+            email,
+            options: { emailRedirectTo: window.location.origin },
+        });
+        if (error) throw error;
+    };
+
+    const signOut = async () => {
+        if (!supabase) return;
+        const { error } = await supabase.auth.signOut();
+        if (error) throw error;
+    };
+
+    return (
+        <AuthContext.Provider value={{ user, loading, isDemo: isDemoMode, signInWithPassword, sendMagicLink, signOut }}>
+            {children}
+        </AuthContext.Provider>
+    );
+}
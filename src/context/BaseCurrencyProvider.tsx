@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { BaseCurrencyContext } from './baseCurrency';
+import type { RateMode } from '../lib/currency';
+
+const BASE_CURRENCY_KEY = 'pantagon.baseCurrency';
+const RATE_MODE_KEY = 'pantagon.rateMode';
+
+export default function BaseCurrencyProvider({ children }: { children: ReactNode }) {
+    const [baseCurrency, setBaseCurrency] = useState<string>(() => localStorage.getItem(BASE_CURRENCY_KEY) || 'THB');
+    const [rateMode, setRateMode] = useState<RateMode>(() =>
+        localStorage.getItem(RATE_MODE_KEY) === 'weighted' ? 'weighted' : 'latest'
+    );
+
+    useEffect(() => {
+        localStorage.setItem(BASE_CURRENCY_KEY, baseCurrency);
+    }, [baseCurrency]);
+
+    useEffect(() => {
+        localStorage.setItem(RATE_MODE_KEY, rateMode);
+    }, [rateMode]);
+
+    return (
+        <BaseCurrencyContext.Provider value={{ baseCurrency, setBaseCurrency, rateMode, setRateMode }}>
+            {children}
+        </BaseCurrencyContext.Provider>
+    );
+}
@@ -0,0 +1,28 @@
+import { createContext, useContext } from 'react';
+
+export interface AuthUser {
+    id: string;
+    email: string | null;
+}
+
+export interface AuthState {
+    user: AuthUser | null;
+    loading: boolean; // until the stored session has been read
+    isDemo: boolean;  // no Supabase project; everyone is the demo user
+    signInWithPassword: (email: string, password: string) => Promise<void>;
+    sendMagicLink: (email: string) => Promise<void>;
+    signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthState>({
+    user: null,
+    loading: true,
+    isDemo: false,
+    signInWithPassword: async () => { },
+    sendMagicLink: async () => { },
+    signOut: async () => { },
+});
+
+export function useAuth(): AuthState {
+    return useContext(AuthContext);
+}
@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import type { RateMode } from '../lib/currency';
+
+export interface BaseCurrencyState {
+    baseCurrency: string;
+    setBaseCurrency: (currency: string) => void;
+    rateMode: RateMode;
+    setRateMode: (mode: RateMode) => void;
+}
+
+export const BaseCurrencyContext = createContext<BaseCurrencyState>({
+    baseCurrency: 'THB',
+    setBaseCurrency: () => { },
+    rateMode: 'latest',
+    setRateMode: () => { },
+});
+
+export function useBaseCurrency(): BaseCurrencyState {
+    return useContext(BaseCurrencyContext);
+}
@@ -0,0 +1,38 @@
+import { getBackend } from './backend';
+import type { PantagonAccount } from '../types';
+
+export type NewAccount = Omit<PantagonAccount, 'id' | 'created_at' | 'archived'> & Partial<Pick<PantagonAccount, 'archived'>>;
+
+const table = () => getBackend().table('pantagon_accounts');
+
+export const accountsRepository = {
+    /** Registry in display order. */
+    async list(): Promise<PantagonAccount[]> {
+        const { rows } = await table().select({
+            order: [{ column: 'sort_order' }, { column: 'id' }],
+        });
+        return rows;
+    },
+
+    async insert(account: NewAccount): Promise<PantagonAccount> {
+        const [row] = await table().insert([account]);
+        return row;
+    },
+
+    async update(id: number, patch: Partial<NewAccount>): Promise<void> {
+        await table().update([{ op: 'eq', column: 'id', value: id }], patch);
+    },
+
+    /**
+     * Renames an account and every row that refers to it by name (ledger,
+     * recurring templates, budgets) in one step; on failure nothing changes.
+     */
+    rename(from: string, to: string): Promise<void> {
+        return getBackend().renameAccount(from, to);
+    },
+
+    // Saves several accounts in one request, e.g. two swapped sort orders
+    async upsert(accounts: PantagonAccount[]): Promise<void> {
+        await table().upsert(accounts);
+    },
+};
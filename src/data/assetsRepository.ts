@@ -0,0 +1,113 @@
+import { getBackend } from './backend';
+import type { Filter, Page } from './backend';
+import { DataError } from './errors';
+import { UNTAGGED } from '../lib/tagAnalytics';
+import type { TransactionFilters } from '../lib/transactionFilters';
+import type { PantagonAsset } from '../types';
+
+export type NewAsset = Omit<PantagonAsset, 'id' | 'created_at' | 'transfer_id' | 'recurring_id' | 'recurring_date'>
+    & Partial<Pick<PantagonAsset, 'transfer_id' | 'recurring_id' | 'recurring_date'>>;
+
+export interface AssetQuery {
+    account?: string;
+    type?: PantagonAsset['type'];
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string;
+    tagged?: boolean;
+    excludeTransfers?: boolean;
+    transferIds?: string[];
+    fromRecurring?: boolean; // only rows posted from a recurring template
+}
+
+const table = () => getBackend().table('pantagon_assets');
+
+const NEWEST_FIRST = [{ column: 'date', ascending: false }, { column: 'id', ascending: false }] as const;
+
+function queryFilters(query: AssetQuery): Filter<PantagonAsset>[] {
+    const filters: Filter<PantagonAsset>[] = [];
+    if (query.account) filters.push({ op: 'eq', column: 'account_name', value: query.account });
+    if (query.type) filters.push({ op: 'eq', column: 'type', value: query.type });
+    if (query.from) filters.push({ op: 'gte', column: 'date', value: query.from });
+    if (query.to) filters.push({ op: 'lte', column: 'date', value: query.to });
+    if (query.tagged) filters.push({ op: 'notNull', column: 'tag' });
+    if (query.excludeTransfers) filters.push({ op: 'isNull', column: 'transfer_id' });
+    if (query.transferIds) filters.push({ op: 'in', column: 'transfer_id', value: query.transferIds });
+    if (query.fromRecurring) filters.push({ op: 'notNull', column: 'recurring_id' });
+    return filters;
+}
+
+function pageFilters(filters: TransactionFilters): Filter<PantagonAsset>[] {
+    const result: Filter<PantagonAsset>[] = [];
+    if (filters.q.trim()) result.push({ op: 'search', columns: ['note', 'tag'], term: filters.q });
+    if (filters.account) result.push({ op: 'eq', column: 'account_name', value: filters.account });
+    if (filters.tag) {
+        result.push(filters.tag === UNTAGGED
+            ? { op: 'isNull', column: 'tag' }
+            : { op: 'eq', column: 'tag', value: filters.tag });
+    }
+    // Transfers are neither in nor out; unfiltered they show once, as their OUT leg
+    if (filters.type) {
+        result.push({ op: 'eq', column: 'type', value: filters.type }, { op: 'isNull', column: 'transfer_id' });
+    } else if (!filters.account) {
+        result.push({ op: 'or', filters: [{ op: 'isNull', column: 'transfer_id' }, { op: 'eq', column: 'type', value: 'OUT' }] });
+    }
+    // Bounds come from the URL; one that is not a number is ignored rather than sent
+    const min = filters.min ? Number(filters.min) : NaN;
+    const max = filters.max ? Number(filters.max) : NaN;
+    if (Number.isFinite(min)) result.push({ op: 'gte', column: 'amount', value: min });
+    if (Number.isFinite(max)) result.push({ op: 'lte', column: 'amount', value: max });
+    if (filters.from) result.push({ op: 'gte', column: 'date', value: filters.from });
+    if (filters.to) result.push({ op: 'lte', column: 'date', value: filters.to });
+    return result;
+}
+
+export const assetsRepository = {
+    /** Ledger rows, newest first. */
+    async list(query: AssetQuery = {}): Promise<PantagonAsset[]> {
+        const { rows } = await table().select({ filters: queryFilters(query), order: [...NEWEST_FIRST] });
+        return rows;
+    },
+
+    /** One page of the Transactions list plus the total matching `filters`. */
+    page(filters: TransactionFilters, offset: number, limit: number): Promise<Page<PantagonAsset>> {
+        return table().select({ filters: pageFilters(filters), order: [...NEWEST_FIRST], offset, limit });
+    },
+
+    async get(id: number): Promise<PantagonAsset> {
+        const { rows } = await table().select({ filters: [{ op: 'eq', column: 'id', value: id }] });
+        if (rows.length === 0) throw new DataError('not_found', 'pantagon_assets', `Transaction ${id} not found`);
+        return rows[0];
+    },
+
+    insert(rows: NewAsset[]): Promise<PantagonAsset[]> {
+        return table().insert(rows);
+    },
+
+    async update(id: number, patch: Partial<NewAsset>): Promise<PantagonAsset> {
+        const [row] = await table().update([{ op: 'eq', column: 'id', value: id }], patch);
+        if (!row) throw new DataError('not_found', 'pantagon_assets', `Transaction ${id} not found`);
+        return row;
+    },
+
+    // Overwrites several rows by id in one request
+    upsert(rows: (NewAsset & { id: number })[]): Promise<PantagonAsset[]> {
+        return table().upsert(rows);
+    },
+
+    /**
+     * Inserts rows posted from recurring templates; an occurrence that is
+     * already in the ledger is left alone rather than posted twice.
+     */
+    insertOccurrences(rows: NewAsset[]): Promise<PantagonAsset[]> {
+        return table().upsert(rows, { onConflict: ['recurring_id', 'recurring_date'], ignoreDuplicates: true });
+    },
+
+    remove(id: number): Promise<void> {
+        return table().delete([{ op: 'eq', column: 'id', value: id }]);
+    },
+
+    // Both legs of a transfer
+    removeTransfer(transferId: string): Promise<void> {
+        return table().delete([{ op: 'eq', column: 'transfer_id', value: transferId }]);
+    },
+};
@@ -0,0 +1,97 @@
+import type {
+    DimeTransaction,
+    PantagonAccount,
+    PantagonAsset,
+    PantagonBudget,
+    PantagonRecurring,
+    PantagonRecurringSkip,
+    PantagonUSD,
+} from '../types';
+
+export interface TableRows {
+    pantagon_assets: PantagonAsset;
+    pantagon_usd: PantagonUSD;
+    dime_transactions: DimeTransaction;
+    pantagon_accounts: PantagonAccount;
+    pantagon_recurring: PantagonRecurring;
+    pantagon_recurring_skips: PantagonRecurringSkip;
+    pantagon_budgets: PantagonBudget;
+}
+
+export type TableName = keyof TableRows;
+
+type Column<T> = keyof T & string;
+type Scalar = string | number | boolean;
+
+export type Filter<T> =
+    | { op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'; column: Column<T>; value: Scalar }
+    | { op: 'in'; column: Column<T>; value: Scalar[] }
+    | { op: 'isNull' | 'notNull'; column: Column<T> }
+    // Case-insensitive substring match on any of the columns
+    | { op: 'search'; columns: Column<T>[]; term: string }
+    | { op: 'or'; filters: Filter<T>[] };
+
+/**
+ * What a 'search' filter looks for: the term with LIKE wildcards and the
+ * characters PostgREST's or() syntax uses turned into spaces. Every backend
+ * matches this, case-insensitively, so search finds the same rows in demo
+ * mode and against Supabase.
+ */
+export function searchTerm(term: string): string {
+    return term.replace(/[%_,()*"\\]/g, ' ').trim();
+}
+
+export interface Query<T> {
+    filters?: Filter<T>[];
+    order?: { column: Column<T>; ascending?: boolean }[];
+    offset?: number;
+    limit?: number;
+}
+
+export interface Page<T> {
+    rows: T[];
+    total: number; // matching rows before offset/limit
+}
+
+export interface UpsertOptions<T> {
+    onConflict?: Column<T>[]; // defaults to the primary key
+    ignoreDuplicates?: boolean; // keep existing rows instead of updating them
+}
+
+/** Storage-agnostic access to one table. Every method rejects with a DataError. */
+export interface Table<T> {
+    select(query?: Query<T>): Promise<Page<T>>;
+    insert(rows: Partial<T>[]): Promise<T[]>;
+    update(filters: Filter<T>[], patch: Partial<T>): Promise<T[]>;
+    upsert(rows: Partial<T>[], options?: UpsertOptions<T>): Promise<T[]>;
+    delete(filters: Filter<T>[]): Promise<void>;
+}
+
+export interface TableChange {
+    table: TableName;
+    event: 'insert' | 'update' | 'delete';
+}
+
+export interface DataBackend {
+    readonly kind: 'supabase' | 'memory';
+    table<K extends TableName>(name: K): Table<TableRows[K]>;
+    // Moves id sequences past the highest stored id (after restoring explicit ids)
+    syncIdSequences(): Promise<void>;
+    // Renames an account in the registry, ledger, recurring templates and budgets, all or nothing
+    renameAccount(from: string, to: string): Promise<void>;
+    // Calls back whenever rows of the tables change, from this device or another; returns unsubscribe
+    watch(tables: TableName[], onChange: (change: TableChange) => void): () => void;
+}
+
+let current: DataBackend | null = null;
+
+/** Backend used by every repository; set once at startup (see main.tsx). */
+export function getBackend(): DataBackend {
+    if (!current) throw new Error('Data backend has not been configured');
+    return current;
+}
+
+// Swap the storage behind every repository, e.g. an in-memory one for demos or tests
+export function setBackend(backend: DataBackend) {
+    current = backend;
+}
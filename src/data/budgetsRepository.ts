@@ -0,0 +1,27 @@
+import { getBackend } from './backend';
+import type { PantagonBudget } from '../types';
+
+export type NewBudget = Omit<PantagonBudget, 'id' | 'created_at'>;
+
+const table = () => getBackend().table('pantagon_budgets');
+
+export const budgetsRepository = {
+    /** Budgets by tag. */
+    async list(): Promise<PantagonBudget[]> {
+        const { rows } = await table().select({ order: [{ column: 'tag' }] });
+        return rows;
+    },
+
+    async insert(budget: NewBudget): Promise<PantagonBudget> {
+        const [row] = await table().insert([budget]);
+        return row;
+    },
+
+    async update(id: number, patch: Partial<NewBudget>): Promise<void> {
+        await table().update([{ op: 'eq', column: 'id', value: id }], patch);
+    },
+
+    remove(id: number): Promise<void> {
+        return table().delete([{ op: 'eq', column: 'id', value: id }]);
+    },
+};
@@ -0,0 +1,17 @@
+import { isSupabaseConfigured, supabase } from '../supabaseClient';
+import type { DataBackend } from './backend';
+import { createDemoData } from './demoData';
+import { createMemoryBackend } from './memoryBackend';
+import { createOfflineSync } from './offlineBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+
+// VITE_DEMO_MODE=true forces demo data even when Supabase credentials are set
+export const isDemoMode = import.meta.env.VITE_DEMO_MODE === 'true' || !isSupabaseConfigured;
+
+// Offline cache and write queue around Supabase; null in demo mode
+export const offlineSync = isDemoMode || !supabase ? null : createOfflineSync(createSupabaseBackend(supabase));
+
+export function createDefaultBackend(): DataBackend {
+    if (!offlineSync) return createMemoryBackend(createDemoData());
+    return offlineSync.backend;
+}
@@ -0,0 +1,82 @@
+import type { MemorySeed } from './memoryBackend';
+import type { PantagonAsset } from '../types';
+
+const ACCOUNTS: MemorySeed['pantagon_accounts'] = [
+    { name: 'Dime [Invest]', institution: 'Dime', icon: '/Dime.png', sort_order: 1, currency: 'THB', category: 'Investment' },
+    { name: 'Dime [FCD]', institution: 'Dime', icon: '/Dime.png', sort_order: 2, currency: 'USD', category: 'Foreign Currency' },
+    { name: 'SCB [Recieve/ Saving]', institution: 'SCB', icon: '/scb.jpg', sort_order: 3, currency: 'THB', category: 'Bank' },
+    { name: 'KBank Emergency', institution: 'KBank', icon: '/kbank.png', sort_order: 4, currency: 'THB', category: 'Emergency Fund' },
+    { name: 'Make Monthly Expense', institution: 'KBank', icon: '/kbank.png', sort_order: 5, currency: 'THB', category: 'Spending' },
+];
+
+const isoDate = (date: Date) => date.toISOString().split('T')[0];
+
+// Day `day` of the month `monthsAgo` months before `today`
+const dayOf = (today: Date, monthsAgo: number, day: number) =>
+    isoDate(new Date(Date.UTC(today.getFullYear(), today.getMonth() - monthsAgo, day)));
+
+/**
+ * Six months of plausible ledger, FX and Dime activity ending at `today`, so
+ * every page has something to show in demo mode.
+ */
+export function createDemoData(today = new Date()): MemorySeed {
+    const assets: Partial<PantagonAsset>[] = [
+        { account_name: 'SCB [Recieve/ Saving]', type: 'IN', amount: 120000, date: dayOf(today, 6, 1), note: 'Opening balance', tag: null },
+        { account_name: 'KBank Emergency', type: 'IN', amount: 150000, date: dayOf(today, 6, 1), note: 'Opening balance', tag: null },
+        { account_name: 'Dime [FCD]', type: 'IN', amount: 1500, date: dayOf(today, 6, 1), note: 'Opening balance', tag: null, currency: 'USD' },
+    ];
+
+    for (let monthsAgo = 5; monthsAgo >= 0; monthsAgo--) {
+        const salaryDate = dayOf(today, monthsAgo, 25);
+        if (salaryDate > isoDate(today)) continue;
+
+        const transferId = crypto.randomUUID();
+        assets.push(
+            { account_name: 'SCB [Recieve/ Saving]', type: 'IN', amount: 55000, date: salaryDate, note: 'Salary', tag: 'Salary' },
+            { account_name: 'SCB [Recieve/ Saving]', type: 'OUT', amount: 20000, date: salaryDate, note: 'Monthly spending', tag: null, transfer_id: transferId },
+            { account_name: 'Make Monthly Expense', type: 'IN', amount: 20000, date: salaryDate, note: 'Monthly spending', tag: null, transfer_id: transferId },
+            { account_name: 'Make Monthly Expense', type: 'OUT', amount: 9000, date: dayOf(today, monthsAgo, 1), note: 'Condo rent', tag: 'Rent' },
+            { account_name: 'Make Monthly Expense', type: 'OUT', amount: 5200 + monthsAgo * 310, date: dayOf(today, monthsAgo, 12), note: 'Groceries and eating out', tag: 'Food' },
+            { account_name: 'Make Monthly Expense', type: 'OUT', amount: 1400 + monthsAgo * 90, date: dayOf(today, monthsAgo, 14), note: 'BTS top-up', tag: 'Transport' },
+            { account_name: 'Dime [Invest]', type: 'IN', amount: 10000, date: salaryDate, note: 'Monthly DCA', tag: 'Investment' },
+        );
+        if (monthsAgo % 2 === 0) {
+            assets.push({ account_name: 'Make Monthly Expense', type: 'OUT', amount: 3500, date: dayOf(today, monthsAgo, 20), note: 'Online shopping', tag: 'Shopping' });
+        }
+    }
+
+    return {
+        pantagon_accounts: ACCOUNTS,
+        pantagon_assets: assets,
+        pantagon_usd: [
+            { transaction_at: `${dayOf(today, 5, 3)}T09:30:00.000Z`, from_currency: 'THB', to_currency: 'USD', thb_amount: 35400, foreign_amount: 1000, exchange_rate: 35.4 },
+            { transaction_at: `${dayOf(today, 3, 8)}T10:15:00.000Z`, from_currency: 'THB', to_currency: 'USD', thb_amount: 17850, foreign_amount: 500, exchange_rate: 35.7 },
+            { transaction_at: `${dayOf(today, 1, 5)}T08:45:00.000Z`, from_currency: 'THB', to_currency: 'USD', thb_amount: 17400, foreign_amount: 500, exchange_rate: 34.8 },
+        ],
+        dime_transactions: [
+            {
+                side: 'INIT', transaction_date: `${dayOf(today, 6, 1)}T00:00:00.000Z`, symbol: 'VOO', shares: 2,
+                total_amount: 900, executed_price: 450, stock_amount: 900, currency: 'USD',
+            },
+            {
+                side: 'BUY', transaction_date: `${dayOf(today, 4, 10)}T14:30:00.000Z`, symbol: 'VOO', shares: 0.6657,
+                total_amount: 300, executed_price: 449.2, commission: 0.9, vat: 0.06, input_amount_usd: 300,
+                stock_amount: 299.04, currency: 'USD',
+            },
+            {
+                side: 'BUY', transaction_date: `${dayOf(today, 2, 10)}T14:30:00.000Z`, symbol: 'AAPL', shares: 0.9531,
+                total_amount: 200, executed_price: 208.82, commission: 0.9, vat: 0.06, input_amount_usd: 200,
+                stock_amount: 199.04, currency: 'USD',
+            },
+        ],
+        pantagon_recurring: [
+            { name: 'Salary', account_name: 'SCB [Recieve/ Saving]', type: 'IN', amount: 55000, tag: 'Salary', note: 'Salary', cadence: 'monthly', start_date: dayOf(today, -1, 25) },
+            { name: 'Condo rent', account_name: 'Make Monthly Expense', type: 'OUT', amount: 9000, tag: 'Rent', note: 'Condo rent', cadence: 'monthly', start_date: dayOf(today, -1, 1) },
+        ],
+        pantagon_budgets: [
+            { tag: 'Food', amount: 6000, currency: 'THB', carry_over: true, start_month: dayOf(today, 5, 1) },
+            { tag: 'Transport', amount: 1500, currency: 'THB', carry_over: false, start_month: dayOf(today, 5, 1) },
+            { tag: 'Shopping', amount: 2000, currency: 'THB', carry_over: true, start_month: dayOf(today, 5, 1) },
+        ],
+    };
+}
@@ -0,0 +1,27 @@
+import { getBackend } from './backend';
+import type { DimeTransaction } from '../types';
+
+export type NewDimeTransaction = Omit<DimeTransaction, 'id' | 'created_at'>;
+
+const table = () => getBackend().table('dime_transactions');
+
+export const dimeRepository = {
+    /** Trades, newest first. */
+    async list(): Promise<DimeTransaction[]> {
+        const { rows } = await table().select({ order: [{ column: 'transaction_date', ascending: false }] });
+        return rows;
+    },
+
+    // Several trades (e.g. a batch import) land in one request, all or none
+    insert(transactions: NewDimeTransaction[]): Promise<DimeTransaction[]> {
+        return table().insert(transactions);
+    },
+
+    async update(id: string, patch: Partial<NewDimeTransaction>): Promise<void> {
+        await table().update([{ op: 'eq', column: 'id', value: id }], patch);
+    },
+
+    remove(id: string): Promise<void> {
+        return table().delete([{ op: 'eq', column: 'id', value: id }]);
+    },
+};
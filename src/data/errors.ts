@@ -0,0 +1,44 @@
+// Every repository call rejects with a DataError, whichever backend served it,
+// so pages can branch on `code` instead of on backend-specific error shapes.
+
+export type DataErrorCode =
+    | 'not_found'    // a single-row read matched nothing
+    | 'conflict'     // unique / primary key violation
+    | 'invalid'      // rejected by a check, not-null or type constraint
+    | 'forbidden'    // row-level security or missing grant
+    | 'unavailable'  // backend unreachable
+    | 'unknown';
+
+export class DataError extends Error {
+    readonly code: DataErrorCode;
+    readonly table: string;
+
+    constructor(code: DataErrorCode, table: string, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'DataError';
+        this.code = code;
+        this.table = table;
+    }
+}
+
+// Postgres SQLSTATEs and PostgREST codes worth telling apart in the UI
+const CODES: Record<string, DataErrorCode> = {
+    PGRST116: 'not_found',
+    '23505': 'conflict',
+    '23502': 'invalid',
+    '23503': 'invalid',
+    '23514': 'invalid',
+    '22P02': 'invalid',
+    '22007': 'invalid',
+    '42501': 'forbidden',
+};
+
+export function toDataError(table: string, error: { message: string; code?: string }): DataError {
+    if (error instanceof DataError) return error;
+
+    let code: DataErrorCode = CODES[error.code ?? ''] ?? 'unknown';
+    // supabase-js reports network failures as a PostgrestError without a code
+    if (code === 'unknown' && /failed to fetch|network/i.test(error.message)) code = 'unavailable';
+
+    return new DataError(code, table, error.message, { cause: error });
+}
@@ -0,0 +1,27 @@
+import { getBackend } from './backend';
+import type { PantagonUSD } from '../types';
+
+export type NewFxTransaction = Omit<PantagonUSD, 'id' | 'created_at'>;
+
+const table = () => getBackend().table('pantagon_usd');
+
+export const fxRepository = {
+    /** Conversions, newest first. */
+    async list(): Promise<PantagonUSD[]> {
+        const { rows } = await table().select({ order: [{ column: 'transaction_at', ascending: false }] });
+        return rows;
+    },
+
+    async insert(transaction: NewFxTransaction): Promise<PantagonUSD> {
+        const [row] = await table().insert([transaction]);
+        return row;
+    },
+
+    async update(id: number, patch: Partial<NewFxTransaction>): Promise<void> {
+        await table().update([{ op: 'eq', column: 'id', value: id }], patch);
+    },
+
+    remove(id: number): Promise<void> {
+        return table().delete([{ op: 'eq', column: 'id', value: id }]);
+    },
+};
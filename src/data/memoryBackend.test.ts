@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { searchTerm } from './backend';
+import type { Filter } from './backend';
+import { createMemoryBackend } from './memoryBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import type { PantagonAsset } from '../types';
+
+const asset = (id: number, note: string | null, tag: string | null = null): Partial<PantagonAsset> => ({
+    id, account_name: 'KBank', type: 'OUT', amount: id * 10, date: `2026-01-${String(id).padStart(2, '0')}`, note, tag,
+});
+
+// Records the or() conditions the Supabase backend sends for a select
+function recordingClient() {
+    const conditions: string[] = [];
+    const builder = {
+        filter: () => builder,
+        or: (condition: string) => {
+            conditions.push(condition);
+            return builder;
+        },
+        order: () => builder,
+        range: () => builder,
+        then: (resolve: (result: { data: unknown[]; error: null; count: number }) => void) =>
+            resolve({ data: [], error: null, count: 0 }),
+    };
+    const client = { from: () => ({ select: () => builder }) } as unknown as SupabaseClient;
+    return { client, conditions };
+}
+
+describe('memory backend', () => {
+    const seed = {
+        pantagon_assets: [
+            asset(1, 'Coffee (large)'),
+            asset(2, 'coffee beans', 'Food'),
+            asset(3, '50% off_sale'),
+            asset(4, null, 'Travel'),
+        ],
+    };
+
+    it('filters, orders and pages like the Supabase backend', async () => {
+        const table = createMemoryBackend(seed).table('pantagon_assets');
+        const page = await table.select({
+            filters: [{ op: 'gte', column: 'amount', value: 20 }],
+            order: [{ column: 'date', ascending: false }],
+            offset: 1,
+            limit: 2,
+        });
+        expect(page.total).toBe(3);
+        expect(page.rows.map(row => row.id)).toEqual([3, 2]);
+    });
+
+    it('searches case-insensitively across the given columns', async () => {
+        const table = createMemoryBackend(seed).table('pantagon_assets');
+        const { rows } = await table.select({ filters: [{ op: 'search', columns: ['note', 'tag'], term: 'COFFEE' }] });
+        expect(rows.map(row => row.id)).toEqual([1, 2]);
+        const { rows: tagged } = await table.select({ filters: [{ op: 'search', columns: ['note', 'tag'], term: 'trav' }] });
+        expect(tagged.map(row => row.id)).toEqual([4]);
+    });
+
+    it('treats wildcards and or() syntax in a search as spaces, as Supabase does', async () => {
+        const table = createMemoryBackend(seed).table('pantagon_assets');
+        const search = async (term: string) =>
+            (await table.select({ filters: [{ op: 'search', columns: ['note'], term }] })).rows.map(row => row.id);
+
+        // "_" and "%" are not wildcards, and "(" is not kept
+        expect(await search('off_sale')).toEqual([]);
+        expect(await search('50%')).toEqual([3]);
+        expect(await search('coffee (large')).toEqual([]);
+        expect(await search('(large)')).toEqual([1]);
+        // Nothing left to search for matches everything
+        expect(await search('%,')).toEqual([1, 2, 3, 4]);
+    });
+
+    it('sends the same cleaned term to Supabase', async () => {
+        const { client, conditions } = recordingClient();
+        const filter: Filter<PantagonAsset> = { op: 'search', columns: ['note', 'tag'], term: ' 50%,(off_sale) ' };
+        await createSupabaseBackend(client).table('pantagon_assets').select({ filters: [filter] });
+
+        const term = searchTerm(filter.term);
+        expect(term).toBe('50   off sale');
+        expect(conditions).toEqual([`note.ilike."%${term}%",tag.ilike."%${term}%"`]);
+    });
+
+    it('rejects a whole insert when one row breaks a unique constraint', async () => {
+        const table = createMemoryBackend({ pantagon_accounts: [{ id: 1, name: 'KBank' }] }).table('pantagon_accounts');
+        await expect(table.insert([{ name: 'SCB' }, { name: 'KBank' }])).rejects.toMatchObject({ code: 'conflict' });
+        expect((await table.select()).rows.map(row => row.name)).toEqual(['KBank']);
+    });
+
+    it('keeps existing rows on an upsert that ignores duplicates', async () => {
+        const table = createMemoryBackend({
+            pantagon_assets: [{ ...asset(1, 'posted'), recurring_id: 7, recurring_date: '2026-01-01' }],
+        }).table('pantagon_assets');
+        await table.upsert(
+            [{ ...asset(2, 'again'), recurring_id: 7, recurring_date: '2026-01-01' }],
+            { onConflict: ['recurring_id', 'recurring_date'], ignoreDuplicates: true }
+        );
+        expect((await table.select()).rows.map(row => row.note)).toEqual(['posted']);
+    });
+
+    it('applies foreign key actions when a template is deleted', async () => {
+        const backend = createMemoryBackend({
+            pantagon_recurring: [{ id: 7, name: 'Salary' }],
+            pantagon_recurring_skips: [{ recurring_id: 7, occurrence_date: '2026-02-01' }],
+            pantagon_assets: [{ ...asset(1, 'salary'), recurring_id: 7, recurring_date: '2026-01-01' }],
+        });
+        await backend.table('pantagon_recurring').delete([{ op: 'eq', column: 'id', value: 7 }]);
+        expect((await backend.table('pantagon_recurring_skips').select()).rows).toEqual([]);
+        expect((await backend.table('pantagon_assets').select()).rows[0].recurring_id).toBeNull();
+    });
+
+    it('reports writes to watchers of the table', async () => {
+        const backend = createMemoryBackend();
+        const onChange = vi.fn();
+        const unwatch = backend.watch(['pantagon_usd'], onChange);
+        await backend.table('pantagon_usd').insert([{ thb_amount: 3500, foreign_amount: 100, exchange_rate: 35 }]);
+        await backend.table('pantagon_assets').insert([asset(1, 'ignored')]);
+        unwatch();
+        await backend.table('pantagon_usd').delete([{ op: 'eq', column: 'id', value: 1 }]);
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(onChange).toHaveBeenCalledWith({ table: 'pantagon_usd', event: 'insert' });
+    });
+
+    it('refuses to update or delete without a filter', async () => {
+        const table = createMemoryBackend(seed).table('pantagon_assets');
+        await expect(table.delete([])).rejects.toMatchObject({ code: 'invalid' });
+        await expect(table.update([], { note: 'x' })).rejects.toMatchObject({ code: 'invalid' });
+    });
+});
@@ -0,0 +1,289 @@
+import { DataError } from './errors';
+import { searchTerm } from './backend';
+import type { DataBackend, Filter, Page, Query, Table, TableChange, TableName, TableRows, UpsertOptions } from './backend';
+
+type Row = Record<string, unknown>;
+
+export type MemorySeed = { [K in TableName]?: Partial<TableRows[K]>[] };
+
+interface TableSchema {
+    key: string[];        // primary key
+    // Further unique constraints. Rows with a null in one are exempt unless
+    // nullsEqual (the coalesce(...) indexes)
+    unique: { columns: string[]; nullsEqual?: boolean }[];
+    id?: 'serial' | 'uuid';
+    defaults: Row;
+    references?: { table: TableName; column: string; onDelete: 'cascade' | 'setNull' }[]; // rows pointing at this table's id
+}
+
+// Mirrors the column defaults and constraints of the Supabase migrations
+const SCHEMAS: Record<TableName, TableSchema> = {
+    pantagon_assets: {
+        key: ['id'],
+        unique: [{ columns: ['recurring_id', 'recurring_date'] }],
+        id: 'serial',
+        defaults: { note: null, tag: null, currency: 'THB', transfer_id: null, recurring_id: null, recurring_date: null },
+    },
+    pantagon_usd: { key: ['id'], unique: [], id: 'serial', defaults: {} },
+    dime_transactions: {
+        key: ['id'],
+        unique: [],
+        id: 'uuid',
+        defaults: {
+            symbol: null, shares: null, commission: null, vat: null, fee: null, input_amount_usd: null,
+            input_shares: null, stock_amount: null, sec_fee: null, taf_fee: null, currency: null,
+        },
+    },
+    pantagon_accounts: {
+        key: ['id'],
+        unique: [{ columns: ['name'] }],
+        id: 'serial',
+        defaults: { institution: null, icon: null, sort_order: 0, currency: 'THB', category: null, archived: false },
+    },
+    pantagon_recurring: {
+        key: ['id'],
+        unique: [],
+        id: 'serial',
+        defaults: { currency: 'THB', tag: null, note: null, cadence: 'monthly', end_date: null, active: true },
+        references: [
+            { table: 'pantagon_assets', column: 'recurring_id', onDelete: 'setNull' },
+            { table: 'pantagon_recurring_skips', column: 'recurring_id', onDelete: 'cascade' },
+        ],
+    },
+    pantagon_recurring_skips: { key: ['recurring_id', 'occurrence_date'], unique: [], defaults: {} },
+    pantagon_budgets: {
+        key: ['id'],
+        unique: [{ columns: ['tag', 'account_name'], nullsEqual: true }],
+        id: 'serial',
+        defaults: { account_name: null, currency: 'THB', carry_over: false },
+    },
+};
+
+// Where an account's name is stored, as pantagon_rename_account updates them
+const RENAMED_COLUMNS: [TableName, string][] = [
+    ['pantagon_accounts', 'name'],
+    ['pantagon_assets', 'account_name'],
+    ['pantagon_recurring', 'account_name'],
+    ['pantagon_budgets', 'account_name'],
+];
+
+// Numbers compare numerically even when one side arrives as a string (numeric columns)
+function compare(a: unknown, b: unknown): number {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return 1;
+    if (b === null || b === undefined) return -1;
+    const numA = Number(a);
+    const numB = Number(b);
+    if ((typeof a === 'number' || typeof b === 'number') && !isNaN(numA) && !isNaN(numB)) return numA - numB;
+    return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function matches(row: Row, filter: Filter<Row>): boolean {
+    switch (filter.op) {
+        case 'eq': return row[filter.column] != null && compare(row[filter.column], filter.value) === 0;
+        case 'neq': return row[filter.column] != null && compare(row[filter.column], filter.value) !== 0;
+        case 'gt': return row[filter.column] != null && compare(row[filter.column], filter.value) > 0;
+        case 'gte': return row[filter.column] != null && compare(row[filter.column], filter.value) >= 0;
+        case 'lt': return row[filter.column] != null && compare(row[filter.column], filter.value) < 0;
+        case 'lte': return row[filter.column] != null && compare(row[filter.column], filter.value) <= 0;
+        case 'in': return filter.value.some(value => row[filter.column] != null && compare(row[filter.column], value) === 0);
+        case 'isNull': return row[filter.column] == null;
+        case 'notNull': return row[filter.column] != null;
+        case 'search': {
+            const term = searchTerm(filter.term).toLowerCase();
+            return !term || filter.columns.some(col => String(row[col] ?? '').toLowerCase().includes(term));
+        }
+        case 'or': return filter.filters.some(f => matches(row, f));
+    }
+}
+
+const matchesAll = (row: Row, filters: Filter<Row>[] = []) => filters.every(filter => matches(row, filter));
+
+const keyOf = (row: Row, columns: string[], nullsEqual = false) =>
+    !nullsEqual && columns.some(col => row[col] == null)
+        ? null
+        : JSON.stringify(columns.map(col => String(row[col] ?? '')));
+
+/** Filters, sorts and pages rows the way the Supabase backend would. */
+export function runQuery<T>(rows: T[], query: Query<T> = {}): Page<T> {
+    const filters = query.filters as Filter<Row>[] | undefined;
+    const found = (rows as Row[]).filter(row => matchesAll(row, filters));
+    const order = query.order ?? [];
+    found.sort((a, b) => {
+        for (const { column, ascending = true } of order) {
+            const result = compare(a[column], b[column]);
+            if (result !== 0) return ascending ? result : -result;
+        }
+        return 0;
+    });
+
+    const offset = query.offset ?? 0;
+    const page = query.limit === undefined ? found.slice(offset) : found.slice(offset, offset + query.limit);
+    return { rows: page as T[], total: found.length };
+}
+
+type Store = Record<TableName, Row[]>;
+
+type Notify = (table: TableName, event: TableChange['event']) => void;
+
+function memoryTable<T>(name: TableName, store: Store, sequences: Record<TableName, number>, notify: Notify): Table<T> {
+    const schema = SCHEMAS[name];
+    const rows = store[name];
+    const copy = <R>(value: R): R => structuredClone(value);
+
+    const assertUnique = (row: Row, except?: Row) => {
+        [{ columns: schema.key }, ...schema.unique].forEach(({ columns, nullsEqual }) => {
+            const key = keyOf(row, columns, nullsEqual);
+            if (key !== null && rows.some(other => other !== except && other !== row && keyOf(other, columns, nullsEqual) === key)) {
+                throw new DataError('conflict', name, `Duplicate ${columns.join(', ')} in ${name}`);
+            }
+        });
+    };
+
+    const create = (input: Row): Row => {
+        const row: Row = { ...schema.defaults, ...input };
+        // Like an identity column, explicit ids do not move the sequence; see syncIdSequences
+        if (row.id == null && schema.id === 'serial') row.id = ++sequences[name];
+        if (row.id == null && schema.id === 'uuid') row.id = crypto.randomUUID();
+        row.created_at ??= new Date().toISOString();
+        assertUnique(row);
+        rows.push(row);
+        return row;
+    };
+
+    const requireFilters = (filters: Filter<Row>[]) => {
+        if (filters.length === 0) throw new DataError('invalid', name, `Refusing to modify every row of ${name} without a filter`);
+    };
+
+    return {
+        async select(query: Query<T> = {}): Promise<Page<T>> {
+            const page = runQuery(rows as T[], query);
+            return { rows: copy(page.rows), total: page.total };
+        },
+
+        async insert(input) {
+            // All or nothing, like a multi-row INSERT
+            const before = rows.length;
+            let created: Row[];
+            try {
+                created = (input as Row[]).map(create);
+            } catch (error) {
+                rows.length = before;
+                throw error;
+            }
+            if (created.length > 0) notify(name, 'insert');
+            return copy(created) as T[];
+        },
+
+        async update(filters, patch) {
+            requireFilters(filters as Filter<Row>[]);
+            const updated = rows.filter(row => matchesAll(row, filters as Filter<Row>[]));
+            updated.forEach(row => {
+                const next = { ...row, ...(patch as Row) };
+                assertUnique(next, row);
+                Object.assign(row, next);
+            });
+            if (updated.length > 0) notify(name, 'update');
+            return copy(updated) as T[];
+        },
+
+        async upsert(input, options: UpsertOptions<T> = {}) {
+            const columns = options.onConflict ?? schema.key;
+            const written: Row[] = [];
+            (input as Row[]).forEach(incoming => {
+                const key = keyOf(incoming, columns);
+                const existing = key === null ? undefined : rows.find(row => keyOf(row, columns) === key);
+                if (!existing) {
+                    written.push(create(incoming));
+                } else if (!options.ignoreDuplicates) {
+                    const next = { ...existing, ...incoming };
+                    assertUnique(next, existing);
+                    Object.assign(existing, next);
+                    written.push(existing);
+                }
+            });
+            if (written.length > 0) notify(name, 'update');
+            return copy(written) as T[];
+        },
+
+        async delete(filters) {
+            requireFilters(filters as Filter<Row>[]);
+            const removed = rows.filter(row => matchesAll(row, filters as Filter<Row>[]));
+            const ids = new Set(removed.map(row => String(row.id)));
+            rows.splice(0, rows.length, ...rows.filter(row => !removed.includes(row)));
+
+            schema.references?.forEach(ref => {
+                const referencing = store[ref.table];
+                if (ref.onDelete === 'cascade') {
+                    referencing.splice(0, referencing.length, ...referencing.filter(row => !ids.has(String(row[ref.column]))));
+                } else {
+                    referencing.forEach(row => {
+                        if (ids.has(String(row[ref.column]))) row[ref.column] = null;
+                    });
+                }
+                if (removed.length > 0) notify(ref.table, ref.onDelete === 'cascade' ? 'delete' : 'update');
+            });
+            if (removed.length > 0) notify(name, 'delete');
+        },
+    };
+}
+
+/**
+ * Backend that keeps every table in memory, for demo mode and for exercising
+ * pages and calculations without a Supabase project. Data lasts until reload.
+ */
+export function createMemoryBackend(seed: MemorySeed = {}): DataBackend {
+    const store = {} as Store;
+    const sequences = {} as Record<TableName, number>;
+    (Object.keys(SCHEMAS) as TableName[]).forEach(name => {
+        store[name] = [];
+        sequences[name] = 0;
+    });
+
+    const watchers = new Set<{ tables: TableName[]; onChange: (change: TableChange) => void }>();
+    const notify: Notify = (table, event) => {
+        watchers.forEach(watcher => {
+            if (watcher.tables.includes(table)) watcher.onChange({ table, event });
+        });
+    };
+
+    const tables = {} as Record<TableName, Table<unknown>>;
+    const backend: DataBackend = {
+        kind: 'memory',
+        table: <K extends TableName>(name: K) => {
+            tables[name] ??= memoryTable(name, store, sequences, notify);
+            return tables[name] as Table<TableRows[K]>;
+        },
+        async syncIdSequences() {
+            (Object.keys(store) as TableName[]).forEach(name => {
+                sequences[name] = store[name].reduce((max, row) => Math.max(max, Number(row.id) || 0), sequences[name]);
+            });
+        },
+        async renameAccount(from, to) {
+            // One transaction in Supabase: undo the tables already renamed if a later one fails
+            const before = RENAMED_COLUMNS.map(([name]) => store[name].map(row => ({ ...row })));
+            try {
+                for (const [name, column] of RENAMED_COLUMNS) {
+                    const table = backend.table(name) as unknown as Table<Row>;
+                    await table.update([{ op: 'eq', column, value: from }], { [column]: to });
+                }
+            } catch (error) {
+                RENAMED_COLUMNS.forEach(([name], i) => store[name].splice(0, store[name].length, ...before[i]));
+                throw error;
+            }
+        },
+        watch(watched, onChange) {
+            const watcher = { tables: watched, onChange };
+            watchers.add(watcher);
+            return () => {
+                watchers.delete(watcher);
+            };
+        },
+    };
+
+    (Object.keys(seed) as TableName[]).forEach(name => {
+        backend.table(name).insert(seed[name] as Partial<TableRows[typeof name]>[]);
+    });
+
+    return backend;
+}
@@ -0,0 +1,313 @@
+import { DataError } from './errors';
+import { runQuery } from './memoryBackend';
+import { createOfflineStore } from './offlineStore';
+import type { OfflineStore, QueuedWrite, Snapshot } from './offlineStore';
+import type { DataBackend, Filter, Page, Query, Table, TableChange, TableName, TableRows } from './backend';
+
+// Last full read of these tables is kept on the device for offline use
+const CACHED_TABLES: TableName[] = ['pantagon_assets', 'pantagon_usd', 'dime_transactions', 'pantagon_accounts'];
+// New rows for these are queued while offline and sent when the connection returns
+const QUEUED_TABLES: TableName[] = ['pantagon_assets', 'pantagon_usd', 'dime_transactions'];
+
+const OFFLINE_MESSAGE = 'You are offline. New entries are queued, but this change needs a connection.';
+
+export interface SyncStatus {
+    online: boolean;
+    syncing: boolean;
+    pending: number;           // queued inserts not sent yet
+    conflicts: QueuedWrite[];  // queued inserts the server rejected on replay
+    usingCache: boolean;       // the last read was answered from the device copy
+    lastSyncedAt: string | null;
+}
+
+export interface OfflineSync {
+    backend: DataBackend;
+    getStatus(): SyncStatus;
+    subscribe(listener: () => void): () => void;
+    setUser(userId: string | null): void; // cache and queue are kept per user
+    syncNow(): Promise<void>;
+    retry(id: number): Promise<void>;
+    discard(id: number): Promise<void>;
+}
+
+const isUnavailable = (error: unknown) => error instanceof DataError && error.code === 'unavailable';
+
+// Queued rows get temporary ids so lists can show (and delete) them before they are sent
+function pendingRows(write: QueuedWrite): Record<string, unknown>[] {
+    return write.rows.map((row, index) => ({
+        created_at: write.queuedAt,
+        ...row,
+        id: write.table === 'dime_transactions' ? `queued-${write.id}-${index}` : -((write.id ?? 0) * 1000 + index),
+    }));
+}
+
+/**
+ * Wraps the Supabase backend for the installed PWA: full reads of the main
+ * tables are mirrored to IndexedDB and answer queries while offline, and
+ * inserts made offline are queued and replayed in order once the backend is
+ * reachable again. Replays the server rejects are kept as conflicts for the
+ * user to retry or discard.
+ */
+export function createOfflineSync(inner: DataBackend): OfflineSync {
+    let status: SyncStatus = {
+        online: navigator.onLine,
+        syncing: false,
+        pending: 0,
+        conflicts: [],
+        usingCache: false,
+        lastSyncedAt: null,
+    };
+    const listeners = new Set<() => void>();
+    const setStatus = (patch: Partial<SyncStatus>) => {
+        status = { ...status, ...patch };
+        listeners.forEach(listener => listener());
+    };
+
+    // Queued changes never reach the inner backend, so report them here
+    const watchers = new Set<{ tables: TableName[]; onChange: (change: TableChange) => void }>();
+    const notify = (table: TableName, event: TableChange['event']) => {
+        watchers.forEach(watcher => {
+            if (watcher.tables.includes(table)) watcher.onChange({ table, event });
+        });
+    };
+
+    let userId: string | null = null;
+    let store: OfflineStore | null = null;
+    let queue: QueuedWrite[] = [];
+    const snapshots = new Map<TableName, Snapshot>();
+
+    const publishQueue = () => setStatus({
+        pending: queue.filter(write => !write.error).length,
+        conflicts: queue.filter(write => write.error),
+    });
+
+    const reachable = () => {
+        if (!status.online || status.usingCache) setStatus({ online: true, usingCache: false });
+        if (status.pending > 0) replay();
+    };
+    const unreachable = () => {
+        if (status.online) setStatus({ online: false });
+    };
+
+    // Runs a call that needs the network, tracking reachability on the way
+    const online = async <R,>(table: string, call: () => Promise<R>): Promise<R> => {
+        if (!navigator.onLine) throw new DataError('unavailable', table, OFFLINE_MESSAGE);
+        try {
+            const result = await call();
+            reachable();
+            return result;
+        } catch (error) {
+            if (isUnavailable(error)) unreachable();
+            throw error;
+        }
+    };
+
+    const saveSnapshot = (table: TableName, rows: object[]) => {
+        const snapshot = { table, rows, syncedAt: new Date().toISOString() };
+        snapshots.set(table, snapshot);
+        store?.putSnapshot(snapshot).catch(error => console.error('Error caching offline data:', error));
+    };
+
+    const readCached = async <T,>(table: TableName, query: Query<T>): Promise<Page<T>> => {
+        let snapshot = snapshots.get(table);
+        if (!snapshot && store) {
+            snapshot = await store.getSnapshot(table).catch(() => undefined);
+            if (snapshot) snapshots.set(table, snapshot);
+        }
+        if (!snapshot) {
+            throw new DataError('unavailable', table, 'You are offline and this data has not been loaded on this device yet.');
+        }
+
+        const queued = queue.filter(write => write.table === table && !write.error).flatMap(pendingRows);
+        setStatus({ usingCache: true });
+        return runQuery([...snapshot.rows, ...queued] as T[], query);
+    };
+
+    // Applies an update or delete to queued rows; true when any matched
+    const changePending = async (table: TableName, filters: Filter<unknown>[], change: (row: object) => object | null) => {
+        let matched = false;
+        for (const write of queue.filter(w => w.table === table && !w.error)) {
+            const candidates = pendingRows(write);
+            const hits = new Set(runQuery(candidates, { filters: filters as Filter<Record<string, unknown>>[] }).rows);
+            if (hits.size === 0) continue;
+
+            matched = true;
+            write.rows = write.rows.flatMap((row, index) => {
+                if (!hits.has(candidates[index])) return [row];
+                const next = change(row);
+                return next ? [next] : [];
+            });
+            if (write.rows.length === 0) {
+                queue = queue.filter(w => w !== write);
+                await store?.removeQueued(write.id as number);
+            } else {
+                await store?.updateQueued(write);
+            }
+        }
+        if (matched) publishQueue();
+        return matched;
+    };
+
+    async function replay() {
+        const current = store;
+        if (!current || status.syncing || !navigator.onLine) return;
+        const ready = queue.filter(write => !write.error);
+        if (ready.length === 0) return;
+
+        setStatus({ syncing: true });
+        for (const write of ready) {
+            if (store !== current) break; // signed out or switched user mid-replay
+            try {
+                await (inner.table(write.table) as unknown as Table<object>).insert(write.rows);
+                await current.removeQueued(write.id as number);
+                queue = queue.filter(w => w !== write);
+            } catch (error) {
+                if (isUnavailable(error)) {
+                    unreachable();
+                    break;
+                }
+                write.error = (error as Error).message;
+                await current.updateQueued(write).catch(err => console.error('Error saving sync conflict:', err));
+            }
+            publishQueue();
+        }
+        setStatus({ syncing: false, lastSyncedAt: new Date().toISOString() });
+    }
+
+    function offlineTable<T>(name: TableName): Table<T> {
+        const table = () => inner.table(name) as unknown as Table<T>;
+        const cached = CACHED_TABLES.includes(name);
+
+        return {
+            async select(query: Query<T> = {}) {
+                if (!cached || !store) return online(name, () => table().select(query));
+                if (navigator.onLine) {
+                    try {
+                        const page = await online(name, () => table().select(query));
+                        // An unfiltered, unpaged read is the whole table: keep it for offline use
+                        if (!query.filters?.length && query.limit === undefined && !query.offset) {
+                            saveSnapshot(name, page.rows as object[]);
+                        }
+                        return page;
+                    } catch (error) {
+                        if (!isUnavailable(error)) throw error;
+                    }
+                }
+                return readCached(name, query);
+            },
+
+            async insert(rows) {
+                if (!QUEUED_TABLES.includes(name) || !store) return online(name, () => table().insert(rows));
+                if (navigator.onLine) {
+                    try {
+                        return await online(name, () => table().insert(rows));
+                    } catch (error) {
+                        if (!isUnavailable(error)) throw error;
+                    }
+                }
+
+                let write: QueuedWrite;
+                try {
+                    write = await store.enqueue({ table: name, rows, queuedAt: new Date().toISOString(), error: null });
+                } catch (error) {
+                    console.error('Error queueing offline write:', error);
+                    throw new DataError('unavailable', name, 'You are offline and this device cannot store the entry.');
+                }
+                queue.push(write);
+                publishQueue();
+                notify(name, 'insert');
+                return pendingRows(write) as T[];
+            },
+
+            async update(filters, patch) {
+                const queued = await changePending(name, filters as Filter<unknown>[], row => ({ ...row, ...patch }));
+                if (queued) notify(name, 'update');
+                if (queued && !navigator.onLine) return [];
+                return online(name, () => table().update(filters, patch));
+            },
+
+            upsert: (rows, options) => online(name, () => table().upsert(rows, options)),
+
+            async delete(filters) {
+                const queued = await changePending(name, filters as Filter<unknown>[], () => null);
+                if (queued) notify(name, 'delete');
+                if (queued && !navigator.onLine) return;
+                return online(name, () => table().delete(filters));
+            },
+        };
+    }
+
+    window.addEventListener('online', () => {
+        setStatus({ online: true });
+        replay();
+    });
+    window.addEventListener('offline', () => setStatus({ online: false }));
+
+    const tables = new Map<TableName, Table<unknown>>();
+
+    return {
+        backend: {
+            kind: inner.kind,
+            table: <K extends TableName>(name: K) => {
+                if (!tables.has(name)) tables.set(name, offlineTable(name));
+                return tables.get(name) as Table<TableRows[K]>;
+            },
+            syncIdSequences: () => online('pantagon_sync_id_sequences', () => inner.syncIdSequences()),
+            renameAccount: (from, to) => online('pantagon_rename_account', () => inner.renameAccount(from, to)),
+            watch(watched, onChange) {
+                const watcher = { tables: watched, onChange };
+                watchers.add(watcher);
+                const unwatch = inner.watch(watched, onChange);
+                return () => {
+                    watchers.delete(watcher);
+                    unwatch();
+                };
+            },
+        },
+
+        getStatus: () => status,
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+
+        setUser(nextUserId) {
+            if (nextUserId === userId) return;
+            userId = nextUserId;
+            snapshots.clear();
+            queue = [];
+            const next = nextUserId ? createOfflineStore(nextUserId) : null;
+            store = next;
+            publishQueue();
+            setStatus({ usingCache: false, lastSyncedAt: null });
+
+            next?.listQueue()
+                .then(writes => {
+                    if (store !== next) return;
+                    queue = writes;
+                    publishQueue();
+                    replay();
+                })
+                .catch(error => console.error('Error reading offline queue:', error));
+        },
+
+        syncNow: replay,
+
+        async retry(id) {
+            const write = queue.find(w => w.id === id);
+            if (!write || !store) return;
+            write.error = null;
+            await store.updateQueued(write);
+            publishQueue();
+            await replay();
+        },
+
+        async discard(id) {
+            if (!store) return;
+            await store.removeQueued(id);
+            queue = queue.filter(w => w.id !== id);
+            publishQueue();
+        },
+    };
+}
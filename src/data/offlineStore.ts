@@ -0,0 +1,76 @@
+import type { TableName } from './backend';
+
+// IndexedDB persistence for offline mode: the last full read of each cached
+// table, and inserts waiting to be sent. One database per signed-in user.
+
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const QUEUE = 'queue';
+
+export interface Snapshot {
+    table: TableName;
+    rows: object[];
+    syncedAt: string; // ISO timestamp of the read
+}
+
+export interface QueuedWrite {
+    id?: number;          // assigned by IndexedDB
+    table: TableName;
+    rows: object[];       // inserted together, as one request
+    queuedAt: string;
+    error: string | null; // set when the server rejected the replay
+}
+
+export interface OfflineStore {
+    getSnapshot(table: TableName): Promise<Snapshot | undefined>;
+    putSnapshot(snapshot: Snapshot): Promise<void>;
+    listQueue(): Promise<QueuedWrite[]>;
+    enqueue(write: QueuedWrite): Promise<QueuedWrite>;
+    updateQueued(write: QueuedWrite): Promise<void>;
+    removeQueued(id: number): Promise<void>;
+}
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+    const req = indexedDB.open(name, DB_VERSION);
+    req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: 'table' });
+        if (!db.objectStoreNames.contains(QUEUE)) db.createObjectStore(QUEUE, { keyPath: 'id', autoIncrement: true });
+    };
+    return request(req);
+}
+
+export function createOfflineStore(userId: string): OfflineStore {
+    const db = openDatabase(`pantagon-offline-${userId}`);
+
+    const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+        const store = (await db).transaction(storeName, mode).objectStore(storeName);
+        return request(action(store));
+    };
+
+    return {
+        getSnapshot: table => run(SNAPSHOTS, 'readonly', store => store.get(table) as IDBRequest<Snapshot | undefined>),
+        putSnapshot: async snapshot => {
+            await run(SNAPSHOTS, 'readwrite', store => store.put(snapshot));
+        },
+        listQueue: async () => {
+            const writes = await run(QUEUE, 'readonly', store => store.getAll() as IDBRequest<QueuedWrite[]>);
+            return writes.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+        },
+        enqueue: async write => {
+            const id = await run(QUEUE, 'readwrite', store => store.add(write));
+            return { ...write, id: Number(id) };
+        },
+        updateQueued: async write => {
+            await run(QUEUE, 'readwrite', store => store.put(write));
+        },
+        removeQueued: async id => {
+            await run(QUEUE, 'readwrite', store => store.delete(id));
+        },
+    };
+}
@@ -0,0 +1,68 @@
+import { accountsRepository } from './accountsRepository';
+import { assetsRepository } from './assetsRepository';
+import type { Page } from './backend';
+import { dimeRepository } from './dimeRepository';
+import { fxRepository } from './fxRepository';
+import { extendQuery } from './queryCache';
+import type { QueryDef } from './queryCache';
+import type { TransactionFilters } from '../lib/transactionFilters';
+import { groupTransferLegs } from '../lib/transfers';
+import type { TransferLegs } from '../lib/transfers';
+import type { DimeTransaction, PantagonAccount, PantagonAsset, PantagonUSD } from '../types';
+
+// Reads shared through the query cache. Pages that need the same data use
+// the same definition, so the second one renders from cache.
+
+export const assetsQuery: QueryDef<PantagonAsset[]> = {
+    key: 'assets',
+    tables: ['pantagon_assets'],
+    fetch: () => assetsRepository.list(),
+};
+
+export const accountsQuery: QueryDef<PantagonAccount[]> = {
+    key: 'accounts',
+    tables: ['pantagon_accounts'],
+    fetch: () => accountsRepository.list(),
+};
+
+export const fxQuery: QueryDef<PantagonUSD[]> = {
+    key: 'fx',
+    tables: ['pantagon_usd'],
+    fetch: () => fxRepository.list(),
+};
+
+export const dimeQuery: QueryDef<DimeTransaction[]> = {
+    key: 'dime',
+    tables: ['dime_transactions'],
+    fetch: () => dimeRepository.list(),
+};
+
+export const TRANSACTIONS_PAGE_SIZE = 50;
+
+/**
+ * The Transactions list for one set of filters, one page at first and grown
+ * by loadMoreTransactions. A refetch re-reads as many rows as were loaded.
+ */
+export const transactionsPageQuery = (filters: TransactionFilters): QueryDef<Page<PantagonAsset>> => ({
+    key: `assets:page:${JSON.stringify(filters)}`,
+    tables: ['pantagon_assets'],
+    fetch: previous => assetsRepository.page(filters, 0, Math.max(TRANSACTIONS_PAGE_SIZE, previous?.rows.length ?? 0)),
+    family: 'assets:page',
+});
+
+/** Appends the next page to the cached list; only the new rows are fetched. */
+export const loadMoreTransactions = (filters: TransactionFilters): Promise<void> =>
+    extendQuery(transactionsPageQuery(filters), async page => {
+        const next = await assetsRepository.page(filters, page.rows.length, TRANSACTIONS_PAGE_SIZE);
+        return { rows: [...page.rows, ...next.rows], total: next.total };
+    });
+
+/** Both legs of each transfer, keyed by transfer id. */
+export const transferLegsQuery = (transferIds: string[]): QueryDef<Record<string, TransferLegs>> => ({
+    key: `assets:legs:${transferIds.join(',')}`,
+    tables: ['pantagon_assets'],
+    fetch: async () => transferIds.length === 0
+        ? {}
+        : groupTransferLegs(await assetsRepository.list({ transferIds })),
+    family: 'assets:legs',
+});
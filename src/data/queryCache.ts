@@ -0,0 +1,219 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getBackend } from './backend';
+import type { TableName } from './backend';
+
+// App-wide cache of read results, shared by every page. Cached data is shown
+// at once and refetched in the background when older than STALE_MS
+// (stale-while-revalidate). Any write to a table, from this device or another,
+// marks the queries that read it stale.
+
+const STALE_MS = 30_000;
+// Unwatched entries beyond this are dropped, oldest first
+const MAX_ENTRIES = 30;
+// A transfer's two legs or a restore arrive as several changes; refetch once
+const SETTLE_MS = 100;
+
+export interface QueryDef<T> {
+    key: string;           // identifies the result, e.g. 'assets' or 'assets:page:<filters>'
+    tables: TableName[];   // writes to any of these invalidate it
+    // Gets the result shown so far, so a refetch can cover as much as was loaded
+    fetch(previous: T | undefined): Promise<T>;
+    // Queries in one family (e.g. pages of the same list) stand in for each other while loading
+    family?: string;
+}
+
+export interface QueryState<T> {
+    data: T | undefined;
+    error: Error | null;
+    loading: boolean;      // nothing to show yet
+    refreshing: boolean;   // refetching behind data already shown
+    placeholder: boolean;  // data is the family's last result, not this query's
+}
+
+interface Entry<T> {
+    query: QueryDef<T>;
+    state: QueryState<T>;
+    fetchedAt: number;
+    startedAt: number;     // when the latest fetch began
+    inFlight: Promise<void> | null;
+    dirty: boolean;        // invalidated while a fetch was running
+    listeners: Set<() => void>;
+    subscribe: (listener: () => void) => () => void;
+}
+
+const ALL_TABLES: TableName[] = [
+    'pantagon_assets',
+    'pantagon_usd',
+    'dime_transactions',
+    'pantagon_accounts',
+    'pantagon_recurring',
+    'pantagon_recurring_skips',
+    'pantagon_budgets',
+];
+
+const entries = new Map<string, Entry<unknown>>();
+const familyData = new Map<string, unknown>();
+let connected = false;
+const pendingTables = new Set<TableName>();
+let pendingSince = 0;
+let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+function setState<T>(entry: Entry<T>, patch: Partial<QueryState<T>>) {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+}
+
+function revalidate<T>(entry: Entry<T>): Promise<void> {
+    if (entry.inFlight) {
+        entry.dirty = true;
+        return entry.inFlight;
+    }
+
+    setState(entry, { refreshing: entry.state.data !== undefined });
+    entry.startedAt = Date.now();
+    entry.inFlight = entry.query.fetch(entry.state.data)
+        .then(data => {
+            entry.fetchedAt = Date.now();
+            if (entry.query.family) familyData.set(entry.query.family, data);
+            setState(entry, { data, error: null, loading: false, refreshing: false });
+        })
+        .catch(error => {
+            console.error(`Error fetching ${entry.query.key}:`, error);
+            setState(entry, { error: error as Error, loading: false, refreshing: false });
+        })
+        .finally(() => {
+            entry.inFlight = null;
+            if (entry.dirty) {
+                entry.dirty = false;
+                revalidate(entry);
+            }
+        });
+    return entry.inFlight;
+}
+
+// Subscribes to the backend once, on first use (the backend is set in main.tsx)
+function connect() {
+    if (connected) return;
+    connected = true;
+    getBackend().watch(ALL_TABLES, ({ table }) => {
+        if (pendingTables.size === 0) pendingSince = Date.now();
+        pendingTables.add(table);
+        clearTimeout(settleTimer);
+        settleTimer = setTimeout(() => {
+            invalidateSince([...pendingTables], pendingSince);
+            pendingTables.clear();
+        }, SETTLE_MS);
+    });
+}
+
+function evict() {
+    for (const [key, entry] of entries) {
+        if (entries.size <= MAX_ENTRIES) return;
+        if (entry.listeners.size === 0 && !entry.inFlight) entries.delete(key);
+    }
+}
+
+function entryFor<T>(query: QueryDef<T>): Entry<T> {
+    connect();
+    let entry = entries.get(query.key) as Entry<T> | undefined;
+    if (!entry) {
+        const listeners = new Set<() => void>();
+        entry = {
+            query,
+            state: { data: undefined, error: null, loading: true, refreshing: false, placeholder: false },
+            fetchedAt: 0,
+            startedAt: 0,
+            inFlight: null,
+            dirty: false,
+            listeners,
+            subscribe: listener => {
+                listeners.add(listener);
+                return () => listeners.delete(listener);
+            },
+        };
+        entries.set(query.key, entry as Entry<unknown>);
+        evict();
+    }
+    entry.query = query; // keep the latest fetcher closure
+    return entry;
+}
+
+const isStale = (entry: Entry<unknown>) => Date.now() - entry.fetchedAt > STALE_MS;
+
+/** Reads a query through the cache; re-renders when its result changes. */
+export function useQuery<T>(query: QueryDef<T>): QueryState<T> {
+    const entry = entryFor(query);
+    const state = useSyncExternalStore(entry.subscribe, () => entry.state);
+
+    useEffect(() => {
+        if (isStale(entry as Entry<unknown>)) revalidate(entry);
+    }, [entry]);
+
+    const family = query.family;
+    if (state.loading && family && familyData.has(family)) {
+        return { ...state, data: familyData.get(family) as T, loading: false, refreshing: true, placeholder: true };
+    }
+    return state;
+}
+
+/** Warms the cache ahead of navigation; a no-op while the cached result is fresh. */
+export function prefetch<T>(query: QueryDef<T>): Promise<void> {
+    const entry = entryFor(query);
+    return isStale(entry as Entry<unknown>) ? revalidate(entry) : Promise.resolve();
+}
+
+// Entries whose fetch began after `since` already include the change
+function invalidateSince(tables: TableName[], since: number): Promise<void> {
+    const refetches: Promise<void>[] = [];
+    entries.forEach((entry, key) => {
+        if (!entry.query.tables.some(table => tables.includes(table))) return;
+        if (entry.startedAt > since) return;
+        entry.fetchedAt = 0;
+        if (entry.listeners.size > 0) refetches.push(revalidate(entry));
+        else if (entry.state.data === undefined && !entry.inFlight) entries.delete(key);
+    });
+    return Promise.all(refetches).then(() => undefined);
+}
+
+/**
+ * Marks every query reading the tables stale; the ones on screen refetch now,
+ * the rest when next used. Resolves once the on-screen ones are refreshed.
+ */
+export function invalidate(...tables: TableName[]): Promise<void> {
+    return invalidateSince(tables, Date.now());
+}
+
+/**
+ * Grows a cached result in place, e.g. appends the next page of a list. A
+ * refetch asked for meanwhile waits and then re-reads the grown result.
+ */
+export function extendQuery<T>(query: QueryDef<T>, extend: (data: T) => Promise<T>): Promise<void> {
+    const entry = entryFor(query);
+    const current = entry.state.data;
+    if (entry.inFlight) return entry.inFlight;
+    if (current === undefined) return Promise.resolve();
+
+    entry.inFlight = extend(current)
+        .then(data => {
+            if (entry.query.family) familyData.set(entry.query.family, data);
+            setState(entry, { data, error: null });
+        })
+        .catch(error => {
+            console.error(`Error extending ${entry.query.key}:`, error);
+            setState(entry, { error: error as Error });
+        })
+        .finally(() => {
+            entry.inFlight = null;
+            if (entry.dirty) {
+                entry.dirty = false;
+                revalidate(entry);
+            }
+        });
+    return entry.inFlight;
+}
+
+/** Forgets everything, e.g. when another member signs in. */
+export function clearQueryCache() {
+    entries.clear();
+    familyData.clear();
+}
@@ -0,0 +1,39 @@
+import { getBackend } from './backend';
+import type { PantagonRecurring, PantagonRecurringSkip } from '../types';
+
+export type NewRecurring = Omit<PantagonRecurring, 'id' | 'created_at' | 'active'> & Partial<Pick<PantagonRecurring, 'active'>>;
+
+const table = () => getBackend().table('pantagon_recurring');
+const skips = () => getBackend().table('pantagon_recurring_skips');
+
+export const recurringRepository = {
+    /** Templates by name. */
+    async list(): Promise<PantagonRecurring[]> {
+        const { rows } = await table().select({ order: [{ column: 'name' }] });
+        return rows;
+    },
+
+    async insert(template: NewRecurring): Promise<PantagonRecurring> {
+        const [row] = await table().insert([template]);
+        return row;
+    },
+
+    async update(id: number, patch: Partial<NewRecurring>): Promise<void> {
+        await table().update([{ op: 'eq', column: 'id', value: id }], patch);
+    },
+
+    // Its skips go with it; rows already posted stay in the ledger, unlinked
+    remove(id: number): Promise<void> {
+        return table().delete([{ op: 'eq', column: 'id', value: id }]);
+    },
+
+    async listSkips(): Promise<PantagonRecurringSkip[]> {
+        const { rows } = await skips().select();
+        return rows;
+    },
+
+    // Skipping an occurrence twice is a no-op
+    async skip(items: Omit<PantagonRecurringSkip, 'created_at'>[]): Promise<void> {
+        await skips().upsert(items, { onConflict: ['recurring_id', 'occurrence_date'], ignoreDuplicates: true });
+    },
+};
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { accountsRepository } from './accountsRepository';
+import { assetsRepository } from './assetsRepository';
+import { getBackend, setBackend } from './backend';
+import { budgetsRepository } from './budgetsRepository';
+import { createMemoryBackend } from './memoryBackend';
+import { recurringRepository } from './recurringRepository';
+import { EMPTY_FILTERS } from '../lib/transactionFilters';
+import type { PantagonAsset } from '../types';
+
+const row = (id: number, patch: Partial<PantagonAsset> = {}): Partial<PantagonAsset> => ({
+    id, account_name: 'KBank', type: 'OUT', amount: 100, currency: 'THB', date: `2026-03-${String(id).padStart(2, '0')}`,
+    note: null, tag: null, ...patch,
+});
+
+beforeEach(async () => {
+    setBackend(createMemoryBackend({
+        pantagon_accounts: [
+            { id: 1, name: 'KBank', sort_order: 2 },
+            { id: 2, name: 'SCB', sort_order: 1 },
+        ],
+        pantagon_assets: [
+            row(1, { type: 'IN', amount: 50000, note: 'Salary', tag: 'Income' }),
+            row(2, { amount: 120, note: 'Lunch', tag: 'Food' }),
+            row(3, { amount: 80, note: 'Coffee' }),
+            // A transfer: both legs share transfer_id
+            row(4, { amount: 1000, transfer_id: 't1' }),
+            row(5, { account_name: 'SCB', type: 'IN', amount: 1000, transfer_id: 't1', date: '2026-03-04' }),
+        ],
+        pantagon_recurring: [{ id: 7, name: 'Salary', account_name: 'KBank', type: 'IN', amount: 50000, start_date: '2026-01-25' }],
+        pantagon_budgets: [{ id: 1, tag: 'Food', account_name: 'KBank', amount: 5000, start_month: '2026-01-01' }],
+    }));
+    // Seeded ids do not move the id sequences, as after a restore
+    await getBackend().syncIdSequences();
+});
+
+describe('assetsRepository', () => {
+    const ids = (rows: PantagonAsset[]) => rows.map(r => r.id);
+
+    it('pages newest first and shows a transfer once, as its OUT leg', async () => {
+        const page = await assetsRepository.page(EMPTY_FILTERS, 0, 2);
+        expect(page.total).toBe(4);
+        expect(ids(page.rows)).toEqual([4, 3]);
+        expect(ids((await assetsRepository.page(EMPTY_FILTERS, 2, 2)).rows)).toEqual([2, 1]);
+    });
+
+    it('shows both transfer legs when filtered to an account', async () => {
+        expect(ids((await assetsRepository.page({ ...EMPTY_FILTERS, account: 'SCB' }, 0, 10)).rows)).toEqual([5]);
+    });
+
+    it('filters by type, untagged rows, search text and amount', async () => {
+        const page = (patch: Partial<typeof EMPTY_FILTERS>) => assetsRepository.page({ ...EMPTY_FILTERS, ...patch }, 0, 10);
+        expect(ids((await page({ type: 'OUT' })).rows)).toEqual([3, 2]);
+        expect(ids((await page({ tag: 'Untagged' })).rows)).toEqual([4, 3]);
+        expect(ids((await page({ q: 'food' })).rows)).toEqual([2]);
+        expect(ids((await page({ min: '100', max: '1000' })).rows)).toEqual([4, 2]);
+    });
+
+    it('ignores amount bounds that are not numbers', async () => {
+        const page = await assetsRepository.page({ ...EMPTY_FILTERS, min: 'abc', max: '1e400' }, 0, 10);
+        expect(page.total).toBe(4);
+    });
+
+    it('posts a recurring occurrence only once', async () => {
+        const occurrence = {
+            account_name: 'KBank', type: 'IN' as const, amount: 50000, currency: 'THB', date: '2026-03-25',
+            note: 'Salary', tag: 'Income', recurring_id: 7, recurring_date: '2026-03-25',
+        };
+        await assetsRepository.insertOccurrences([occurrence]);
+        await assetsRepository.insertOccurrences([occurrence]);
+        expect(await assetsRepository.list({ fromRecurring: true })).toHaveLength(1);
+    });
+
+    it('rejects a missing id with a not_found DataError', async () => {
+        await expect(assetsRepository.get(99)).rejects.toMatchObject({ name: 'DataError', code: 'not_found' });
+    });
+});
+
+describe('accountsRepository', () => {
+    it('lists the registry in display order', async () => {
+        expect((await accountsRepository.list()).map(a => a.name)).toEqual(['SCB', 'KBank']);
+    });
+
+    it('renames an account with its ledger rows, templates and budgets', async () => {
+        await accountsRepository.rename('KBank', 'K Bank');
+        expect((await accountsRepository.list()).map(a => a.name)).toEqual(['SCB', 'K Bank']);
+        expect(await assetsRepository.list({ account: 'KBank' })).toEqual([]);
+        expect(await assetsRepository.list({ account: 'K Bank' })).toHaveLength(4);
+        expect((await recurringRepository.list())[0].account_name).toBe('K Bank');
+        expect((await budgetsRepository.list())[0].account_name).toBe('K Bank');
+    });
+
+    it('leaves everything as it was when a rename fails part way', async () => {
+        // Clashes with an existing budget only once the ledger is already renamed
+        await budgetsRepository.insert({ tag: 'Food', account_name: 'Cash', amount: 1, currency: 'THB', carry_over: false, start_month: '2026-01-01' });
+        await expect(accountsRepository.rename('KBank', 'Cash')).rejects.toMatchObject({ code: 'conflict' });
+
+        expect((await accountsRepository.list()).map(a => a.name)).toEqual(['SCB', 'KBank']);
+        expect(await assetsRepository.list({ account: 'KBank' })).toHaveLength(4);
+        expect((await recurringRepository.list())[0].account_name).toBe('KBank');
+        const { rows } = await getBackend().table('pantagon_budgets').select({ order: [{ column: 'id' }] });
+        expect(rows.map(b => b.account_name)).toEqual(['KBank', 'Cash']);
+    });
+});
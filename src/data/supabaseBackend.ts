@@ -0,0 +1,166 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toDataError } from './errors';
+import { searchTerm } from './backend';
+import type { DataBackend, Filter, Page, Query, Table, TableChange, TableName, TableRows, UpsertOptions } from './backend';
+
+// The subset of PostgREST's filter builder used here; select, update and
+// delete builders all provide it
+interface Filterable<Q> {
+    filter(column: string, operator: string, value: unknown): Q;
+    or(filters: string): Q;
+}
+
+// or() filters use commas, parentheses and quotes as syntax, so searchTerm
+// strips them (and LIKE wildcards) before building an ilike pattern
+function toIlikePattern(term: string): string {
+    const cleaned = searchTerm(term);
+    return cleaned ? `%${cleaned}%` : '';
+}
+
+const quote = (value: unknown) => `"${String(value).replace(/"/g, '')}"`;
+
+// One filter in or() syntax, e.g. `transfer_id.is.null` or `type.eq."OUT"`
+function toCondition<T>(filter: Filter<T>): string {
+    switch (filter.op) {
+        case 'isNull':
+            return `${filter.column}.is.null`;
+        case 'notNull':
+            return `${filter.column}.not.is.null`;
+        case 'in':
+            return `${filter.column}.in.(${filter.value.map(quote).join(',')})`;
+        case 'search': {
+            const pattern = toIlikePattern(filter.term);
+            return filter.columns.map(col => `${col}.ilike.${quote(pattern)}`).join(',');
+        }
+        case 'or':
+            return `or(${filter.filters.map(toCondition).join(',')})`;
+        default:
+            return `${filter.column}.${filter.op}.${quote(filter.value)}`;
+    }
+}
+
+function applyFilters<T, Q extends Filterable<Q>>(query: Q, filters: Filter<T>[] = []): Q {
+    return filters.reduce((q, filter) => {
+        switch (filter.op) {
+            case 'isNull':
+                return q.filter(filter.column, 'is', null);
+            case 'notNull':
+                return q.filter(filter.column, 'not.is', null);
+            case 'in':
+                return q.filter(filter.column, 'in', `(${filter.value.map(quote).join(',')})`);
+            case 'search':
+                return toIlikePattern(filter.term) ? q.or(toCondition(filter)) : q;
+            case 'or':
+                return q.or(filter.filters.map(toCondition).join(','));
+            default:
+                return q.filter(filter.column, filter.op, filter.value);
+        }
+    }, query);
+}
+
+type Notify = (table: TableName, event: TableChange['event']) => void;
+
+function supabaseTable<T>(client: SupabaseClient, name: TableName, notify: Notify): Table<T> {
+    return {
+        async select(query: Query<T> = {}): Promise<Page<T>> {
+            const paged = query.limit !== undefined;
+            let request = applyFilters(
+                client.from(name).select('*', paged ? { count: 'exact' } : undefined),
+                query.filters
+            );
+            query.order?.forEach(({ column, ascending = true }) => {
+                request = request.order(column, { ascending });
+            });
+            if (paged) {
+                const offset = query.offset ?? 0;
+                request = request.range(offset, offset + (query.limit ?? 0) - 1);
+            }
+
+            const { data, error, count } = await request;
+            if (error) throw toDataError(name, error);
+            const rows = (data as T[]) || [];
+            return { rows, total: count ?? rows.length };
+        },
+
+        async insert(rows) {
+            const { data, error } = await client.from(name).insert(rows as Record<string, unknown>[]).select();
+            if (error) throw toDataError(name, error);
+            notify(name, 'insert');
+            return (data as T[]) || [];
+        },
+
+        async update(filters, patch) {
+            const { data, error } = await applyFilters(client.from(name).update(patch as Record<string, unknown>), filters).select();
+            if (error) throw toDataError(name, error);
+            notify(name, 'update');
+            return (data as T[]) || [];
+        },
+
+        async upsert(rows, options: UpsertOptions<T> = {}) {
+            const { data, error } = await client
+                .from(name)
+                .upsert(rows as Record<string, unknown>[], {
+                    onConflict: options.onConflict?.join(','),
+                    ignoreDuplicates: options.ignoreDuplicates,
+                })
+                .select();
+            if (error) throw toDataError(name, error);
+            notify(name, 'update');
+            return (data as T[]) || [];
+        },
+
+        async delete(filters) {
+            const { error } = await applyFilters(client.from(name).delete(), filters);
+            if (error) throw toDataError(name, error);
+            notify(name, 'delete');
+        },
+    };
+}
+
+// Each watch() gets its own channel; topics must be unique per client
+let channelCount = 0;
+
+export function createSupabaseBackend(client: SupabaseClient): DataBackend {
+    // Writes made through this backend are reported straight away rather than
+    // waiting for (or depending on) the realtime echo
+    const watchers = new Set<{ tables: TableName[]; onChange: (change: TableChange) => void }>();
+    const notify: Notify = (table, event) => {
+        watchers.forEach(watcher => {
+            if (watcher.tables.includes(table)) watcher.onChange({ table, event });
+        });
+    };
+
+    return {
+        kind: 'supabase',
+        table: <K extends TableName>(name: K) => supabaseTable<TableRows[K]>(client, name, notify),
+        async syncIdSequences() {
+            // See 20261018140000_add_sync_id_sequences.sql
+            const { error } = await client.rpc('pantagon_sync_id_sequences');
+            if (error) throw toDataError('pantagon_sync_id_sequences', error);
+        },
+        async renameAccount(from, to) {
+            // See 20261018170000_add_rename_account.sql
+            const { error } = await client.rpc('pantagon_rename_account', { from_name: from, to_name: to });
+            if (error) throw toDataError('pantagon_rename_account', error);
+            (['pantagon_accounts', 'pantagon_assets', 'pantagon_recurring', 'pantagon_budgets'] as const)
+                .forEach(table => notify(table, 'update'));
+        },
+        watch(tables, onChange) {
+            const watcher = { tables, onChange };
+            watchers.add(watcher);
+
+            // Needs the tables in the supabase_realtime publication; see 20261018160000_enable_realtime.sql
+            const channel = client.channel(`pantagon-changes-${++channelCount}`);
+            tables.forEach(table => {
+                channel.on('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+                    onChange({ table, event: payload.eventType.toLowerCase() as TableChange['event'] });
+                });
+            });
+            channel.subscribe();
+            return () => {
+                watchers.delete(watcher);
+                client.removeChannel(channel);
+            };
+        },
+    };
+}
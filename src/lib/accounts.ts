@@ -0,0 +1,44 @@
+import { accountsRepository } from '../data/accountsRepository';
+import type { PantagonAccount } from '../types';
+
+// Logos shipped in /public that can be assigned to an account
+export const ACCOUNT_ICONS = [
+    { label: 'SCB', value: '/scb.jpg' },
+    { label: 'KBank', value: '/kbank.png' },
+    { label: 'ttb', value: '/ttb.png' },
+    { label: 'Dime', value: '/Dime.png' },
+    { label: 'SSO', value: '/SSO.jpg' },
+];
+
+export const ACCOUNT_CATEGORIES = [
+    'Bank',
+    'Savings',
+    'Emergency Fund',
+    'Investment',
+    'Foreign Currency',
+    'Retirement',
+    'Spending',
+];
+
+export async function fetchAccounts(): Promise<PantagonAccount[]> {
+    try {
+        return await accountsRepository.list();
+    } catch (error) {
+        console.error('Error fetching accounts:', error);
+        return [];
+    }
+}
+
+export function findAccount(accounts: PantagonAccount[], name: string): PantagonAccount | undefined {
+    return accounts.find(acc => acc.name === name);
+}
+
+export function getAccountIcon(accounts: PantagonAccount[], name: string): string | undefined {
+    return findAccount(accounts, name)?.icon || undefined;
+}
+
+// Sort position of an account name; names missing from the registry go last
+export function getAccountRank(accounts: PantagonAccount[], name: string): number {
+    const account = findAccount(accounts, name);
+    return account ? account.sort_order : Number.MAX_SAFE_INTEGER;
+}
@@ -0,0 +1,268 @@
+import { getBackend } from '../data/backend';
+import type { Table } from '../data/backend';
+import type { DimeTransaction, PantagonAsset, PantagonUSD } from '../types';
+
+// Bumped whenever a backed-up table changes shape; restore refuses other versions.
+// 2: rows no longer carry user_id, so a bundle restores under any member.
+export const BACKUP_SCHEMA_VERSION = 2;
+
+// Version 1 differs only in carrying user_id, which restore drops anyway
+const READABLE_VERSIONS = [1, BACKUP_SCHEMA_VERSION];
+
+// Set by the database from the signed-in member (default auth.uid()); a
+// restored row must not bring its own, or RLS rejects it for anyone else
+const OWNER_COLUMN = 'user_id';
+
+function withoutOwner<T extends object>(row: T): T {
+    if (!(OWNER_COLUMN in row)) return row;
+    const rest = { ...row } as Record<string, unknown>;
+    delete rest[OWNER_COLUMN];
+    return rest as T;
+}
+
+export const BACKUP_TABLES = ['pantagon_assets', 'pantagon_usd', 'dime_transactions'] as const;
+export type BackupTable = typeof BACKUP_TABLES[number];
+
+export interface BackupTables {
+    pantagon_assets: PantagonAsset[];
+    pantagon_usd: PantagonUSD[];
+    dime_transactions: DimeTransaction[];
+}
+
+export interface BackupBundle {
+    schema_version: number;
+    exported_at: string; // ISO timestamp
+    tables: BackupTables;
+}
+
+type BackupRow = BackupTables[BackupTable][number];
+
+// Columns every row of a table must carry to be restorable
+const REQUIRED_COLUMNS: Record<BackupTable, string[]> = {
+    pantagon_assets: ['id', 'account_name', 'type', 'amount', 'date'],
+    pantagon_usd: ['id', 'foreign_amount', 'thb_amount', 'exchange_rate', 'transaction_at'],
+    dime_transactions: ['id', 'side', 'transaction_date', 'total_amount'],
+};
+
+const PAGE_SIZE = 1000;
+const WRITE_CHUNK = 500;
+
+// PostgREST caps each response, so read tables a page at a time
+async function fetchAllRows<K extends BackupTable>(table: K): Promise<BackupTables[K]> {
+    const source = getBackend().table(table) as Table<BackupRow>;
+    const rows: BackupRow[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        let page: BackupRow[];
+        try {
+            ({ rows: page } = await source.select({
+                order: [{ column: 'id' }],
+                offset,
+                limit: PAGE_SIZE,
+            }));
+        } catch (error) {
+            throw new Error(`Reading ${table} failed: ${(error as Error).message}`);
+        }
+        rows.push(...page);
+        if (page.length < PAGE_SIZE) return rows as BackupTables[K];
+    }
+}
+
+export async function fetchBackupTables(): Promise<BackupTables> {
+    const [assets, usd, dime] = await Promise.all([
+        fetchAllRows('pantagon_assets'),
+        fetchAllRows('pantagon_usd'),
+        fetchAllRows('dime_transactions'),
+    ]);
+    return { pantagon_assets: assets, pantagon_usd: usd, dime_transactions: dime };
+}
+
+export async function buildBundle(): Promise<BackupBundle> {
+    const tables = await fetchBackupTables();
+    return {
+        schema_version: BACKUP_SCHEMA_VERSION,
+        exported_at: new Date().toISOString(),
+        tables: {
+            pantagon_assets: tables.pantagon_assets.map(withoutOwner),
+            pantagon_usd: tables.pantagon_usd.map(withoutOwner),
+            dime_transactions: tables.dime_transactions.map(withoutOwner),
+        },
+    };
+}
+
+export function toCsv(rows: object[]): string {
+    const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    const escape = (value: unknown) => {
+        if (value === null || value === undefined) return '';
+        const text = String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [
+        columns.join(','),
+        ...rows.map(row => columns.map(col => escape((row as Record<string, unknown>)[col])).join(',')),
+    ].join('\r\n');
+}
+
+/** Parses and validates a bundle; throws with a readable message when it is unusable. */
+export function parseBundle(text: string): BackupBundle {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('File is not valid JSON.');
+    }
+
+    const bundle = raw as Partial<BackupBundle>;
+    if (!bundle || typeof bundle !== 'object' || !bundle.tables) {
+        throw new Error('File is not a backup bundle.');
+    }
+    if (!READABLE_VERSIONS.includes(bundle.schema_version as number)) {
+        throw new Error(`Unsupported backup schema version ${String(bundle.schema_version)} (expected ${BACKUP_SCHEMA_VERSION}).`);
+    }
+
+    BACKUP_TABLES.forEach(table => {
+        const rows = (bundle.tables as Partial<BackupTables>)[table];
+        if (!Array.isArray(rows)) throw new Error(`Backup is missing the ${table} table.`);
+        rows.forEach((row, index) => {
+            const missing = REQUIRED_COLUMNS[table].filter(col => row?.[col as keyof typeof row] === undefined);
+            if (missing.length > 0) {
+                throw new Error(`${table} row ${index + 1} is missing ${missing.join(', ')}.`);
+            }
+        });
+    });
+
+    return bundle as BackupBundle;
+}
+
+export interface TableDiff<T> {
+    added: T[];                              // only in the backup
+    changed: { current: T; incoming: T }[];  // same record, edited since
+    conflicts: { current: T; incoming: T }[]; // same id, different record
+    removed: T[];                            // only in the database
+    unchanged: number;
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+    a === b || (a !== null && b !== null && a !== undefined && b !== undefined && String(a) === String(b));
+
+// Ownership is not part of a record, so a row restored under another member is unchanged
+const rowsEqual = (a: object, b: object) => {
+    const columns = new Set([...Object.keys(a), ...Object.keys(b)]);
+    columns.delete(OWNER_COLUMN);
+    return Array.from(columns).every(col =>
+        sameValue((a as Record<string, unknown>)[col], (b as Record<string, unknown>)[col]));
+};
+
+/**
+ * Compares backup rows with the database by id. A differing row whose
+ * created_at also differs is a conflict: the id now belongs to another record
+ * (e.g. rows re-added after the backup was taken), not an edit of the same one.
+ */
+export function diffTable<T extends { id: number | string; created_at?: string | null }>(current: T[], incoming: T[]): TableDiff<T> {
+    const byId = new Map(current.map(row => [String(row.id), row]));
+    const diff: TableDiff<T> = { added: [], changed: [], conflicts: [], removed: [], unchanged: 0 };
+
+    incoming.forEach(row => {
+        const existing = byId.get(String(row.id));
+        byId.delete(String(row.id));
+        if (!existing) {
+            diff.added.push(row);
+        } else if (rowsEqual(existing, row)) {
+            diff.unchanged++;
+        } else if (existing.created_at && row.created_at && !sameValue(existing.created_at, row.created_at)) {
+            diff.conflicts.push({ current: existing, incoming: row });
+        } else {
+            diff.changed.push({ current: existing, incoming: row });
+        }
+    });
+
+    diff.removed = Array.from(byId.values());
+    return diff;
+}
+
+export type BackupDiffs = { [K in BackupTable]: TableDiff<BackupTables[K][number]> };
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Recurring templates are not in the bundle, so a ledger row may point at one
+ * the target project does not have (e.g. a fresh project). Those rows are
+ * unlinked, as deleting the template would have done, rather than failing the
+ * foreign key; links to templates that exist are kept.
+ */
+async function unlinkMissingTemplates(rows: PantagonAsset[]): Promise<PantagonAsset[]> {
+    if (!rows.some(row => row.recurring_id != null)) return rows;
+    let templates: { id: number }[];
+    try {
+        ({ rows: templates } = await getBackend().table('pantagon_recurring').select());
+    } catch (error) {
+        throw new Error(`Reading pantagon_recurring failed: ${(error as Error).message}`);
+    }
+    const known = new Set(templates.map(template => String(template.id)));
+    return rows.map(row => row.recurring_id != null && !known.has(String(row.recurring_id))
+        ? { ...row, recurring_id: null }
+        : row);
+}
+
+/**
+ * Writes one table's diff. Merge adds new rows and applies edits; conflicts
+ * are only overwritten when `overwriteConflicts` is set. Replace does the same
+ * with conflicts always taken from the backup, then deletes rows the backup
+ * does not have. Rows are written before anything is deleted so a failed
+ * restore never leaves a table emptier than it was.
+ */
+export async function applyTableDiff(
+    table: BackupTable,
+    diff: TableDiff<BackupRow>,
+    mode: RestoreMode,
+    overwriteConflicts: boolean
+): Promise<{ written: number; deleted: number }> {
+    let writes = [
+        ...diff.added,
+        ...diff.changed.map(c => c.incoming),
+        ...(mode === 'replace' || overwriteConflicts ? diff.conflicts.map(c => c.incoming) : []),
+    ].map(withoutOwner);
+    if (table === 'pantagon_assets') writes = await unlinkMissingTemplates(writes as PantagonAsset[]);
+
+    const rows = getBackend().table(table) as Table<BackupRow>;
+    for (let i = 0; i < writes.length; i += WRITE_CHUNK) {
+        try {
+            await rows.upsert(writes.slice(i, i + WRITE_CHUNK));
+        } catch (error) {
+            throw new Error(`Writing ${table} failed: ${(error as Error).message}`);
+        }
+    }
+
+    let deleted = 0;
+    if (mode === 'replace') {
+        const ids = diff.removed.map(row => row.id);
+        for (let i = 0; i < ids.length; i += WRITE_CHUNK) {
+            const chunk = ids.slice(i, i + WRITE_CHUNK);
+            try {
+                await rows.delete([{ op: 'in', column: 'id', value: chunk }]);
+            } catch (error) {
+                throw new Error(`Deleting from ${table} failed: ${(error as Error).message}`);
+            }
+            deleted += chunk.length;
+        }
+    }
+
+    return { written: writes.length, deleted };
+}
+
+// Moves identity sequences past restored ids; see the matching migration
+export async function syncIdSequences() {
+    try {
+        await getBackend().syncIdSequences();
+    } catch (error) {
+        throw new Error(`Resetting id sequences failed: ${(error as Error).message}`);
+    }
+}
+
+export function downloadFile(fileName: string, content: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
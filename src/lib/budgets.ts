@@ -0,0 +1,89 @@
+import { budgetsRepository } from '../data/budgetsRepository';
+import type { PantagonAsset, PantagonBudget } from '../types';
+
+export interface BudgetStatus {
+    budget: PantagonBudget;
+    carried: number;   // balance rolled in from earlier months (negative when overspent)
+    available: number; // monthly amount + carried
+    spent: number;
+    remaining: number;
+    ratio: number;     // spent / available; Infinity when nothing is available
+}
+
+// 'YYYY-MM' for a zero-based month index, matching the date prefix of ledger rows
+export function monthKey(year: number, month: number): string {
+    return `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+export function budgetMatches(budget: PantagonBudget, row: PantagonAsset): boolean {
+    return row.type === 'OUT'
+        && !row.transfer_id
+        && (row.tag ?? '').trim() === budget.tag
+        && (!budget.account_name || row.account_name === budget.account_name);
+}
+
+/**
+ * Spending per 'YYYY-MM' for one budget. `convert` restates a row amount in
+ * the budget currency and returns null when no rate is known.
+ */
+export function spentByMonth(
+    budget: PantagonBudget,
+    rows: PantagonAsset[],
+    convert: (amount: number, from: string, to: string) => number | null
+): Record<string, number> {
+    const totals: Record<string, number> = {};
+    rows.forEach(row => {
+        if (!budgetMatches(budget, row)) return;
+        const amount = convert(Number(row.amount), row.currency || 'THB', budget.currency);
+        if (amount === null) return;
+        const key = row.date.slice(0, 7);
+        totals[key] = (totals[key] || 0) + amount;
+    });
+    return totals;
+}
+
+export function budgetStatus(budget: PantagonBudget, spent: Record<string, number>, year: number, month: number): BudgetStatus {
+    const target = monthKey(year, month);
+    const amount = Number(budget.amount);
+    let carried = 0;
+
+    if (budget.carry_over) {
+        const [startYear, startMonth] = budget.start_month.split('-').map(Number);
+        let y = startYear;
+        let m = startMonth - 1;
+        while (monthKey(y, m) < target) {
+            carried += amount - (spent[monthKey(y, m)] || 0);
+            if (m === 11) {
+                m = 0;
+                y++;
+            } else {
+                m++;
+            }
+        }
+    }
+
+    const available = amount + carried;
+    const monthSpent = spent[target] || 0;
+    return {
+        budget,
+        carried,
+        available,
+        spent: monthSpent,
+        remaining: available - monthSpent,
+        ratio: available > 0 ? monthSpent / available : monthSpent > 0 ? Infinity : 0,
+    };
+}
+
+// Budgets apply from their start month onwards
+export function isBudgetActive(budget: PantagonBudget, year: number, month: number): boolean {
+    return budget.start_month.slice(0, 7) <= monthKey(year, month);
+}
+
+export async function fetchBudgets(): Promise<PantagonBudget[]> {
+    try {
+        return await budgetsRepository.list();
+    } catch (error) {
+        console.error('Error fetching budgets:', error);
+        return [];
+    }
+}
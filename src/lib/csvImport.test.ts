@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseDate } from './csvImport';
+
+describe('parseDate', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-10-18T12:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('reads full CE and Buddhist-era years', () => {
+        expect(parseDate('15/03/2024', 'DMY')).toBe('2024-03-15');
+        expect(parseDate('15/03/2567', 'DMY')).toBe('2024-03-15');
+    });
+
+    it('reads a short year as CE when that is not in the future', () => {
+        expect(parseDate('15/03/24', 'DMY')).toBe('2024-03-15');
+        expect(parseDate('01-02-26', 'DMY')).toBe('2026-02-01');
+    });
+
+    it('reads a short year that would be in the future as Buddhist era', () => {
+        expect(parseDate('15/03/67', 'DMY')).toBe('2024-03-15');
+        expect(parseDate('69-10-01', 'YMD')).toBe('2026-10-01');
+    });
+
+    it('rejects impossible dates', () => {
+        expect(parseDate('31/02/2024', 'DMY')).toBeNull();
+        expect(parseDate('15/13/67', 'DMY')).toBeNull();
+    });
+});
@@ -0,0 +1,237 @@
+// Bank statement import: delimited-text parsing, column mapping and the
+// per-bank mapping presets kept in localStorage.
+
+export type DateFormat = 'DMY' | 'MDY' | 'YMD';
+
+// 'signed': one amount column, negative = OUT
+// 'split': separate debit (OUT) and credit (IN) columns
+export type AmountMode = 'signed' | 'split';
+
+export interface ColumnMapping {
+    skipRows: number;     // preamble lines before the header / first row
+    hasHeader: boolean;
+    date: number;         // column indexes, -1 = unmapped
+    description: number;
+    amount: number;       // used when amountMode is 'signed'
+    debit: number;        // used when amountMode is 'split'
+    credit: number;
+    amountMode: AmountMode;
+    dateFormat: DateFormat;
+}
+
+export interface ImportRow {
+    line: number;         // 1-based line in the source file
+    date: string;         // YYYY-MM-DD
+    type: 'IN' | 'OUT';
+    amount: number;
+    note: string;
+    error: string | null;
+}
+
+export const BANKS = ['SCB', 'KBank', 'ttb', 'Other'] as const;
+export type Bank = typeof BANKS[number];
+
+// Starting points only; column layouts differ between statement exports, so
+// adjust the mapping once and save it over the bank's preset.
+export const DEFAULT_PRESETS: Record<Bank, ColumnMapping> = {
+    SCB: { skipRows: 0, hasHeader: true, date: 0, description: 2, amount: -1, debit: 3, credit: 4, amountMode: 'split', dateFormat: 'DMY' },
+    KBank: { skipRows: 0, hasHeader: true, date: 0, description: 4, amount: -1, debit: 2, credit: 3, amountMode: 'split', dateFormat: 'DMY' },
+    ttb: { skipRows: 0, hasHeader: true, date: 0, description: 1, amount: 2, debit: -1, credit: -1, amountMode: 'signed', dateFormat: 'DMY' },
+    Other: { skipRows: 0, hasHeader: true, date: 0, description: 1, amount: 2, debit: -1, credit: -1, amountMode: 'signed', dateFormat: 'DMY' },
+};
+
+const PRESETS_KEY = 'pantagon.importPresets';
+
+export function loadPreset(bank: Bank): ColumnMapping {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PRESETS_KEY) || '{}');
+        return { ...DEFAULT_PRESETS[bank], ...saved[bank] };
+    } catch {
+        return DEFAULT_PRESETS[bank];
+    }
+}
+
+export function savePreset(bank: Bank, mapping: ColumnMapping) {
+    let saved: Record<string, ColumnMapping> = {};
+    try {
+        saved = JSON.parse(localStorage.getItem(PRESETS_KEY) || '{}');
+    } catch {
+        // Corrupt entry; start over
+    }
+    localStorage.setItem(PRESETS_KEY, JSON.stringify({ ...saved, [bank]: mapping }));
+}
+
+function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/).find(line => line.trim()) ?? '';
+    const candidates = ['\t', ',', ';'];
+    return candidates.reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+}
+
+/** CSV/TSV with quoted fields ("a, b", "say ""hi"""), delimiter auto-detected. */
+export function parseDelimited(text: string): string[][] {
+    const delimiter = detectDelimiter(text);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.map(r => r.map(cell => cell.trim()));
+}
+
+/**
+ * Statement dates to YYYY-MM-DD. Accepts / - . and space separators, two-digit
+ * years, and Thai Buddhist-era years (2567 or 67 -> 2024).
+ */
+export function parseDate(value: string, format: DateFormat): string | null {
+    const parts = value.trim().split(/[\s/.-]+/).slice(0, 3);
+    if (parts.length < 3 || parts.some(p => !/^\d+$/.test(p))) return null;
+
+    const [a, b, c] = parts.map(Number);
+    const [rawYear, month, day] = format === 'YMD' ? [a, b, c] : format === 'MDY' ? [c, a, b] : [c, b, a];
+
+    let year = rawYear;
+    if (year < 100) {
+        // A short year is CE unless that lands in the future; then it is a
+        // Buddhist-era year (67 -> 2567 -> 2024), as Thai bank exports use
+        year += 2000;
+        if (year > new Date().getFullYear()) year += 500;
+    }
+    if (year > 2400) year -= 543;
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCMonth() !== month - 1) return null;
+    return date.toISOString().split('T')[0];
+}
+
+/** "1,234.50", "(1,234.50)", "-฿1,234.50", "1234.50-" and "1234.50 DR" style amounts. */
+export function parseAmount(value: string): number | null {
+    let text = value.trim();
+    if (!text) return null;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    if (/\s*DR$/i.test(text)) {
+        negative = true;
+        text = text.replace(/\s*DR$/i, '');
+    }
+    text = text.replace(/\s*CR$/i, '');
+    if (text.endsWith('-')) {
+        negative = true;
+        text = text.slice(0, -1);
+    }
+
+    text = text.replace(/[,\s฿$]/g, '').replace(/^(THB|USD)/i, '');
+    if (text.startsWith('-')) {
+        negative = !negative;
+        text = text.slice(1);
+    }
+    if (!/^\d*\.?\d+$/.test(text)) return null;
+
+    const amount = Number(text);
+    return negative ? -amount : amount;
+}
+
+export function mapRows(rows: string[][], mapping: ColumnMapping): ImportRow[] {
+    const start = mapping.skipRows + (mapping.hasHeader ? 1 : 0);
+    const cell = (row: string[], index: number) => (index >= 0 ? row[index] ?? '' : '');
+
+    return rows.slice(start).flatMap((row, i) => {
+        if (row.every(value => value === '')) return [];
+
+        const line = start + i + 1;
+        const rawDate = cell(row, mapping.date);
+        const date = parseDate(rawDate, mapping.dateFormat);
+        const note = cell(row, mapping.description);
+
+        let signed: number | null = null;
+        if (mapping.amountMode === 'signed') {
+            signed = parseAmount(cell(row, mapping.amount));
+        } else {
+            const debit = parseAmount(cell(row, mapping.debit));
+            const credit = parseAmount(cell(row, mapping.credit));
+            if (debit) signed = -Math.abs(debit);
+            else if (credit) signed = Math.abs(credit);
+        }
+
+        let error: string | null = null;
+        if (!date) error = `Unreadable date "${rawDate}"`;
+        else if (signed === null || signed === 0) error = 'No amount';
+
+        const parsed: ImportRow = {
+            line,
+            date: date ?? '',
+            type: (signed ?? 0) < 0 ? 'OUT' : 'IN',
+            amount: Math.abs(signed ?? 0),
+            note,
+            error,
+        };
+        return [parsed];
+    });
+}
+
+export function duplicateKey(account: string, date: string, type: 'IN' | 'OUT', amount: number): string {
+    return `${account}|${date}|${type}|${Number(amount).toFixed(2)}`;
+}
+
+/**
+ * Indexes of rows that match an existing ledger row on account/date/type/amount.
+ * Matching is one-to-one, so two identical statement lines against a single
+ * existing row flag only the first.
+ */
+export function findDuplicates(
+    rows: ImportRow[],
+    account: string,
+    existing: { account_name: string; date: string; type: 'IN' | 'OUT'; amount: number }[]
+): Set<number> {
+    const available: Record<string, number> = {};
+    existing.forEach(row => {
+        const key = duplicateKey(row.account_name, row.date, row.type, row.amount);
+        available[key] = (available[key] || 0) + 1;
+    });
+
+    const duplicates = new Set<number>();
+    rows.forEach((row, index) => {
+        if (row.error) return;
+        const key = duplicateKey(account, row.date, row.type, row.amount);
+        if (available[key] > 0) {
+            available[key]--;
+            duplicates.add(index);
+        }
+    });
+    return duplicates;
+}
@@ -0,0 +1,71 @@
+import { fxRepository } from '../data/fxRepository';
+import { readConversions, thbPerUnit } from './fxPairs';
+import type { PantagonUSD } from '../types';
+
+export const SUPPORTED_CURRENCIES = ['THB', 'USD'];
+
+export type RateMode = 'latest' | 'weighted';
+
+// THB value of one unit of each currency
+export type ThbRates = Record<string, number>;
+
+export function formatMoney(value: number, currency: string): string {
+    return value.toLocaleString('en-US', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' });
+}
+
+export function getCurrencySymbol(currency: string): string {
+    const part = (0).toLocaleString('en-US', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+        .replace(/[\d.,\s]/g, '');
+    return part || currency;
+}
+
+/**
+ * Derives THB-per-unit rates from our own pantagon_usd history. Each
+ * conversion values the non-THB currencies on it at THB per unit (see
+ * fxPairs for how a cross pair is sized). 'latest' takes the most recent
+ * conversion, 'weighted' the volume-weighted average over all of them.
+ */
+export function deriveThbRates(rows: PantagonUSD[], mode: RateMode): ThbRates {
+    const rates: ThbRates = { THB: 1 };
+    const volumes: Record<string, { thb: number; units: number; latestAt: string; latestRate: number }> = {};
+
+    readConversions(rows).forEach(conversion => {
+        [conversion.from, conversion.to].forEach(leg => {
+            if (!leg || leg.currency === 'THB') return;
+            const rate = thbPerUnit(conversion, leg.currency);
+            if (!rate) return;
+
+            const entry = volumes[leg.currency] ??= { thb: 0, units: 0, latestAt: '', latestRate: 0 };
+            entry.thb += conversion.thb;
+            entry.units += leg.amount;
+            if (conversion.row.transaction_at > entry.latestAt) {
+                entry.latestAt = conversion.row.transaction_at;
+                entry.latestRate = rate;
+            }
+        });
+    });
+
+    Object.entries(volumes).forEach(([currency, entry]) => {
+        rates[currency] = mode === 'latest' ? entry.latestRate : entry.thb / entry.units;
+    });
+
+    return rates;
+}
+
+// Returns null when either currency has no known rate
+export function convertAmount(amount: number, from: string, to: string, rates: ThbRates): number | null {
+    if (from === to) return amount;
+    const fromRate = rates[from];
+    const toRate = rates[to];
+    if (!fromRate || !toRate) return null;
+    return amount * fromRate / toRate;
+}
+
+export async function fetchFxHistory(): Promise<PantagonUSD[]> {
+    try {
+        return await fxRepository.list();
+    } catch (error) {
+        console.error('Error fetching FX history:', error);
+        return [];
+    }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { computeDimeCostBasis } from './dimeCostBasis';
+import type { DimeTransaction } from '../types';
+
+let nextId = 0;
+
+function trade(side: DimeTransaction['side'], day: number, shares: number, total_amount: number, extra: Partial<DimeTransaction> = {}): DimeTransaction {
+    nextId += 1;
+    return {
+        id: `tx-${String(nextId).padStart(3, '0')}`,
+        side,
+        transaction_date: `2026-01-${String(day).padStart(2, '0')}T10:00:00+07:00`,
+        symbol: 'VOO',
+        shares,
+        total_amount,
+        executed_price: total_amount / shares,
+        commission: null,
+        vat: null,
+        fee: null,
+        sec_fee: null,
+        taf_fee: null,
+        input_amount_usd: side === 'BUY' ? total_amount : null,
+        input_shares: side === 'SELL' ? shares : null,
+        stock_amount: total_amount,
+        currency: 'USD',
+        ...extra,
+    };
+}
+
+const positionOf = (transactions: DimeTransaction[], method: 'fifo' | 'weighted') =>
+    computeDimeCostBasis(transactions, method).positions[0];
+
+describe('computeDimeCostBasis', () => {
+    const ladder = [
+        trade('BUY', 1, 10, 100),
+        trade('BUY', 2, 10, 200),
+        trade('SELL', 3, 10, 250),
+    ];
+
+    it('matches a sell against the oldest lot under FIFO', () => {
+        const position = positionOf(ladder, 'fifo');
+        expect(position.realized).toBeCloseTo(150);
+        expect(position.sales[0].cost).toBeCloseTo(100);
+        expect(position.shares).toBeCloseTo(10);
+        expect(position.cost).toBeCloseTo(200);
+        expect(position.averageCost).toBeCloseTo(20);
+    });
+
+    it('matches a sell at the pooled average under average cost', () => {
+        const position = positionOf(ladder, 'weighted');
+        expect(position.realized).toBeCloseTo(100);
+        expect(position.sales[0].cost).toBeCloseTo(150);
+        expect(position.shares).toBeCloseTo(10);
+        expect(position.cost).toBeCloseTo(150);
+        expect(position.averageCost).toBeCloseTo(15);
+    });
+
+    it('starts a fresh lot when buying again after selling out', () => {
+        // Given out of order; the replay sorts by date
+        const transactions = [
+            trade('BUY', 5, 5, 60),
+            trade('SELL', 2, 10, 150),
+            trade('BUY', 1, 10, 100),
+        ];
+        for (const method of ['fifo', 'weighted'] as const) {
+            const position = positionOf(transactions, method);
+            expect(position.realized).toBeCloseTo(50);
+            expect(position.lots).toHaveLength(1);
+            expect(position.shares).toBeCloseTo(5);
+            expect(position.cost).toBeCloseTo(60);
+            expect(position.averageCost).toBeCloseTo(12);
+        }
+    });
+
+    it('realizes sell proceeds net of fees', () => {
+        const position = positionOf([
+            trade('BUY', 1, 10, 100),
+            trade('SELL', 2, 10, 98, { stock_amount: 100, commission: 1.5, vat: 0.1, sec_fee: 0.3, taf_fee: 0.1 }),
+        ], 'fifo');
+        const [sale] = position.sales;
+        expect(sale.proceeds).toBeCloseTo(98);
+        expect(sale.fees).toBeCloseTo(2);
+        expect(sale.gain).toBeCloseTo(-2);
+        expect(position.realized).toBeCloseTo(-2);
+        expect(position.fees).toBeCloseTo(2);
+    });
+
+    it('costs an INIT lot at its stock_amount', () => {
+        const position = positionOf([
+            trade('INIT', 1, 10, 999, { stock_amount: 500 }),
+            trade('SELL', 2, 4, 300),
+        ], 'fifo');
+        expect(position.invested).toBeCloseTo(500);
+        expect(position.sales[0].cost).toBeCloseTo(200);
+        expect(position.realized).toBeCloseTo(100);
+        expect(position.cost).toBeCloseTo(300);
+    });
+
+    it('leaves shares sold beyond the holdings unmatched and out of the gain', () => {
+        const position = positionOf([
+            trade('BUY', 1, 5, 50),
+            trade('SELL', 2, 8, 120),
+        ], 'fifo');
+        const [sale] = position.sales;
+        expect(sale.unmatched).toBeCloseTo(3);
+        expect(sale.cost).toBeCloseTo(50);
+        // Only the 5 matched shares' share of the proceeds counts
+        expect(sale.gain).toBeCloseTo(120 * 5 / 8 - 50);
+        expect(position.shares).toBe(0);
+        expect(position.lots).toHaveLength(0);
+    });
+});
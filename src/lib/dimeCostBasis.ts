@@ -0,0 +1,134 @@
+import type { CostMethod } from './fxCostBasis';
+import type { DimeTransaction } from '../types';
+
+// Cost basis of Dime holdings, replayed in trade order. A BUY adds a lot at
+// what it cost out of pocket (total_amount, fees included); an INIT opening
+// position adds one at its stock_amount. A SELL is matched against the lots
+// held at that moment and realizes its net proceeds (total_amount, after
+// commission, VAT, SEC and TAF fees) less the cost of the shares it used up.
+
+export interface StockLot {
+    tx: DimeTransaction; // the buy; for 'weighted' the latest buy in the pool
+    shares: number;      // still held from it
+    cost: number;        // USD cost of those shares
+}
+
+export interface StockSale {
+    tx: DimeTransaction;
+    shares: number;
+    proceeds: number;  // USD received after fees
+    fees: number;
+    cost: number;      // cost of the matched shares
+    gain: number;      // proceeds of the matched shares - cost
+    unmatched: number; // shares sold beyond recorded holdings; left out of gain
+}
+
+export interface SymbolPosition {
+    symbol: string;
+    lots: StockLot[];   // oldest first
+    sales: StockSale[]; // oldest first
+    shares: number;     // still held
+    cost: number;       // cost of what is still held
+    averageCost: number; // USD per share held; 0 when nothing is
+    invested: number;   // cost of every buy
+    proceeds: number;   // net proceeds of every sell
+    realized: number;
+    fees: number;       // paid on buys and sells
+    txCount: number;
+    latestDate: string;
+}
+
+export interface PortfolioCostBasis {
+    method: CostMethod;
+    positions: SymbolPosition[]; // largest held cost first
+    invested: number;
+    proceeds: number;
+    realized: number;
+    cost: number;
+    fees: number;
+}
+
+const EPSILON = 1e-9;
+
+export const tradeFees = (tx: DimeTransaction) =>
+    [tx.commission, tx.vat, tx.fee, tx.sec_fee, tx.taf_fee].reduce<number>((sum, value) => sum + Math.abs(Number(value ?? 0)), 0);
+
+const chronological = (a: DimeTransaction, b: DimeTransaction) =>
+    a.transaction_date.localeCompare(b.transaction_date)
+    || (a.created_at ?? '').localeCompare(b.created_at ?? '')
+    || a.id.localeCompare(b.id);
+
+function emptyPosition(symbol: string, latestDate: string): SymbolPosition {
+    return {
+        symbol, lots: [], sales: [], shares: 0, cost: 0, averageCost: 0,
+        invested: 0, proceeds: 0, realized: 0, fees: 0, txCount: 0, latestDate,
+    };
+}
+
+export function computeDimeCostBasis(transactions: DimeTransaction[], method: CostMethod): PortfolioCostBasis {
+    const positions: Record<string, SymbolPosition> = {};
+
+    [...transactions].sort(chronological).forEach(tx => {
+        const symbol = tx.symbol || 'UNKNOWN';
+        const position = positions[symbol] ??= emptyPosition(symbol, tx.transaction_date);
+        position.txCount += 1;
+        if (tx.transaction_date > position.latestDate) position.latestDate = tx.transaction_date;
+
+        const shares = Number(tx.shares ?? 0);
+        const fees = tradeFees(tx);
+        position.fees += fees;
+        if (!(shares > 0)) return;
+
+        if (tx.side !== 'SELL') {
+            const cost = tx.side === 'INIT' ? Number(tx.stock_amount ?? tx.total_amount) : Number(tx.total_amount);
+            position.invested += cost;
+            if (method === 'weighted' && position.lots.length > 0) {
+                // One pool: the average cost moves with every buy
+                const pool = position.lots[0];
+                position.lots = [{ tx, shares: pool.shares + shares, cost: pool.cost + cost }];
+            } else {
+                position.lots.push({ tx, shares, cost });
+            }
+            return;
+        }
+
+        let remaining = shares;
+        let cost = 0;
+        while (remaining > EPSILON && position.lots.length > 0) {
+            const lot = position.lots[0];
+            const taken = Math.min(remaining, lot.shares);
+            const takenCost = lot.cost * taken / lot.shares;
+            cost += takenCost;
+            remaining -= taken;
+            lot.shares -= taken;
+            lot.cost -= takenCost;
+            if (lot.shares <= EPSILON) position.lots.shift();
+        }
+
+        const proceeds = Number(tx.total_amount);
+        const unmatched = remaining > EPSILON ? remaining : 0;
+        const gain = proceeds * (shares - unmatched) / shares - cost;
+        position.sales.push({ tx, shares, proceeds, fees, cost, gain, unmatched });
+        position.proceeds += proceeds;
+        position.realized += gain;
+    });
+
+    const list = Object.values(positions).map(position => {
+        const shares = position.lots.reduce((sum, lot) => sum + lot.shares, 0);
+        const cost = position.lots.reduce((sum, lot) => sum + lot.cost, 0);
+        return shares > EPSILON
+            ? { ...position, shares, cost, averageCost: cost / shares }
+            : { ...position, lots: [], shares: 0, cost: 0, averageCost: 0 };
+    });
+
+    const total = (pick: (p: SymbolPosition) => number) => list.reduce((sum, p) => sum + pick(p), 0);
+    return {
+        method,
+        positions: list.sort((a, b) => b.cost - a.cost),
+        invested: total(p => p.invested),
+        proceeds: total(p => p.proceeds),
+        realized: total(p => p.realized),
+        cost: total(p => p.cost),
+        fees: total(p => p.fees),
+    };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { LOW_CONFIDENCE, parseDimeSlip, parseSlipDate } from './dimeSlipParser';
+import type { OcrLine } from './dimeSlipParser';
+
+// An OCR line whose words all have `confidence`, except those given in `words`
+const line = (text: string, confidence = 95, words: Record<string, number> = {}): OcrLine => ({
+    text,
+    confidence,
+    words: text.split(' ').map(word => ({ text: word, confidence: words[word] ?? confidence })),
+});
+
+describe('parseSlipDate', () => {
+    it('reads the formats Dime shows, in Thai time', () => {
+        expect(parseSlipDate('20 Feb 2026 17:30')).toBe('2026-02-20T17:30:00+07:00');
+        expect(parseSlipDate('Feb 20, 2026 5:30 PM')).toBe('2026-02-20T17:30:00+07:00');
+        expect(parseSlipDate('20/02/2026 17:30')).toBe('2026-02-20T17:30:00+07:00');
+        expect(parseSlipDate('2026-02-20 17:30:05')).toBe('2026-02-20T17:30:05+07:00');
+        expect(parseSlipDate('Feb 20, 2026 12:05 AM')).toBe('2026-02-20T00:05:00+07:00');
+    });
+
+    it('reads Buddhist-era years', () => {
+        expect(parseSlipDate('20 ก.พ. 2569 17:30')).toBe('2026-02-20T17:30:00+07:00');
+        expect(parseSlipDate('01/10/2569')).toBe('2026-10-01T00:00:00+07:00');
+    });
+
+    it('returns null when there is no valid date', () => {
+        expect(parseSlipDate('Order completed')).toBeNull();
+        expect(parseSlipDate('20/13/2026 17:30')).toBeNull();
+    });
+});
+
+describe('parseDimeSlip', () => {
+    it('reads an English BUY slip and flags the words OCR was unsure of', () => {
+        const { input, confidence } = parseDimeSlip([
+            line('Buy order completed'),
+            line('Symbol VOO'),
+            line('Date 20 Feb 2026 5:30 PM'),
+            line('Executed Price $512.34', 95, { '$512.34': 60 }),
+            line('Amount 100.00 USD'),
+            line('Commission 0.15'),
+            line('VAT 0.01'),
+            line('SEC Fee 0.00'),
+        ]);
+
+        expect(input).toMatchObject({
+            side: 'BUY', symbol: 'VOO', transaction_date: '2026-02-20T17:30:00+07:00',
+            executed_price: 512.34, input_amount_usd: 100, input_shares: null,
+            commission: 0.15, vat: 0.01, sec_fee: 0, fee: null, taf_fee: null,
+        });
+        expect(confidence.executed_price).toBeLessThan(LOW_CONFIDENCE);
+        expect(confidence.input_amount_usd).toBeGreaterThanOrEqual(LOW_CONFIDENCE);
+        expect(confidence.symbol).toBeGreaterThanOrEqual(LOW_CONFIDENCE);
+        expect(confidence.side).toBeGreaterThanOrEqual(LOW_CONFIDENCE);
+        // Fields not on the slip have no confidence at all
+        expect(confidence.taf_fee).toBeUndefined();
+    });
+
+    it('reads a Thai BUY slip', () => {
+        const { input, confidence } = parseDimeSlip([
+            line('คำสั่งซื้อสำเร็จ'),
+            line('หลักทรัพย์ QQQ'),
+            line('วันที่ 20 ก.พ. 2569 17:30'),
+            line('ราคาที่ได้ 450.50'),
+            line('จำนวนเงิน 200.00'),
+            line('ค่าคอมมิชชั่น 0.30'),
+            line('ภาษีมูลค่าเพิ่ม 0.02'),
+        ]);
+
+        expect(input).toMatchObject({
+            side: 'BUY', symbol: 'QQQ', transaction_date: '2026-02-20T17:30:00+07:00',
+            executed_price: 450.5, input_amount_usd: 200, commission: 0.3, vat: 0.02,
+        });
+        expect(confidence.transaction_date).toBeGreaterThanOrEqual(LOW_CONFIDENCE);
+    });
+
+    it('reads a SELL slip with fees shown as negatives', () => {
+        const { input } = parseDimeSlip([
+            line('Sell order completed'),
+            line('Symbol AAPL'),
+            line('Date 20/02/2026 21:45'),
+            line('Shares 0.5'),
+            line('Price 230.00'),
+            line('Commission -0.12'),
+        ]);
+
+        expect(input).toMatchObject({ side: 'SELL', input_shares: 0.5, input_amount_usd: null, commission: 0.12 });
+    });
+
+    it('guesses what has no label and marks the guesses as low confidence', () => {
+        const { input, confidence } = parseDimeSlip([
+            line('VOO'),
+            line('20/02/2026 17:30'),
+            line('Price 500.00'),
+            line('Shares 2'),
+        ]);
+
+        expect(input).toMatchObject({ side: 'SELL', symbol: 'VOO', transaction_date: '2026-02-20T17:30:00+07:00' });
+        expect(confidence.side).toBe(0);
+        expect(confidence.symbol).toBeLessThan(LOW_CONFIDENCE);
+        expect(confidence.transaction_date).toBeLessThan(LOW_CONFIDENCE);
+    });
+});
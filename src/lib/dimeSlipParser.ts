@@ -0,0 +1,216 @@
+import { parseAmount } from './csvImport';
+import { FEE_FIELDS } from './dimeTrades';
+import type { TradeInput, TradeSide } from './dimeTrades';
+
+// Reads the fields of a Dime order confirmation from OCR'd text lines. The
+// slip is a list of "Label  value" rows (English or Thai), so each field is
+// found by its label and read from the rest of that line, or from the line
+// below when the value wraps. Confidence is the OCR engine's own confidence
+// in the words the value came from, lowered when the value was guessed
+// rather than read from its label.
+
+export interface OcrWord {
+    text: string;
+    confidence: number; // 0-100, as OCR engines report it
+}
+
+export interface OcrLine {
+    text: string;
+    confidence: number;
+    words: OcrWord[];
+}
+
+export type SlipField = 'side' | 'symbol' | 'transaction_date' | 'executed_price' | 'input_amount_usd' | 'input_shares' | typeof FEE_FIELDS[number];
+
+/** 0-1 per field that was found; a field missing here was not on the slip. */
+export type SlipConfidence = Partial<Record<SlipField, number>>;
+
+export interface ParsedSlip {
+    input: TradeInput;
+    confidence: SlipConfidence;
+}
+
+// Below this a field is worth a second look before saving
+export const LOW_CONFIDENCE = 0.75;
+
+// Guessed values (no label next to them) are trusted this much less
+const GUESS_PENALTY = 0.7;
+
+type NumberField = Exclude<SlipField, 'side' | 'symbol' | 'transaction_date'>;
+
+// Checked in order, so the specific fees come before the generic "fee"
+const NUMBER_LABELS: [NumberField, RegExp][] = [
+    ['executed_price', /(executed|avg\.?|average|matched)\s*price|\bprice\b|ราคาที่ได้|ราคาเฉลี่ย|ราคาที่จับคู่/i],
+    ['input_shares', /\b(shares|units|quantity|qty)\b|จำนวนหุ้น/i],
+    ['input_amount_usd', /\b(total\s+)?(order\s+)?amount\b|\btotal\b|จำนวนเงิน|ยอดเงิน|ยอดรวม/i],
+    ['commission', /commission|ค่าคอม/i],
+    ['vat', /\bvat\b|ภาษีมูลค่าเพิ่ม/i],
+    ['sec_fee', /\bsec\b/i],
+    ['taf_fee', /\btaf\b/i],
+    ['fee', /\bfees?\b|ค่าธรรมเนียม/i],
+];
+
+const SYMBOL_LABEL = /\b(symbol|ticker)\b|ชื่อหุ้น|หลักทรัพย์/i;
+const DATE_LABEL = /\b(date|time|executed\s+(on|at))\b|วันที่|เวลา/i;
+const SIDE_WORDS = /\b(buy|bought|sell|sold)\b|ซื้อ|ขาย/i;
+
+const TICKER = /^[A-Z]{1,5}(\.[A-Z]{1,2})?$/;
+// Upper-case words on a slip that are not tickers
+const NOT_TICKERS = new Set(['USD', 'THB', 'VAT', 'SEC', 'TAF', 'BUY', 'SELL', 'AM', 'PM', 'ID', 'NO', 'DIME', 'KKP', 'US', 'ETF', 'LTD', 'INC']);
+
+const MONTHS: Record<string, number> = {
+    jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+    'ม.ค.': 1, 'ก.พ.': 2, 'มี.ค.': 3, 'เม.ย.': 4, 'พ.ค.': 5, 'มิ.ย.': 6,
+    'ก.ค.': 7, 'ส.ค.': 8, 'ก.ย.': 9, 'ต.ค.': 10, 'พ.ย.': 11, 'ธ.ค.': 12,
+};
+
+const NUMBER = /\(?-?[$฿]?\s?\d[\d,]*(\.\d+)?\)?/g;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const monthOf = (name: string): number | undefined =>
+    /^[A-Za-z]/.test(name) ? MONTHS[name.toLowerCase().slice(0, 3)] : MONTHS[name];
+
+function wordConfidence(line: OcrLine, fragment: string): number {
+    const digits = fragment.replace(/[^\d]/g, '');
+    const word = line.words.find(w => digits && w.text.replace(/[^\d]/g, '').includes(digits));
+    return (word?.confidence ?? line.confidence) / 100;
+}
+
+function firstNumber(text: string): { value: number; raw: string } | null {
+    for (const match of text.matchAll(NUMBER)) {
+        const value = parseAmount(match[0].replace(/[$฿\s]/g, ''));
+        if (value != null) return { value, raw: match[0] };
+    }
+    return null;
+}
+
+/**
+ * A slip timestamp as ISO with the +07:00 offset Dime shows times in.
+ * Takes "20 Feb 2026 17:30", "Feb 20, 2026 5:30 PM", "20/02/2026 17:30",
+ * "2026-02-20 17:30:05" and Thai "20 ก.พ. 2569 17:30" (Buddhist-era year).
+ */
+export function parseSlipDate(text: string): string | null {
+    let year: number, month: number, day: number;
+
+    const iso = text.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+    const numeric = text.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+    const named = text.match(/(\d{1,2})\s*([A-Za-z]{3,9}\.?|[ก-๙]{1,3}\.[ก-๙]{1,2}\.)\s*,?\s*(\d{2,4})/);
+    const usNamed = text.match(/([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})/);
+
+    if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else if (numeric) {
+        [day, month, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+    } else if (named && monthOf(named[2])) {
+        [day, month, year] = [Number(named[1]), monthOf(named[2])!, Number(named[3])];
+    } else if (usNamed && monthOf(usNamed[1])) {
+        [month, day, year] = [monthOf(usNamed[1])!, Number(usNamed[2]), Number(usNamed[3])];
+    } else {
+        return null;
+    }
+
+    if (year < 100) year += 2000;
+    if (year > 2400) year -= 543;
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+    let hours = 0, minutes = 0, seconds = 0;
+    const time = text.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?/i);
+    if (time) {
+        hours = Number(time[1]);
+        minutes = Number(time[2]);
+        seconds = Number(time[3] ?? 0);
+        const meridiem = time[4]?.toUpperCase();
+        if (meridiem === 'PM' && hours < 12) hours += 12;
+        if (meridiem === 'AM' && hours === 12) hours = 0;
+    }
+
+    return `${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}+07:00`;
+}
+
+/** The trade on one slip; fields it could not find are left empty for the reviewer. */
+export function parseDimeSlip(lines: OcrLine[]): ParsedSlip {
+    const confidence: SlipConfidence = {};
+    const numbers: Partial<Record<NumberField, number>> = {};
+    let side: TradeSide | null = null;
+    let symbol = '';
+    let date: string | null = null;
+
+    const clean = lines.map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() })).filter(line => line.text);
+
+    clean.forEach((line, i) => {
+        const next = clean[i + 1];
+
+        if (!side) {
+            const match = line.text.match(SIDE_WORDS);
+            if (match) {
+                side = /buy|bought|ซื้อ/i.test(match[0]) ? 'BUY' : 'SELL';
+                confidence.side = (line.words.find(w => SIDE_WORDS.test(w.text))?.confidence ?? line.confidence) / 100;
+            }
+        }
+
+        if (!date && DATE_LABEL.test(line.text)) {
+            const found = parseSlipDate(line.text) ?? (next ? parseSlipDate(next.text) : null);
+            if (found) {
+                date = found;
+                confidence.transaction_date = (parseSlipDate(line.text) ? line : next).confidence / 100;
+            }
+        }
+
+        if (!symbol && SYMBOL_LABEL.test(line.text)) {
+            const after = line.text.replace(SYMBOL_LABEL, ' ');
+            const token = [...after.split(/[\s:]+/), ...(next?.text.split(/[\s:]+/) ?? [])].find(t => TICKER.test(t) && !NOT_TICKERS.has(t));
+            if (token) {
+                symbol = token;
+                const source = after.includes(token) ? line : next;
+                confidence.symbol = (source.words.find(w => w.text.includes(token))?.confidence ?? source.confidence) / 100;
+            }
+        }
+
+        const label = NUMBER_LABELS.find(([field, pattern]) => numbers[field] == null && pattern.test(line.text));
+        if (!label) return;
+        const [field, pattern] = label;
+        const rest = line.text.slice(line.text.search(pattern)).replace(pattern, ' ');
+        const sameLine = firstNumber(rest);
+        const value = sameLine ?? (next && !NUMBER_LABELS.some(([, p]) => p.test(next.text)) ? firstNumber(next.text) : null);
+        if (!value) return;
+        numbers[field] = Math.abs(value.value); // slips show SELL fees as negatives
+        confidence[field] = wordConfidence(sameLine ? line : next, value.raw);
+    });
+
+    // No labelled symbol: take the first ticker-looking word near the top
+    if (!symbol) {
+        for (const line of clean.slice(0, 8)) {
+            const word = line.words.find(w => TICKER.test(w.text) && !NOT_TICKERS.has(w.text));
+            if (word) {
+                symbol = word.text;
+                confidence.symbol = word.confidence / 100 * GUESS_PENALTY;
+                break;
+            }
+        }
+    }
+
+    // No labelled date: any date on the slip
+    if (!date) {
+        const line = clean.find(l => parseSlipDate(l.text));
+        if (line) {
+            date = parseSlipDate(line.text);
+            confidence.transaction_date = line.confidence / 100 * GUESS_PENALTY;
+        }
+    }
+
+    const resolvedSide: TradeSide = side ?? (numbers.input_shares != null && numbers.input_amount_usd == null ? 'SELL' : 'BUY');
+    if (!side) confidence.side = 0;
+
+    const input: TradeInput = {
+        side: resolvedSide,
+        transaction_date: date ?? '',
+        symbol,
+        executed_price: numbers.executed_price ?? NaN,
+        input_amount_usd: resolvedSide === 'BUY' ? numbers.input_amount_usd ?? null : null,
+        input_shares: resolvedSide === 'SELL' ? numbers.input_shares ?? null : null,
+    };
+    FEE_FIELDS.forEach(field => { input[field] = numbers[field] ?? null; });
+
+    return { input, confidence };
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { deriveTrade, TradeValidationError, tradeInputFromJson, validateTrade } from './dimeTrades';
+import type { TradeInput } from './dimeTrades';
+
+const DATE = '2026-02-20T17:30:00+07:00';
+
+const buy = (patch: Partial<TradeInput> = {}): TradeInput => ({
+    side: 'BUY', transaction_date: DATE, symbol: 'voo', executed_price: 40, input_amount_usd: 100, ...patch,
+});
+
+const sell = (patch: Partial<TradeInput> = {}): TradeInput => ({
+    side: 'SELL', transaction_date: DATE, symbol: 'VOO', executed_price: 50, input_shares: 2, ...patch,
+});
+
+const init = (patch: Partial<TradeInput> = {}): TradeInput => ({
+    side: 'INIT', transaction_date: DATE, symbol: 'VOO', executed_price: 20, input_shares: 3, ...patch,
+});
+
+describe('deriveTrade', () => {
+    it('buys shares with what is left of the amount after fees', () => {
+        const row = deriveTrade(buy({ commission: 0.75, vat: 0.25 }));
+        expect(row.total_amount).toBe(100);
+        expect(row.stock_amount).toBe(99);
+        expect(row.shares).toBe(2.475);
+        expect(row.input_amount_usd).toBe(100);
+        expect(row.input_shares).toBeNull();
+        expect(row.symbol).toBe('VOO');
+        expect(row.transaction_date).toBe('2026-02-20T10:30:00.000Z');
+    });
+
+    it('rounds bought shares to 7 decimal places', () => {
+        expect(deriveTrade(buy({ executed_price: 3 })).shares).toBe(33.3333333);
+    });
+
+    it('sells shares for their value less fees', () => {
+        const row = deriveTrade(sell({ sec_fee: 0.25, taf_fee: 0.25 }));
+        expect(row.shares).toBe(2);
+        expect(row.stock_amount).toBe(100);
+        expect(row.total_amount).toBe(99.5);
+        expect(row.input_shares).toBe(2);
+        expect(row.input_amount_usd).toBeNull();
+    });
+
+    it('records an INIT position at its value with no fees', () => {
+        const row = deriveTrade(init());
+        expect(row.shares).toBe(3);
+        expect(row.stock_amount).toBe(60);
+        expect(row.total_amount).toBe(60);
+        expect(row.input_shares).toBeNull();
+        expect(row.input_amount_usd).toBeNull();
+    });
+
+    it('stores zero fees as no fee', () => {
+        const row = deriveTrade(buy({ commission: 0, vat: null }));
+        expect(row.commission).toBeNull();
+        expect(row.vat).toBeNull();
+    });
+
+    it('throws a TradeValidationError listing every issue', () => {
+        let caught: unknown;
+        try {
+            deriveTrade(buy({ symbol: ' ', executed_price: 0 }));
+        } catch (error) {
+            caught = error;
+        }
+        expect(caught).toBeInstanceOf(TradeValidationError);
+        expect((caught as TradeValidationError).issues).toEqual([
+            'Symbol is required.',
+            'Executed price must be a positive number.',
+        ]);
+    });
+});
+
+describe('validateTrade', () => {
+    it('accepts valid BUY, SELL and INIT input', () => {
+        expect(validateTrade(buy())).toEqual([]);
+        expect(validateTrade(sell())).toEqual([]);
+        expect(validateTrade(init())).toEqual([]);
+    });
+
+    it('rejects a price that is not positive', () => {
+        expect(validateTrade(buy({ executed_price: 0 }))).toContain('Executed price must be a positive number.');
+        expect(validateTrade(sell({ executed_price: -5 }))).toContain('Executed price must be a positive number.');
+        expect(validateTrade(init({ executed_price: NaN }))).toContain('Executed price must be a positive number.');
+    });
+
+    it('rejects a negative fee', () => {
+        expect(validateTrade(buy({ vat: -0.1 }))).toContain('vat must be zero or more.');
+    });
+
+    it('rejects shares with more than 7 decimal places', () => {
+        expect(validateTrade(sell({ input_shares: 0.12345678 }))).toContain('Shares can have at most 7 decimal places.');
+        expect(validateTrade(sell({ input_shares: 0.1234567 }))).toEqual([]);
+    });
+
+    it('rejects fees on an INIT', () => {
+        expect(validateTrade(init({ fee: 1 }))).toContain('INIT records an opening position and takes no fees.');
+    });
+
+    it('rejects a BUY whose fees use up the amount', () => {
+        expect(validateTrade(buy({ input_amount_usd: 2, commission: 2 }))).toContain('Input Amount (USD) must be more than the fees.');
+        expect(validateTrade(buy({ input_amount_usd: 2, commission: 3 }))).toContain('Input Amount (USD) must be more than the fees.');
+    });
+
+    it('rejects a SELL whose fees exceed the value sold', () => {
+        expect(validateTrade(sell({ input_shares: 0.01, executed_price: 10, commission: 0.2 })))
+            .toContain('Fees are more than the value of the shares sold.');
+    });
+
+    it('requires the amount for a BUY and shares for a SELL', () => {
+        expect(validateTrade(buy({ input_amount_usd: null }))).toContain('Input Amount (USD) is required for BUY.');
+        expect(validateTrade(sell({ input_shares: null }))).toContain('Shares are required for SELL.');
+    });
+});
+
+describe('tradeInputFromJson', () => {
+    it('reads negative slip fees as magnitudes', () => {
+        const input = tradeInputFromJson({
+            side: 'sell', transaction_date: DATE, symbol: 'voo', executed_price: '50',
+            input_shares: 2, commission: -0.5, vat: '-0.035', sec_fee: null, taf_fee: '',
+        });
+        expect(input).toMatchObject({
+            side: 'SELL', symbol: 'VOO', executed_price: 50, input_shares: 2,
+            commission: 0.5, vat: 0.035, sec_fee: null, taf_fee: null,
+        });
+        expect(validateTrade(input)).toEqual([]);
+        expect(deriveTrade(input).total_amount).toBeCloseTo(99.465);
+    });
+
+    it('leaves unreadable input for validateTrade to report', () => {
+        const input = tradeInputFromJson({ side: 'hold', executed_price: 'abc' });
+        expect(validateTrade(input)).toEqual([
+            'Unknown side "HOLD".',
+            'Symbol is required.',
+            'A valid date is required.',
+            'Executed price must be a positive number.',
+        ]);
+        expect(() => deriveTrade(input)).toThrow(TradeValidationError);
+    });
+});
@@ -0,0 +1,156 @@
+import type { NewDimeTransaction } from '../data/dimeRepository';
+import type { DimeTransaction } from '../types';
+
+// Turns what was entered for a Dime trade (the form, or JSON from a slip)
+// into the stored row. BUY is entered as the USD spent with fees included,
+// so the shares bought come from what is left after fees. SELL is entered as
+// shares, and the proceeds are what is left of their value after fees. INIT
+// records an opening position at the price it is valued at.
+
+export type TradeSide = DimeTransaction['side'];
+
+export const TRADE_SIDES: TradeSide[] = ['BUY', 'SELL', 'INIT'];
+
+// Dime reports fractional shares to 7 places
+export const SHARE_DECIMALS = 7;
+
+export const FEE_FIELDS = ['commission', 'vat', 'fee', 'sec_fee', 'taf_fee'] as const;
+
+export type FeeField = typeof FEE_FIELDS[number];
+
+export interface TradeInput extends Partial<Record<FeeField, number | null>> {
+    side: TradeSide;
+    transaction_date: string; // anything Date parses
+    symbol: string;
+    executed_price: number;
+    input_amount_usd?: number | null; // BUY: USD spent, fees included
+    input_shares?: number | null;     // SELL and INIT
+}
+
+export class TradeValidationError extends Error {
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(issues.join(' '));
+        this.name = 'TradeValidationError';
+        this.issues = issues;
+    }
+}
+
+const isSet = (value: number | null | undefined): value is number => value != null;
+
+const hasSharePrecision = (value: number) => Number(value.toFixed(SHARE_DECIMALS)) === value;
+
+export const roundShares = (value: number) => Number(value.toFixed(SHARE_DECIMALS));
+
+export const totalFees = (input: TradeInput) =>
+    FEE_FIELDS.reduce((sum, field) => sum + (input[field] ?? 0), 0);
+
+/** Every problem with the input, in form order; empty when it can be saved. */
+export function validateTrade(input: TradeInput): string[] {
+    const issues: string[] = [];
+    const { side, executed_price: price, input_amount_usd: amount, input_shares: shares } = input;
+
+    if (!TRADE_SIDES.includes(side)) issues.push(`Unknown side "${side}".`);
+    if (!input.symbol?.trim()) issues.push('Symbol is required.');
+    if (!input.transaction_date || isNaN(new Date(input.transaction_date).getTime())) issues.push('A valid date is required.');
+    if (!Number.isFinite(price) || price <= 0) issues.push('Executed price must be a positive number.');
+
+    FEE_FIELDS.forEach(field => {
+        const value = input[field];
+        if (isSet(value) && (!Number.isFinite(value) || value < 0)) issues.push(`${field} must be zero or more.`);
+    });
+    const fees = totalFees(input);
+
+    if (side === 'BUY') {
+        if (!isSet(amount) || !Number.isFinite(amount) || amount <= 0) {
+            issues.push('Input Amount (USD) is required for BUY.');
+        } else if (amount <= fees) {
+            issues.push('Input Amount (USD) must be more than the fees.');
+        }
+    }
+
+    if (side === 'SELL' || side === 'INIT') {
+        if (!isSet(shares) || !Number.isFinite(shares) || shares <= 0) {
+            issues.push(`Shares are required for ${side}.`);
+        } else if (!hasSharePrecision(shares)) {
+            issues.push(`Shares can have at most ${SHARE_DECIMALS} decimal places.`);
+        } else if (side === 'SELL' && Number.isFinite(price) && shares * price < fees) {
+            issues.push('Fees are more than the value of the shares sold.');
+        }
+    }
+
+    if (side === 'INIT' && fees > 0) issues.push('INIT records an opening position and takes no fees.');
+
+    return issues;
+}
+
+/** The row to store; throws a TradeValidationError when the input is invalid. */
+export function deriveTrade(input: TradeInput): NewDimeTransaction {
+    const issues = validateTrade(input);
+    if (issues.length > 0) throw new TradeValidationError(issues);
+
+    const price = input.executed_price;
+    const fees = totalFees(input);
+
+    let shares: number;
+    let stock_amount: number;
+    let total_amount: number;
+    if (input.side === 'BUY') {
+        total_amount = input.input_amount_usd!;
+        stock_amount = total_amount - fees;
+        shares = roundShares(stock_amount / price);
+    } else {
+        shares = input.input_shares!;
+        stock_amount = shares * price;
+        total_amount = input.side === 'SELL' ? stock_amount - fees : stock_amount;
+    }
+
+    // A zero fee is stored as no fee, so every path records the same row
+    const feeOf = (field: FeeField) => input[field] ? input[field]! : null;
+
+    return {
+        side: input.side,
+        transaction_date: new Date(input.transaction_date).toISOString(),
+        symbol: input.symbol.toUpperCase().trim(),
+        shares,
+        total_amount,
+        executed_price: price,
+        commission: feeOf('commission'),
+        vat: feeOf('vat'),
+        fee: feeOf('fee'),
+        sec_fee: feeOf('sec_fee'),
+        taf_fee: feeOf('taf_fee'),
+        input_amount_usd: input.side === 'BUY' ? input.input_amount_usd! : null,
+        input_shares: input.side === 'SELL' ? shares : null,
+        stock_amount,
+        currency: 'USD',
+    };
+}
+
+const toNumber = (value: unknown): number | null =>
+    value == null || value === '' ? null : Number(value);
+
+/**
+ * Reads one trade from pasted or OCR'd JSON. Slips show fees on a SELL as
+ * negatives, so fees (and the price) are taken as magnitudes; anything else
+ * wrong is left for validateTrade to report.
+ */
+export function tradeInputFromJson(raw: unknown): TradeInput {
+    const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const magnitude = (value: unknown) => {
+        const number = toNumber(value);
+        return number == null ? null : Math.abs(number);
+    };
+
+    const input: TradeInput = {
+        side: String(item.side ?? '').toUpperCase().trim() as TradeSide,
+        transaction_date: String(item.transaction_date ?? ''),
+        symbol: String(item.symbol ?? '').toUpperCase().trim(),
+        executed_price: magnitude(item.executed_price) ?? NaN,
+        input_amount_usd: toNumber(item.input_amount_usd),
+        input_shares: toNumber(item.input_shares),
+    };
+    FEE_FIELDS.forEach(field => { input[field] = magnitude(item[field]); });
+    return input;
+}
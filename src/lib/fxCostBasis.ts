@@ -0,0 +1,119 @@
+import { readConversions } from './fxPairs';
+import type { PantagonUSD } from '../types';
+
+// Cost basis of foreign currency in THB. Conversions into the currency are
+// buys (its THB value paid for the units received); conversions out of it
+// are sells. Each sell is matched against earlier buys to give the THB gain
+// or loss it realized. A cross pair counts on both sides at its THB value;
+// one with no rate can't size what was sold and is skipped.
+
+export type CostMethod = 'fifo' | 'weighted';
+
+export const COST_METHODS: { value: CostMethod; label: string }[] = [
+    { value: 'fifo', label: 'FIFO' },
+    { value: 'weighted', label: 'Weighted avg' },
+];
+
+export interface FxLot {
+    row: PantagonUSD; // the buy; for 'weighted' the latest buy in the pool
+    units: number;    // foreign units still held from it
+    cost: number;     // THB cost of those units
+}
+
+export interface RealizedSale {
+    row: PantagonUSD;
+    units: number;     // foreign units sold
+    proceeds: number;  // THB received
+    cost: number;      // THB cost of the matched units
+    gain: number;      // proceeds of the matched units - cost
+    unmatched: number; // units sold beyond recorded holdings; left out of gain
+}
+
+export interface CostBasis {
+    currency: string;
+    method: CostMethod;
+    sales: RealizedSale[]; // oldest first
+    lots: FxLot[];         // what is still held, oldest first
+    held: number;
+    heldCost: number;
+    averageCost: number;   // THB per unit still held; 0 when nothing is held
+}
+
+export interface RealizedPeriod {
+    key: string; // 'YYYY' or 'YYYY-MM'
+    proceeds: number;
+    cost: number;
+    gain: number;
+    count: number;
+}
+
+const chronological = (a: PantagonUSD, b: PantagonUSD) =>
+    a.transaction_at.localeCompare(b.transaction_at) || a.id - b.id;
+
+export function computeCostBasis(rows: PantagonUSD[], currency: string, method: CostMethod): CostBasis {
+    let lots: FxLot[] = [];
+    const sales: RealizedSale[] = [];
+
+    readConversions(rows).sort((a, b) => chronological(a.row, b.row)).forEach(({ row, from, to, thb }) => {
+        if (to.currency === currency) {
+            const units = to.amount;
+            if (method === 'weighted' && lots.length > 0) {
+                // One pool: the average cost moves with every buy
+                lots = [{ row, units: lots[0].units + units, cost: lots[0].cost + thb }];
+            } else {
+                lots.push({ row, units, cost: thb });
+            }
+            return;
+        }
+        if (from?.currency !== currency) return;
+
+        const units = from.amount;
+        let remaining = units;
+        let cost = 0;
+        while (remaining > 1e-9 && lots.length > 0) {
+            const lot = lots[0];
+            const taken = Math.min(remaining, lot.units);
+            const takenCost = lot.cost * taken / lot.units;
+            cost += takenCost;
+            remaining -= taken;
+            lot.units -= taken;
+            lot.cost -= takenCost;
+            if (lot.units <= 1e-9) lots.shift();
+        }
+
+        const unmatched = remaining > 1e-9 ? remaining : 0;
+        const matchedProceeds = thb * (units - unmatched) / units;
+        sales.push({ row, units, proceeds: thb, cost, gain: matchedProceeds - cost, unmatched });
+    });
+
+    const held = lots.reduce((sum, lot) => sum + lot.units, 0);
+    const heldCost = lots.reduce((sum, lot) => sum + lot.cost, 0);
+    return { currency, method, sales, lots, held, heldCost, averageCost: held > 0 ? heldCost / held : 0 };
+}
+
+// Grouped in local time, matching how FXPage files conversions under a month
+function periodKey(iso: string, granularity: 'month' | 'year'): string {
+    const date = new Date(iso);
+    const year = String(date.getFullYear());
+    return granularity === 'year' ? year : `${year}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/** Realized totals per month or year, newest first. */
+export function realizedByPeriod(sales: RealizedSale[], granularity: 'month' | 'year'): RealizedPeriod[] {
+    const periods: Record<string, RealizedPeriod> = {};
+    sales.forEach(sale => {
+        const key = periodKey(sale.row.transaction_at, granularity);
+        const period = periods[key] ??= { key, proceeds: 0, cost: 0, gain: 0, count: 0 };
+        period.proceeds += sale.proceeds;
+        period.cost += sale.cost;
+        period.gain += sale.gain;
+        period.count += 1;
+    });
+    return Object.values(periods).sort((a, b) => b.key.localeCompare(a.key));
+}
+
+/** Value of what is still held at `rate` THB per unit, against its cost. */
+export function unrealizedGain(basis: CostBasis, rate: number): { value: number; gain: number } {
+    const value = basis.held * rate;
+    return { value, gain: value - basis.heldCost };
+}
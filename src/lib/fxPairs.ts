@@ -0,0 +1,184 @@
+import type { PantagonUSD } from '../types';
+
+// How a pantagon_usd row reads. thb_amount is always the THB value of the
+// conversion. When THB is one side, foreign_amount is the other side and
+// exchange_rate is THB per unit of it. A cross pair (neither side THB, e.g.
+// USD→JPY) records the to_currency amount in foreign_amount and quotes
+// exchange_rate as to_currency per from_currency, so the amount given up is
+// foreign_amount / exchange_rate.
+
+export const HOME_CURRENCY = 'THB';
+
+/** 1 `base` = rate `quote`. */
+export interface RateDirection {
+    base: string;
+    quote: string;
+}
+
+export interface ConversionLeg {
+    currency: string;
+    amount: number;
+}
+
+export interface Conversion {
+    row: PantagonUSD;
+    from: ConversionLeg | null; // null when a cross pair has no rate to size it
+    to: ConversionLeg;
+    thb: number;                // THB value of the conversion
+    direction: RateDirection;
+    rate: number | null;        // in `direction`; null for a cross pair without one
+}
+
+export interface CurrencyFlow {
+    currency: string;
+    bought: number;         // units received
+    sold: number;           // units given up (sized conversions only)
+    thbPaid: number;        // THB spent buying it directly
+    thbReceived: number;    // THB received selling it directly
+    averageRate: number | null; // THB per unit over its THB conversions; null without any
+    count: number;
+    unsized: number;        // cross conversions out of it with no rate, left out of `sold`
+}
+
+export interface PairFlow {
+    direction: RateDirection; // as first recorded
+    baseAmount: number;
+    quoteAmount: number;
+    averageRate: number | null; // quote per base
+    count: number;
+}
+
+export const isCrossPair = (from: string, to: string) =>
+    from !== HOME_CURRENCY && to !== HOME_CURRENCY;
+
+export function rateDirection(from: string, to: string): RateDirection {
+    if (!isCrossPair(from, to)) return { base: from === HOME_CURRENCY ? to : from, quote: HOME_CURRENCY };
+    return { base: from, quote: to };
+}
+
+/** The currency foreign_amount is counted in. */
+export const foreignCurrency = (from: string, to: string) =>
+    isCrossPair(from, to) || from === HOME_CURRENCY ? to : from;
+
+export const rateLabel = ({ base, quote }: RateDirection) => `${quote} per ${base}`;
+
+/** The row as two sized legs, or null when it cannot be read as a conversion. */
+export function readConversion(row: PantagonUSD): Conversion | null {
+    const { from_currency: from, to_currency: to } = row;
+    const thb = Number(row.thb_amount);
+    const foreign = Number(row.foreign_amount);
+    if (!from || !to || from === to || !(foreign > 0) || !(thb >= 0)) return null;
+
+    const direction = rateDirection(from, to);
+    const entered = Number(row.exchange_rate);
+
+    if (!isCrossPair(from, to)) {
+        if (!(thb > 0)) return null;
+        const fromAmount = from === HOME_CURRENCY ? thb : foreign;
+        const toAmount = to === HOME_CURRENCY ? thb : foreign;
+        return {
+            row,
+            from: { currency: from, amount: fromAmount },
+            to: { currency: to, amount: toAmount },
+            thb,
+            direction,
+            rate: entered > 0 ? entered : thb / foreign,
+        };
+    }
+
+    return {
+        row,
+        from: entered > 0 ? { currency: from, amount: foreign / entered } : null,
+        to: { currency: to, amount: foreign },
+        thb,
+        direction,
+        rate: entered > 0 ? entered : null,
+    };
+}
+
+/** THB per unit of `currency` implied by one conversion, or null if it has no such leg. */
+export function thbPerUnit(conversion: Conversion, currency: string): number | null {
+    if (currency === HOME_CURRENCY) return 1;
+    const leg = conversion.to.currency === currency ? conversion.to
+        : conversion.from?.currency === currency ? conversion.from : null;
+    if (!leg || !(conversion.thb > 0)) return null;
+    const { from_currency, to_currency } = conversion.row;
+    return isCrossPair(from_currency, to_currency) ? conversion.thb / leg.amount : conversion.rate;
+}
+
+export function readConversions(rows: PantagonUSD[]): Conversion[] {
+    return rows.map(readConversion).filter((c): c is Conversion => c !== null);
+}
+
+/**
+ * In/out volumes per non-THB currency, each in its own units. The average
+ * rate only pools conversions against THB, so cross pairs move volumes but
+ * never skew it.
+ */
+export function currencyFlows(rows: PantagonUSD[]): CurrencyFlow[] {
+    const flows: Record<string, CurrencyFlow & { thbUnits: number }> = {};
+    const flowOf = (currency: string) => flows[currency] ??= {
+        currency, bought: 0, sold: 0, thbPaid: 0, thbReceived: 0, averageRate: null, count: 0, unsized: 0, thbUnits: 0,
+    };
+
+    readConversions(rows).forEach(conversion => {
+        const { row, from, to, thb } = conversion;
+        const cross = isCrossPair(row.from_currency, row.to_currency);
+
+        if (to.currency !== HOME_CURRENCY) {
+            const flow = flowOf(to.currency);
+            flow.bought += to.amount;
+            flow.count += 1;
+            if (!cross) {
+                flow.thbPaid += thb;
+                flow.thbUnits += to.amount;
+            }
+        }
+        if (row.from_currency !== HOME_CURRENCY) {
+            const flow = flowOf(row.from_currency);
+            flow.count += 1;
+            if (!from) {
+                flow.unsized += 1;
+            } else {
+                flow.sold += from.amount;
+                if (!cross) {
+                    flow.thbReceived += thb;
+                    flow.thbUnits += from.amount;
+                }
+            }
+        }
+    });
+
+    return Object.values(flows)
+        .map(({ thbUnits, ...flow }) => ({
+            ...flow,
+            averageRate: thbUnits > 0 ? (flow.thbPaid + flow.thbReceived) / thbUnits : null,
+        }))
+        .sort((a, b) => a.currency.localeCompare(b.currency));
+}
+
+/**
+ * Volumes and average rate per cross pair. Conversions in either direction
+ * land on the same pair, quoted the way it was first recorded.
+ */
+export function crossPairFlows(rows: PantagonUSD[]): PairFlow[] {
+    const pairs: Record<string, PairFlow> = {};
+
+    readConversions(rows)
+        .filter(c => isCrossPair(c.row.from_currency, c.row.to_currency))
+        .sort((a, b) => a.row.transaction_at.localeCompare(b.row.transaction_at) || a.row.id - b.row.id)
+        .forEach(({ from, to, direction, row }) => {
+            const key = [row.from_currency, row.to_currency].sort().join('/');
+            const pair = pairs[key] ??= { direction, baseAmount: 0, quoteAmount: 0, averageRate: null, count: 0 };
+            pair.count += 1;
+            if (!from) return;
+            const base = from.currency === pair.direction.base ? from : to;
+            const quote = base === from ? to : from;
+            pair.baseAmount += base.amount;
+            pair.quoteAmount += quote.amount;
+        });
+
+    return Object.values(pairs)
+        .map(pair => ({ ...pair, averageRate: pair.baseAmount > 0 ? pair.quoteAmount / pair.baseAmount : null }))
+        .sort((a, b) => rateLabel(a.direction).localeCompare(rateLabel(b.direction)));
+}
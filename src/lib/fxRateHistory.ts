@@ -0,0 +1,56 @@
+import { readConversions, thbPerUnit } from './fxPairs';
+import type { PantagonUSD } from '../types';
+
+export const MOVING_AVERAGE_WINDOW = 5;
+
+export interface RatePoint {
+    row: PantagonUSD;
+    side: 'buy' | 'sell';
+    rate: number;               // THB per unit for this conversion
+    averageCost: number | null; // weighted-average cost of the units held after it; null when none are
+    movingAverage: number;      // mean rate of the last MOVING_AVERAGE_WINDOW conversions
+}
+
+/**
+ * One point per buy or sell of `currency`, oldest first. The average cost
+ * pools every buy (sells leave it unchanged), so a buy below the line lowers
+ * it and a sell above it realizes a gain.
+ */
+export function buildRateHistory(rows: PantagonUSD[], currency: string): RatePoint[] {
+    const points: RatePoint[] = [];
+    const recent: number[] = [];
+    let units = 0;
+    let cost = 0;
+
+    readConversions(rows)
+        .sort((a, b) => a.row.transaction_at.localeCompare(b.row.transaction_at) || a.row.id - b.row.id)
+        .forEach(conversion => {
+            const { row, from, to, thb } = conversion;
+            const leg = to.currency === currency ? to : from?.currency === currency ? from : null;
+            const rate = leg && thbPerUnit(conversion, currency);
+            if (!leg || !rate) return;
+
+            const side = leg === to ? 'buy' : 'sell';
+            if (side === 'buy') {
+                units += leg.amount;
+                cost += thb;
+            } else if (units > 0) {
+                const sold = Math.min(leg.amount, units);
+                cost -= cost * sold / units;
+                units -= sold;
+            }
+
+            recent.push(rate);
+            if (recent.length > MOVING_AVERAGE_WINDOW) recent.shift();
+
+            points.push({
+                row,
+                side,
+                rate,
+                averageCost: units > 1e-9 ? cost / units : null,
+                movingAverage: recent.reduce((sum, value) => sum + value, 0) / recent.length,
+            });
+        });
+
+    return points;
+}
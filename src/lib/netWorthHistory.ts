@@ -0,0 +1,107 @@
+import type { PantagonAsset } from '../types';
+
+export type HistoryRange = '1M' | '6M' | 'YTD' | '1Y' | 'All';
+
+export const HISTORY_RANGES: HistoryRange[] = ['1M', '6M', 'YTD', '1Y', 'All'];
+
+export interface BalancePoint {
+    key: string;   // 'YYYY-MM-DD' for daily buckets, 'YYYY-MM' for monthly ones
+    date: string;  // last day covered by the bucket, 'YYYY-MM-DD'
+    total: number;
+    balances: Record<string, number>;
+}
+
+export interface BalanceHistory {
+    granularity: 'day' | 'month';
+    accounts: string[];
+    points: BalancePoint[];
+}
+
+// Local-time 'YYYY-MM-DD' (toISOString would shift the day east of UTC)
+function toISODate(d: Date): string {
+    const month = String(d.getMonth() + 1).padStart(2, '0');
+    const day = String(d.getDate()).padStart(2, '0');
+    return `${d.getFullYear()}-${month}-${day}`;
+}
+
+function parseISODate(value: string): Date {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day || 1);
+}
+
+export function getRangeStart(range: HistoryRange, today: Date = new Date()): string | null {
+    const d = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    switch (range) {
+        case '1M':
+            d.setMonth(d.getMonth() - 1);
+            break;
+        case '6M':
+            d.setMonth(d.getMonth() - 6);
+            break;
+        case 'YTD':
+            d.setMonth(0, 1);
+            break;
+        case '1Y':
+            d.setFullYear(d.getFullYear() - 1);
+            break;
+        case 'All':
+            return null;
+    }
+    return toISODate(d);
+}
+
+/**
+ * Rebuilds the running balance of every account from the ledger, sampled at
+ * the end of each day (1M) or month (longer ranges). Entries before the range
+ * start still count towards the opening balance.
+ */
+export function buildBalanceHistory(
+    assets: PantagonAsset[],
+    range: HistoryRange,
+    today: Date = new Date()
+): BalanceHistory {
+    const granularity = range === '1M' ? 'day' : 'month';
+    const sorted = [...assets]
+        .filter(a => a.date)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    const accounts = Array.from(new Set(sorted.map(a => a.account_name || 'Unassigned')));
+    const todayISO = toISODate(today);
+    const start = getRangeStart(range, today) ?? sorted[0]?.date ?? todayISO;
+
+    // Bucket end dates from the range start up to today
+    const bucketEnds: { key: string; date: string }[] = [];
+    if (granularity === 'day') {
+        for (let d = parseISODate(start); toISODate(d) <= todayISO; d.setDate(d.getDate() + 1)) {
+            const iso = toISODate(d);
+            bucketEnds.push({ key: iso, date: iso });
+        }
+    } else {
+        const first = parseISODate(start);
+        for (let d = new Date(first.getFullYear(), first.getMonth(), 1); toISODate(d) <= todayISO; d.setMonth(d.getMonth() + 1)) {
+            const monthEnd = toISODate(new Date(d.getFullYear(), d.getMonth() + 1, 0));
+            bucketEnds.push({
+                key: monthEnd.slice(0, 7),
+                date: monthEnd < todayISO ? monthEnd : todayISO
+            });
+        }
+    }
+
+    const running: Record<string, number> = {};
+    accounts.forEach(name => { running[name] = 0; });
+
+    let cursor = 0;
+    const points = bucketEnds.map(bucket => {
+        while (cursor < sorted.length && sorted[cursor].date <= bucket.date) {
+            const item = sorted[cursor];
+            const amount = Number(item.amount);
+            running[item.account_name || 'Unassigned'] += item.type === 'IN' ? amount : -amount;
+            cursor++;
+        }
+        const balances = { ...running };
+        const total = Object.values(balances).reduce((sum, value) => sum + value, 0);
+        return { key: bucket.key, date: bucket.date, total, balances };
+    });
+
+    return { granularity, accounts, points };
+}
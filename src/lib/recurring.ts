@@ -0,0 +1,136 @@
+import { assetsRepository } from '../data/assetsRepository';
+import { recurringRepository } from '../data/recurringRepository';
+import type { PantagonRecurring } from '../types';
+
+export type Cadence = PantagonRecurring['cadence'];
+
+export const CADENCES: { value: Cadence; label: string }[] = [
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'yearly', label: 'Yearly' },
+];
+
+export interface Occurrence {
+    template: PantagonRecurring;
+    date: string; // scheduled date, YYYY-MM-DD
+}
+
+export function occurrenceKey(templateId: number, date: string): string {
+    return `${templateId}:${date}`;
+}
+
+const toIsoDate = (year: number, month: number, day: number) =>
+    `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Month-based cadences keep the start day, clamped to short months (31st -> 28th/29th/30th)
+function nthOccurrence(template: PantagonRecurring, n: number): string {
+    const [year, month, day] = template.start_date.split('-').map(Number);
+
+    if (template.cadence === 'weekly') {
+        const date = new Date(Date.UTC(year, month - 1, day + n * 7));
+        return date.toISOString().split('T')[0];
+    }
+
+    const monthsAhead = template.cadence === 'yearly' ? n * 12 : n;
+    const targetYear = year + Math.floor((month - 1 + monthsAhead) / 12);
+    const targetMonth = ((month - 1 + monthsAhead) % 12) + 1;
+    return toIsoDate(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)));
+}
+
+// Scheduled dates from the template start up to `until` (inclusive), honouring end_date
+export function occurrenceDates(template: PantagonRecurring, until: string): string[] {
+    const last = template.end_date && template.end_date < until ? template.end_date : until;
+    const dates: string[] = [];
+    for (let n = 0; ; n++) {
+        const date = nthOccurrence(template, n);
+        if (date > last) break;
+        dates.push(date);
+    }
+    return dates;
+}
+
+export function nextOccurrence(template: PantagonRecurring, after: string): string | null {
+    for (let n = 0; ; n++) {
+        const date = nthOccurrence(template, n);
+        if (template.end_date && date > template.end_date) return null;
+        if (date > after) return date;
+    }
+}
+
+/**
+ * Occurrences of active templates up to `today` that were neither posted nor
+ * skipped. `handled` holds occurrenceKey()s of both.
+ */
+export function dueOccurrences(templates: PantagonRecurring[], handled: Set<string>, today: string): Occurrence[] {
+    return templates
+        .filter(template => template.active)
+        .flatMap(template => occurrenceDates(template, today)
+            .filter(date => !handled.has(occurrenceKey(template.id, date)))
+            .map(date => ({ template, date })))
+        .sort((a, b) => a.date.localeCompare(b.date) || a.template.name.localeCompare(b.template.name));
+}
+
+export async function fetchRecurring(): Promise<PantagonRecurring[]> {
+    try {
+        return await recurringRepository.list();
+    } catch (error) {
+        console.error('Error fetching recurring templates:', error);
+        return [];
+    }
+}
+
+// Keys of every occurrence that has already been posted or skipped
+export async function fetchHandledOccurrences(): Promise<Set<string>> {
+    const [posted, skipped] = await Promise.all([
+        assetsRepository.list({ fromRecurring: true }).catch(error => {
+            console.error('Error fetching posted occurrences:', error);
+            return [];
+        }),
+        recurringRepository.listSkips().catch(error => {
+            console.error('Error fetching skipped occurrences:', error);
+            return [];
+        }),
+    ]);
+
+    return new Set([
+        ...posted.map(row => occurrenceKey(row.recurring_id as number, row.recurring_date as string)),
+        ...skipped.map(row => occurrenceKey(row.recurring_id, row.occurrence_date)),
+    ]);
+}
+
+export async function fetchDueOccurrences(today: string): Promise<Occurrence[]> {
+    const [templates, handled] = await Promise.all([fetchRecurring(), fetchHandledOccurrences()]);
+    return dueOccurrences(templates, handled, today);
+}
+
+export interface PostedOccurrence extends Occurrence {
+    amount: number;
+    postedDate: string; // ledger date; defaults to the scheduled date
+}
+
+/**
+ * Posts occurrences to the ledger. The unique (recurring_id, recurring_date)
+ * constraint makes a second post of the same occurrence a no-op, so two open
+ * tabs cannot double-post.
+ */
+export async function postOccurrences(items: PostedOccurrence[]): Promise<void> {
+    const rows = items.map(({ template, date, amount, postedDate }) => ({
+        account_name: template.account_name,
+        type: template.type,
+        amount,
+        date: postedDate,
+        tag: template.tag,
+        note: template.note,
+        currency: template.currency,
+        recurring_id: template.id,
+        recurring_date: date,
+    }));
+
+    await assetsRepository.insertOccurrences(rows);
+}
+
+export function skipOccurrences(items: Occurrence[]): Promise<void> {
+    return recurringRepository.skip(items.map(({ template, date }) => ({ recurring_id: template.id, occurrence_date: date })));
+}
@@ -0,0 +1,49 @@
+import type { OcrLine } from './dimeSlipParser';
+
+// Text recognition for slip screenshots. Tesseract runs in a web worker on
+// the device, so images never leave it. Its worker, engine and language data
+// are copied into the build (see vite.config.ts) and cached by the service
+// worker on the first scan, so later scans work offline and nothing is
+// fetched from a third party. The library is loaded on the first scan to keep
+// it out of the main bundle.
+
+// Dime shows its slips in English or Thai depending on the app language
+const OCR_LANGS = ['eng', 'tha'];
+
+const OCR_ASSETS = `${import.meta.env.BASE_URL}tesseract`;
+
+const OCR_PATHS = {
+    workerPath: `${OCR_ASSETS}/worker.min.js`,
+    // A directory: the engine picks the build the browser supports from it
+    corePath: `${OCR_ASSETS}/core`,
+    langPath: `${OCR_ASSETS}/lang`,
+    // Loaded from its own URL rather than a blob, so the service worker serves it
+    workerBlobURL: false,
+};
+
+/** Text lines of each image, in order; `onProgress` reports images done. */
+export async function recognizeSlips(
+    images: File[],
+    onProgress?: (done: number, total: number) => void,
+): Promise<OcrLine[][]> {
+    const { createWorker } = await import('tesseract.js');
+    const worker = await createWorker(OCR_LANGS, undefined, OCR_PATHS);
+    try {
+        const results: OcrLine[][] = [];
+        for (const [i, image] of images.entries()) {
+            onProgress?.(i, images.length);
+            const { data } = await worker.recognize(image, {}, { blocks: true });
+            results.push((data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph =>
+                paragraph.lines.map(line => ({
+                    text: line.text,
+                    confidence: line.confidence,
+                    words: line.words.map(word => ({ text: word.text, confidence: word.confidence })),
+                }))
+            )));
+        }
+        onProgress?.(images.length, images.length);
+        return results;
+    } finally {
+        await worker.terminate();
+    }
+}
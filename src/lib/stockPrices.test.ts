@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { mergeQuotes } from './stockPrices';
+import type { StockQuote } from './stockPrices';
+
+const quote = (symbol: string, price: number, asOf: string): StockQuote => ({ symbol, price, asOf, source: 'file' });
+
+describe('mergeQuotes', () => {
+    const book = { VOO: quote('VOO', 500, '2026-10-10T00:00:00.000Z') };
+
+    it('takes quotes as new as or newer than the stored ones', () => {
+        const { book: next, skipped } = mergeQuotes(book, [
+            quote('VOO', 510, '2026-10-17T00:00:00.000Z'),
+            quote('QQQ', 450, '2026-10-01T00:00:00.000Z'),
+        ]);
+        expect(next.VOO.price).toBe(510);
+        expect(next.QQQ.price).toBe(450);
+        expect(skipped).toEqual([]);
+    });
+
+    it('keeps a fresher stored price and reports the quote it skipped', () => {
+        const { book: next, skipped } = mergeQuotes(book, [quote('VOO', 480, '2026-10-01T00:00:00.000Z')]);
+        expect(next.VOO.price).toBe(500);
+        expect(skipped).toEqual(['VOO']);
+    });
+});
@@ -0,0 +1,194 @@
+import { parseAmount, parseDelimited } from './csvImport';
+import type { PortfolioCostBasis, SymbolPosition } from './dimeCostBasis';
+
+// Market prices for Dime holdings. Prices come from a PriceSource and are
+// kept in localStorage, so valuations work offline and survive reloads. The
+// built-in sources are manual entry and an imported JSON/CSV price file; a
+// live feed only has to implement the same interface.
+
+export interface StockQuote {
+    symbol: string;
+    price: number;  // USD per share
+    asOf: string;   // ISO timestamp the price is for
+    source: string; // PriceSource id
+}
+
+export type PriceBook = Record<string, StockQuote>;
+
+export interface PriceSource {
+    id: string;
+    label: string;
+    /** Quotes for whichever of `symbols` the source knows; throws on unreadable input. */
+    getQuotes(symbols: string[]): Promise<StockQuote[]>;
+}
+
+export interface PositionValue {
+    quote: StockQuote | null;
+    marketValue: number | null;
+    unrealized: number | null;
+    returnPct: number | null; // unrealized / cost held
+    weight: number | null;    // share of the priced portfolio's market value
+}
+
+export interface PortfolioValue {
+    positions: Record<string, PositionValue>;
+    marketValue: number;  // priced holdings only
+    pricedCost: number;
+    unrealized: number;
+    returnPct: number | null;
+    asOf: string | null;  // oldest quote used, so the total is no fresher than that
+    unpriced: string[];   // held symbols with no quote
+}
+
+const PRICES_KEY = 'pantagon.dimePrices';
+
+export function loadPriceBook(): PriceBook {
+    try {
+        return JSON.parse(localStorage.getItem(PRICES_KEY) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+export function savePriceBook(book: PriceBook) {
+    localStorage.setItem(PRICES_KEY, JSON.stringify(book));
+}
+
+export interface QuoteMerge {
+    book: PriceBook;
+    skipped: string[]; // symbols whose quote was older than the stored one
+}
+
+/** Newer quotes replace older ones per symbol; a stale import never overwrites a fresher price. */
+export function mergeQuotes(book: PriceBook, quotes: StockQuote[]): QuoteMerge {
+    const next = { ...book };
+    const skipped: string[] = [];
+    quotes.forEach(quote => {
+        const current = next[quote.symbol];
+        if (!current || quote.asOf >= current.asOf) next[quote.symbol] = quote;
+        else skipped.push(quote.symbol);
+    });
+    return { book: next, skipped };
+}
+
+export function manualPriceSource(prices: Record<string, number>, asOf = new Date().toISOString()): PriceSource {
+    return {
+        id: 'manual',
+        label: 'Manual',
+        getQuotes: async (symbols) => symbols
+            .filter(symbol => prices[symbol] > 0)
+            .map(symbol => ({ symbol, price: prices[symbol], asOf, source: 'manual' })),
+    };
+}
+
+function toIso(value: unknown, fallback: string): string {
+    if (value == null || value === '') return fallback;
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? fallback : date.toISOString();
+}
+
+/**
+ * Reads a price file. JSON may be `{ "VOO": 512.3 }`, an array of
+ * `{ symbol, price, asOf? }`, or `{ asOf, prices: ... }` with either inside.
+ * CSV/TSV takes symbol, price and an optional date column, with or without a
+ * header row. Rows without a date use `fileDate`.
+ */
+export function parsePriceFile(text: string, fileDate: string): StockQuote[] {
+    const trimmed = text.trim();
+    if (!trimmed) throw new Error('The price file is empty.');
+
+    const quotes: StockQuote[] = [];
+    const add = (symbol: unknown, price: unknown, asOf: unknown, line: string) => {
+        const sym = String(symbol ?? '').trim().toUpperCase();
+        const value = typeof price === 'number' ? price : parseAmount(String(price ?? ''));
+        if (!sym || value == null || !(value > 0)) throw new Error(`Unreadable price at ${line}.`);
+        quotes.push({ symbol: sym, price: value, asOf: toIso(asOf, fileDate), source: 'file' });
+    };
+
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(trimmed);
+        } catch {
+            throw new Error('The price file is not valid JSON.');
+        }
+        let fallback = fileDate;
+        if (parsed && !Array.isArray(parsed) && typeof parsed === 'object' && 'prices' in parsed) {
+            const wrapper = parsed as { asOf?: unknown; prices: unknown };
+            fallback = toIso(wrapper.asOf, fileDate);
+            parsed = wrapper.prices;
+        }
+        if (Array.isArray(parsed)) {
+            parsed.forEach((entry, i) => {
+                const row = (entry ?? {}) as Record<string, unknown>;
+                add(row.symbol, row.price, row.asOf ?? row.date ?? fallback, `entry ${i + 1}`);
+            });
+        } else if (parsed && typeof parsed === 'object') {
+            Object.entries(parsed).forEach(([symbol, price]) => add(symbol, price, fallback, symbol));
+        } else {
+            throw new Error('The price file has no prices.');
+        }
+        return quotes;
+    }
+
+    const rows = parseDelimited(trimmed).filter(row => row.some(cell => cell.trim()));
+    const hasHeader = rows.length > 0 && parseAmount(rows[0][1] ?? '') == null;
+    rows.slice(hasHeader ? 1 : 0).forEach((row, i) =>
+        add(row[0], row[1], row[2], `line ${i + (hasHeader ? 2 : 1)}`)
+    );
+    if (quotes.length === 0) throw new Error('The price file has no prices.');
+    return quotes;
+}
+
+export function priceFileSource(text: string, fileName: string, fileDate: string): PriceSource {
+    return {
+        id: 'file',
+        label: fileName,
+        getQuotes: async (symbols) => {
+            const wanted = new Set(symbols);
+            return parsePriceFile(text, fileDate).filter(quote => wanted.has(quote.symbol));
+        },
+    };
+}
+
+/** Values every held position at its quote; unpriced holdings stay out of the totals. */
+export function valuePortfolio(basis: PortfolioCostBasis, book: PriceBook): PortfolioValue {
+    const held = basis.positions.filter(p => p.shares > 0);
+    const priced = held.filter(p => book[p.symbol]);
+    const marketValueOf = (p: SymbolPosition) => p.shares * book[p.symbol].price;
+
+    const marketValue = priced.reduce((sum, p) => sum + marketValueOf(p), 0);
+    const pricedCost = priced.reduce((sum, p) => sum + p.cost, 0);
+
+    const positions: Record<string, PositionValue> = {};
+    basis.positions.forEach(p => {
+        const quote = book[p.symbol] ?? null;
+        if (!quote || p.shares <= 0) {
+            positions[p.symbol] = { quote, marketValue: null, unrealized: null, returnPct: null, weight: null };
+            return;
+        }
+        const value = marketValueOf(p);
+        positions[p.symbol] = {
+            quote,
+            marketValue: value,
+            unrealized: value - p.cost,
+            returnPct: p.cost > 0 ? (value - p.cost) / p.cost : null,
+            weight: marketValue > 0 ? value / marketValue : null,
+        };
+    });
+
+    const asOf = priced.reduce<string | null>((oldest, p) => {
+        const at = book[p.symbol].asOf;
+        return !oldest || at < oldest ? at : oldest;
+    }, null);
+
+    return {
+        positions,
+        marketValue,
+        pricedCost,
+        unrealized: marketValue - pricedCost,
+        returnPct: pricedCost > 0 ? (marketValue - pricedCost) / pricedCost : null,
+        asOf,
+        unpriced: held.filter(p => !book[p.symbol]).map(p => p.symbol),
+    };
+}
@@ -0,0 +1,66 @@
+import type { PantagonAsset } from '../types';
+
+export const UNTAGGED = 'Untagged';
+
+export interface TagTotal {
+    tag: string;
+    in: number;
+    out: number;
+    count: number;
+}
+
+export interface PeriodTotal {
+    key: string; // 'YYYY-MM' or 'YYYY'
+    in: number;
+    out: number;
+}
+
+export function tagLabel(tag: string | null): string {
+    return tag?.trim() || UNTAGGED;
+}
+
+// Rows within a year ('All' for any) and month index (null for the whole year)
+export function filterByPeriod(rows: PantagonAsset[], year: string, month: number | null): PantagonAsset[] {
+    return rows.filter(row => {
+        if (year === 'All') return true;
+        if (!row.date.startsWith(year)) return false;
+        return month === null || Number(row.date.slice(5, 7)) - 1 === month;
+    });
+}
+
+export function totalsByTag(rows: PantagonAsset[]): TagTotal[] {
+    const map: Record<string, TagTotal> = {};
+    rows.forEach(row => {
+        const tag = tagLabel(row.tag);
+        const entry = map[tag] ??= { tag, in: 0, out: 0, count: 0 };
+        if (row.type === 'IN') entry.in += Number(row.amount);
+        else entry.out += Number(row.amount);
+        entry.count++;
+    });
+    return Object.values(map);
+}
+
+/**
+ * IN/OUT totals per month of `year`, or per year when `year` is 'All'.
+ * Monthly output always has 12 buckets so charts keep a stable x axis.
+ */
+export function totalsByPeriod(rows: PantagonAsset[], year: string): PeriodTotal[] {
+    const map: Record<string, PeriodTotal> = {};
+
+    if (year !== 'All') {
+        for (let m = 1; m <= 12; m++) {
+            const key = `${year}-${String(m).padStart(2, '0')}`;
+            map[key] = { key, in: 0, out: 0 };
+        }
+    }
+
+    rows.forEach(row => {
+        const key = year === 'All' ? row.date.slice(0, 4) : row.date.slice(0, 7);
+        if (year !== 'All' && !map[key]) return;
+        const entry = map[key] ??= { key, in: 0, out: 0 };
+        if (row.type === 'IN') entry.in += Number(row.amount);
+        else entry.out += Number(row.amount);
+    });
+
+    return Object.values(map).sort((a, b) => a.key.localeCompare(b.key));
+}
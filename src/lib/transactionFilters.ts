@@ -0,0 +1,54 @@
+// Transactions page filters, mirrored in the URL query string so filtered
+// views can be bookmarked: ?q=&account=&tag=&type=&min=&max=&from=&to=
+
+export interface TransactionFilters {
+    q: string;
+    account: string;
+    tag: string;  // exact tag, 'Untagged' for rows without one
+    type: '' | 'IN' | 'OUT';
+    min: string;
+    max: string;
+    from: string; // 'YYYY-MM-DD'
+    to: string;   // 'YYYY-MM-DD'
+}
+
+export const EMPTY_FILTERS: TransactionFilters = {
+    q: '',
+    account: '',
+    tag: '',
+    type: '',
+    min: '',
+    max: '',
+    from: '',
+    to: '',
+};
+
+const FILTER_KEYS = Object.keys(EMPTY_FILTERS) as (keyof TransactionFilters)[];
+
+export function parseFilters(params: URLSearchParams): TransactionFilters {
+    const type = params.get('type');
+    return {
+        q: params.get('q') ?? '',
+        account: params.get('account') ?? '',
+        tag: params.get('tag') ?? '',
+        type: type === 'IN' || type === 'OUT' ? type : '',
+        min: params.get('min') ?? '',
+        max: params.get('max') ?? '',
+        from: params.get('from') ?? '',
+        to: params.get('to') ?? '',
+    };
+}
+
+export function filtersToParams(filters: TransactionFilters): URLSearchParams {
+    const params = new URLSearchParams();
+    FILTER_KEYS.forEach(key => {
+        const value = filters[key].trim();
+        if (value) params.set(key, value);
+    });
+    return params;
+}
+
+// Number of filters set besides the free-text search
+export function countActiveFilters(filters: TransactionFilters): number {
+    return FILTER_KEYS.filter(key => key !== 'q' && filters[key].trim() !== '').length;
+}
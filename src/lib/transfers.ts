@@ -0,0 +1,76 @@
+import { assetsRepository } from '../data/assetsRepository';
+import type { PantagonAsset } from '../types';
+
+// A transfer is stored as two ledger rows sharing a transfer_id: an OUT leg on
+// the source account and an IN leg on the destination. Both legs count towards
+// balances but neither is income or expense.
+
+export interface TransferInput {
+    from: string;
+    to: string;
+    amount: number;         // leaves `from`, in fromCurrency
+    receivedAmount: number; // arrives in `to`, in toCurrency
+    fromCurrency: string;
+    toCurrency: string;
+    date: string;
+    tag: string | null;
+    note: string | null;
+}
+
+export interface TransferLegs {
+    out?: PantagonAsset;
+    in?: PantagonAsset;
+}
+
+export function isTransfer(row: Pick<PantagonAsset, 'transfer_id'>): boolean {
+    return Boolean(row.transfer_id);
+}
+
+export function buildTransferLegs(input: TransferInput, transferId: string) {
+    const shared = { date: input.date, tag: input.tag, note: input.note, transfer_id: transferId };
+    return [
+        { ...shared, account_name: input.from, type: 'OUT' as const, amount: input.amount, currency: input.fromCurrency },
+        { ...shared, account_name: input.to, type: 'IN' as const, amount: input.receivedAmount, currency: input.toCurrency },
+    ];
+}
+
+/**
+ * Writes both legs in a single request so they land (or fail) together.
+ * Passing the existing legs updates them in place instead of inserting.
+ */
+export async function saveTransfer(input: TransferInput, existing?: TransferLegs): Promise<void> {
+    const transferId = existing?.out?.transfer_id ?? existing?.in?.transfer_id ?? crypto.randomUUID();
+    const [outLeg, inLeg] = buildTransferLegs(input, transferId);
+
+    if (existing?.out && existing.in) {
+        await assetsRepository.upsert([{ ...outLeg, id: existing.out.id }, { ...inLeg, id: existing.in.id }]);
+    } else {
+        await assetsRepository.insert([outLeg, inLeg]);
+    }
+}
+
+export function deleteTransfer(transferId: string): Promise<void> {
+    return assetsRepository.removeTransfer(transferId);
+}
+
+export function groupTransferLegs(rows: PantagonAsset[]): Record<string, TransferLegs> {
+    const map: Record<string, TransferLegs> = {};
+    rows.forEach(row => {
+        if (!row.transfer_id) return;
+        const legs = map[row.transfer_id] ??= {};
+        if (row.type === 'OUT') legs.out = row;
+        else legs.in = row;
+    });
+    return map;
+}
+
+export async function fetchTransferLegs(transferIds: string[]): Promise<Record<string, TransferLegs>> {
+    if (transferIds.length === 0) return {};
+
+    try {
+        return groupTransferLegs(await assetsRepository.list({ transferIds: Array.from(new Set(transferIds)) }));
+    } catch (error) {
+        console.error('Error fetching transfer legs:', error);
+        return {};
+    }
+}
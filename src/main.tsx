@@ -3,6 +3,10 @@ import { createRoot } from 'react-dom/client'
 import 'primeicons/primeicons.css'
 import './index.css'
 import App from './App.tsx'
+import { setBackend } from './data/backend'
+import { createDefaultBackend } from './data/defaultBackend'
+
+setBackend(createDefaultBackend())
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
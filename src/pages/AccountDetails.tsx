@@ -1,72 +1,93 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { supabase } from '../supabaseClient';
+import { assetsRepository } from '../data/assetsRepository';
+import { accountsQuery, assetsQuery, fxQuery } from '../data/queries';
+import { useQuery } from '../data/queryCache';
+import { findAccount, getAccountIcon } from '../lib/accounts';
+import { convertAmount, deriveThbRates, formatMoney } from '../lib/currency';
+import type { ThbRates } from '../lib/currency';
+import { deleteTransfer, groupTransferLegs } from '../lib/transfers';
+import { useBaseCurrency } from '../context/baseCurrency';
 import type { PantagonAsset } from '../types';
 
 export default function AccountDetails() {
     const { accountName } = useParams<{ accountName: string }>();
     const navigate = useNavigate();
-    const [assets, setAssets] = useState<PantagonAsset[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [summary, setSummary] = useState({ total: 0, in: 0, out: 0 });
-
-    // Helper to get icon based on account name
-    const getAccountIcon = (accountName: string): string | undefined => {
-        const lowerName = accountName.toLowerCase();
-        if (lowerName.includes('scb')) return '/scb.jpg';
-        if (lowerName.includes('dime')) return '/Dime.png';
-        if (lowerName.includes('kbank') || lowerName.includes('make')) return '/kbank.png';
-        if (lowerName.includes('ttb')) return '/ttb.png';
-        if (lowerName.includes('sso')) return '/SSO.jpg';
-        return undefined;
+    const { baseCurrency, rateMode } = useBaseCurrency();
+    const [deleteId, setDeleteId] = useState<number | null>(null);
+    const allAssetsState = useQuery(assetsQuery);
+    const accountsState = useQuery(accountsQuery);
+    const fxState = useQuery(fxQuery);
+    const loading = allAssetsState.loading || accountsState.loading || fxState.loading;
+
+    // The shared ledger already holds this account's rows and the other leg of each transfer
+    const assets = useMemo(
+        () => (allAssetsState.data ?? []).filter(a => a.account_name === accountName),
+        [allAssetsState.data, accountName]
+    );
+    const transfers = useMemo(() => groupTransferLegs(allAssetsState.data ?? []), [allAssetsState.data]);
+    const registry = useMemo(() => accountsState.data ?? [], [accountsState.data]);
+    const fxHistory = useMemo(() => fxState.data ?? [], [fxState.data]);
+
+    const returnTo = `/account/${encodeURIComponent(accountName ?? '')}`;
+
+    const handleEdit = (item: PantagonAsset) => {
+        navigate(`/edit/${item.id}`, { state: { asset: item, returnTo } });
     };
 
-    useEffect(() => {
-        if (accountName) {
-            fetchAccountAssets(accountName);
-        }
-    }, [accountName]);
-
-    const fetchAccountAssets = async (name: string) => {
-        setLoading(true);
-        const { data, error } = await supabase
-            .from('pantagon_assets')
-            .select('*')
-            .eq('account_name', name)
-            .order('date', { ascending: false })
-            .order('id', { ascending: false });
-
-        if (error) {
-            console.error('Error fetching account assets:', error);
-        } else {
-            const fetchedAssets = data || [];
-            setAssets(fetchedAssets);
-            calculateSummary(fetchedAssets);
+    const handleDelete = async (item: PantagonAsset) => {
+        try {
+            if (item.transfer_id) await deleteTransfer(item.transfer_id);
+            else await assetsRepository.remove(item.id);
+        } catch (error) {
+            console.error('Error deleting transaction:', error);
+            alert('Delete failed: ' + (error as Error).message);
+            return;
         }
-        setLoading(false);
+        setDeleteId(null);
     };
 
-    const calculateSummary = (data: PantagonAsset[]) => {
+    const rates = useMemo(() => deriveThbRates(fxHistory, rateMode), [fxHistory, rateMode]);
+
+    const accountCurrency = (accountName && findAccount(registry, accountName)?.currency) || assets[0]?.currency || 'THB';
+
+    // Totals in the account's own currency. Transfers move the balance but are
+    // not income or expense.
+    const calculateSummary = (data: PantagonAsset[], currency: string, thbRates: ThbRates) => {
         let total = 0;
         let totalIn = 0;
         let totalOut = 0;
 
         data.forEach(item => {
-            const amount = Number(item.amount);
+            const amount = convertAmount(Number(item.amount), item.currency || 'THB', currency, thbRates) ?? 0;
             if (item.type === 'IN') {
                 total += amount;
-                totalIn += amount;
+                if (!item.transfer_id) totalIn += amount;
             } else {
                 total -= amount;
-                totalOut += amount;
+                if (!item.transfer_id) totalOut += amount;
             }
         });
 
-        setSummary({ total, in: totalIn, out: totalOut });
+        return { total, in: totalIn, out: totalOut };
+    };
+
+    const summary = useMemo(
+        () => calculateSummary(assets, accountCurrency, rates),
+        [assets, accountCurrency, rates]
+    );
+
+    const baseTotal = convertAmount(summary.total, accountCurrency, baseCurrency, rates);
+
+    const formatCurrency = (value: number, currency: string = accountCurrency) => {
+        return formatMoney(value, currency);
     };
 
-    const formatCurrency = (value: number) => {
-        return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+    const transferLabel = (item: PantagonAsset) => {
+        const legs = item.transfer_id ? transfers[item.transfer_id] : undefined;
+        const other = item.type === 'OUT' ? legs?.in : legs?.out;
+        if (!other) return 'Transfer';
+        return item.type === 'OUT' ? `Transfer to ${other.account_name}` : `Transfer from ${other.account_name}`;
     };
 
     const formatDate = (dateString: string) => {
@@ -95,10 +116,10 @@ export default function AccountDetails() {
                         <i className="pi pi-arrow-left"></i>
                     </button>
 
-                    {accountName && getAccountIcon(accountName) && (
+                    {accountName && getAccountIcon(registry, accountName) && (
                         <div className="w-10 h-10 rounded-full overflow-hidden shadow-sm border border-gray-100 flex-shrink-0 bg-white flex items-center justify-center">
                             <img
-                                src={getAccountIcon(accountName)}
+                                src={getAccountIcon(registry, accountName)}
                                 alt={accountName}
                                 className="w-full h-full object-cover"
                                 onError={(e) => {
@@ -114,6 +135,19 @@ export default function AccountDetails() {
                 <div className="bg-white shadow-sm rounded-2xl p-6 border border-gray-100 flex flex-col items-center justify-center">
                     <div className="text-gray-400 text-xs font-bold uppercase tracking-wide mb-1">Total Balance</div>
                     <div className="text-[#001f3f] font-extrabold text-3xl">{formatCurrency(summary.total)}</div>
+                    {accountCurrency !== baseCurrency && baseTotal !== null && (
+                        <div className="text-gray-400 text-xs mt-1">≈ {formatCurrency(baseTotal, baseCurrency)}</div>
+                    )}
+                    <div className="flex gap-6 mt-4 pt-4 border-t border-gray-100 w-full justify-center text-xs">
+                        <div className="flex flex-col items-center">
+                            <span className="text-gray-400 font-bold uppercase tracking-wide text-[10px]">Income</span>
+                            <span className="text-green-600 font-bold">{formatCurrency(summary.in)}</span>
+                        </div>
+                        <div className="flex flex-col items-center">
+                            <span className="text-gray-400 font-bold uppercase tracking-wide text-[10px]">Expense</span>
+                            <span className="text-gray-900 font-bold">{formatCurrency(summary.out)}</span>
+                        </div>
+                    </div>
                 </div>
             </div>
 
@@ -122,7 +156,7 @@ export default function AccountDetails() {
                 <div className="flex justify-between items-center px-2">
                     <h3 className="text-lg font-bold text-gray-800">Transactions</h3>
                     <button
-                        onClick={() => navigate('/add', { state: { accountName } })}
+                        onClick={() => navigate('/add', { state: { accountName, returnTo } })}
                         className="flex items-center gap-1.5 bg-blue-50 text-blue-600 px-3 py-1.5 rounded-full text-xs font-bold hover:bg-blue-100 transition-colors"
                     >
                         <i className="pi pi-plus text-[10px]"></i>
@@ -132,29 +166,55 @@ export default function AccountDetails() {
 
                 <div className="flex flex-col gap-0 backdrop-blur-sm">
                     {assets.map((item) => (
-                        <div key={item.id} className="bg-white p-4 border-b border-gray-100 last:border-0 first:rounded-t-2xl last:rounded-b-2xl flex items-center justify-between hover:bg-gray-50 transition-colors">
-                            <div className="flex items-center gap-4">
-                                {/* Icon */}
-                                <div className={`w-10 h-10 rounded-full flex items-center justify-center ${item.type === 'IN' ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
-                                    <i className={`pi ${item.type === 'IN' ? 'pi-arrow-down-left' : 'pi-arrow-up-right'} text-lg`}></i>
+                        <div key={item.id} className="bg-white border-b border-gray-100 last:border-0 first:rounded-t-2xl last:rounded-b-2xl overflow-hidden">
+                            <div
+                                onClick={() => handleEdit(item)}
+                                className="p-4 flex items-center justify-between hover:bg-gray-50 transition-colors cursor-pointer"
+                            >
+                                <div className="flex items-center gap-4">
+                                    {/* Icon */}
+                                    <div className={`w-10 h-10 rounded-full flex items-center justify-center ${item.transfer_id ? 'bg-blue-100 text-blue-600' : item.type === 'IN' ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
+                                        <i className={`pi ${item.transfer_id ? 'pi-arrow-right-arrow-left' : item.type === 'IN' ? 'pi-arrow-down-left' : 'pi-arrow-up-right'} text-lg`}></i>
+                                    </div>
+
+                                    {/* Info */}
+                                    <div className="flex flex-col items-start gap-0.5">
+                                        <span className="font-bold text-gray-800 text-sm text-left line-clamp-1">
+                                            {item.transfer_id
+                                                ? transferLabel(item)
+                                                : item.tag || (item.type === 'IN' ? 'Income' : 'Expense')}
+                                        </span>
+                                        <span className="text-gray-400 text-xs text-left">
+                                            {formatDate(item.date)}
+                                            {item.note ? ` • ${item.note}` : ''}
+                                        </span>
+                                    </div>
                                 </div>
 
-                                {/* Info */}
-                                <div className="flex flex-col items-start gap-0.5">
-                                    <span className="font-bold text-gray-800 text-sm text-left line-clamp-1">
-                                        {item.tag || (item.type === 'IN' ? 'Income' : 'Expense')}
-                                    </span>
-                                    <span className="text-gray-400 text-xs text-left">
-                                        {formatDate(item.date)}
-                                        {item.note ? ` • ${item.note}` : ''}
-                                    </span>
+                                {/* Amount */}
+                                <div className="flex items-center gap-3">
+                                    <div className={`font-bold text-sm ${item.transfer_id ? 'text-blue-600' : item.type === 'IN' ? 'text-green-600' : 'text-gray-900'}`}>
+                                        {item.type === 'IN' ? '+' : '-'}{formatCurrency(Number(item.amount), item.currency || 'THB')}
+                                    </div>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); setDeleteId(item.id); }}
+                                        className="text-gray-300 hover:text-red-400 transition-colors"
+                                    >
+                                        <i className="pi pi-trash text-xs" />
+                                    </button>
                                 </div>
                             </div>
 
-                            {/* Amount */}
-                            <div className={`font-bold text-sm ${item.type === 'IN' ? 'text-green-600' : 'text-gray-900'}`}>
-                                {item.type === 'IN' ? '+' : '-'}{formatCurrency(Number(item.amount))}
-                            </div>
+                            {/* Delete confirm */}
+                            {deleteId === item.id && (
+                                <div className="bg-red-50 border-t border-red-100 px-4 py-2.5 flex items-center justify-between">
+                                    <span className="text-xs text-red-600 font-medium">{item.transfer_id ? 'Delete both legs of this transfer?' : 'Delete this transaction?'}</span>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => setDeleteId(null)} className="text-xs text-gray-500 px-2 py-1 hover:bg-gray-100 rounded">Cancel</button>
+                                        <button onClick={() => handleDelete(item)} className="text-xs text-white bg-red-500 px-3 py-1 rounded-lg font-semibold">Confirm</button>
+                                    </div>
+                                </div>
+                            )}
                         </div>
                     ))}
 
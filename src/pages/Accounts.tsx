@@ -0,0 +1,373 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { accountsRepository } from '../data/accountsRepository';
+import { assetsRepository } from '../data/assetsRepository';
+import { invalidate } from '../data/queryCache';
+import { ACCOUNT_CATEGORIES, ACCOUNT_ICONS, fetchAccounts } from '../lib/accounts';
+import type { PantagonAccount } from '../types';
+
+interface AccountForm {
+    name: string;
+    institution: string;
+    icon: string;
+    currency: string;
+    category: string;
+}
+
+const EMPTY_FORM: AccountForm = {
+    name: '',
+    institution: '',
+    icon: '',
+    currency: 'THB',
+    category: '',
+};
+
+export default function Accounts() {
+    const navigate = useNavigate();
+    const [accounts, setAccounts] = useState<PantagonAccount[]>([]);
+    const [ledgerNames, setLedgerNames] = useState<string[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    // null = form closed, 'new' = adding, number = editing that account id
+    const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+    const [form, setForm] = useState<AccountForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    // Bumped after every mutation to reload the registry
+    const [refreshKey, setRefreshKey] = useState(0);
+    const refresh = () => setRefreshKey(key => key + 1);
+
+    useEffect(() => {
+        const loadData = async () => {
+            const [fetchedAccounts, ledgerRows] = await Promise.all([
+                fetchAccounts(),
+                assetsRepository.list().catch(error => {
+                    console.error('Error fetching ledger accounts:', error);
+                    return [];
+                })
+            ]);
+
+            setAccounts(fetchedAccounts);
+            setLedgerNames(Array.from(new Set(ledgerRows.map(row => row.account_name))));
+            setLoading(false);
+        };
+
+        loadData();
+    }, [refreshKey]);
+
+    // Account names used in pantagon_assets that have no registry entry yet
+    const unregistered = useMemo(() => {
+        const known = new Set(accounts.map(acc => acc.name));
+        return ledgerNames.filter(name => name && !known.has(name)).sort();
+    }, [accounts, ledgerNames]);
+
+    const openNew = (name = '') => {
+        setEditingId('new');
+        setForm({ ...EMPTY_FORM, name });
+        setSaveError(null);
+    };
+
+    const openEdit = (account: PantagonAccount) => {
+        setEditingId(account.id);
+        setForm({
+            name: account.name,
+            institution: account.institution ?? '',
+            icon: account.icon ?? '',
+            currency: account.currency,
+            category: account.category ?? '',
+        });
+        setSaveError(null);
+    };
+
+    const closeForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+        setSaveError(null);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = form.name.trim();
+        if (!name) {
+            setSaveError('Name is required.');
+            return;
+        }
+
+        const original = typeof editingId === 'number' ? accounts.find(acc => acc.id === editingId) : undefined;
+        if (accounts.some(acc => acc.name === name && acc.id !== original?.id)) {
+            setSaveError(`An account named "${name}" already exists.`);
+            return;
+        }
+
+        const payload = {
+            name,
+            institution: form.institution.trim() || null,
+            icon: form.icon || null,
+            currency: form.currency,
+            category: form.category || null,
+        };
+
+        try {
+            setSaving(true);
+            setSaveError(null);
+
+            if (original) {
+                // The rename carries ledger rows, templates and budgets with it
+                if (original.name !== name) {
+                    await accountsRepository.rename(original.name, name);
+                }
+                await accountsRepository.update(original.id, payload);
+                await invalidate('pantagon_accounts', 'pantagon_assets', 'pantagon_recurring', 'pantagon_budgets');
+            } else {
+                const nextOrder = accounts.reduce((max, acc) => Math.max(max, acc.sort_order), 0) + 1;
+                await accountsRepository.insert({ ...payload, sort_order: nextOrder });
+            }
+
+            closeForm();
+            refresh();
+        } catch (err) {
+            setSaveError((err as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleMove = async (index: number, direction: -1 | 1) => {
+        const a = accounts[index];
+        const b = accounts[index + direction];
+        if (!a || !b) return;
+
+        // Equal sort orders (e.g. freshly added rows) would not swap, so fall back to list positions
+        const orderA = a.sort_order !== b.sort_order ? a.sort_order : index;
+        const orderB = a.sort_order !== b.sort_order ? b.sort_order : index + direction;
+
+        try {
+            await accountsRepository.upsert([
+                { ...a, sort_order: orderB },
+                { ...b, sort_order: orderA }
+            ]);
+        } catch (error) {
+            console.error('Error reordering accounts:', error);
+            alert('Reorder failed: ' + (error as Error).message);
+            return;
+        }
+        refresh();
+    };
+
+    const handleArchive = async (account: PantagonAccount) => {
+        try {
+            await accountsRepository.update(account.id, { archived: !account.archived });
+        } catch (error) {
+            console.error('Error archiving account:', error);
+            alert('Update failed: ' + (error as Error).message);
+            return;
+        }
+        refresh();
+    };
+
+    if (loading) {
+        return <div className="flex justify-center items-center min-h-screen text-gray-400 font-sans text-sm">Loading...</div>;
+    }
+
+    const renderForm = () => (
+        <form onSubmit={handleSave} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-col gap-3">
+            <h2 className="text-sm font-bold text-[#001f3f]">{editingId === 'new' ? 'New Account' : 'Edit Account'}</h2>
+
+            <div>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Name</label>
+                <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none font-semibold"
+                    placeholder="SCB [Recieve/ Saving]"
+                    required
+                />
+                {typeof editingId === 'number' && accounts.find(acc => acc.id === editingId)?.name !== form.name.trim() && (
+                    <p className="text-[10px] text-amber-600 mt-1 ml-1">Existing transactions will be moved to the new name.</p>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Institution</label>
+                    <input
+                        type="text"
+                        value={form.institution}
+                        onChange={(e) => setForm({ ...form, institution: e.target.value })}
+                        className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                        placeholder="SCB"
+                    />
+                </div>
+                <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Icon</label>
+                    <select
+                        value={form.icon}
+                        onChange={(e) => setForm({ ...form, icon: e.target.value })}
+                        className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                        <option value="">None</option>
+                        {ACCOUNT_ICONS.map(icon => (
+                            <option key={icon.value} value={icon.value}>{icon.label}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Currency</label>
+                    <select
+                        value={form.currency}
+                        onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                        className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none font-semibold"
+                    >
+                        {['THB', 'USD'].map(currency => (
+                            <option key={currency} value={currency}>{currency}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Category</label>
+                    <select
+                        value={form.category}
+                        onChange={(e) => setForm({ ...form, category: e.target.value })}
+                        className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                        <option value="">None</option>
+                        {ACCOUNT_CATEGORIES.map(category => (
+                            <option key={category} value={category}>{category}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            {saveError && (
+                <p className="text-xs text-red-500 bg-red-50 px-3 py-2 rounded-lg">{saveError}</p>
+            )}
+
+            <div className="flex gap-2">
+                <button
+                    type="button"
+                    onClick={closeForm}
+                    className="flex-1 py-2.5 rounded-xl text-sm font-bold bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex-1 py-2.5 rounded-xl text-sm font-bold bg-[#001f3f] text-white hover:bg-[#002f5f] transition-all disabled:opacity-50"
+                >
+                    {saving ? <i className="pi pi-spin pi-spinner"></i> : 'Save Account'}
+                </button>
+            </div>
+        </form>
+    );
+
+    return (
+        <div className="flex flex-col gap-4 max-w-lg mx-auto pb-24 px-4 pt-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => navigate('/')}
+                        className="w-10 h-10 flex items-center justify-center rounded-full bg-white text-gray-600 shadow-sm hover:bg-gray-50 transition-colors border border-gray-100"
+                    >
+                        <i className="pi pi-arrow-left"></i>
+                    </button>
+                    <h2 className="text-xl font-bold text-[#001f3f] m-0">Accounts</h2>
+                </div>
+                {editingId === null && (
+                    <button
+                        onClick={() => openNew()}
+                        className="flex items-center gap-1.5 bg-blue-50 text-blue-600 px-3 py-1.5 rounded-full text-xs font-bold hover:bg-blue-100 transition-colors"
+                    >
+                        <i className="pi pi-plus text-[10px]"></i>
+                        <span>Add</span>
+                    </button>
+                )}
+            </div>
+
+            {editingId !== null && renderForm()}
+
+            <div className="flex flex-col gap-2.5">
+                {accounts.map((account, index) => (
+                    <div
+                        key={account.id}
+                        className={`bg-white rounded-xl p-3 shadow-[0_1px_3px_0_rgba(0,0,0,0.05)] border border-slate-100 flex items-center justify-between ${account.archived ? 'opacity-60' : ''}`}
+                    >
+                        <div className="flex items-center gap-3 flex-1 min-w-0">
+                            <div className="w-9 h-9 rounded-full overflow-hidden border border-slate-50 bg-slate-50 flex-shrink-0 flex items-center justify-center">
+                                {account.icon ? (
+                                    <img src={account.icon} alt={account.name} className="w-full h-full object-cover" />
+                                ) : (
+                                    <i className="pi pi-wallet text-base text-[#001f3f]"></i>
+                                )}
+                            </div>
+                            <div className="flex flex-col items-start min-w-0 pr-2">
+                                <span className="font-semibold text-[#001f3f] text-sm truncate max-w-full leading-tight">{account.name}</span>
+                                <span className="text-gray-400 text-[10px] uppercase tracking-wide mt-0.5">
+                                    {[account.category, account.currency].filter(Boolean).join(' • ')}
+                                    {account.archived ? ' • Archived' : ''}
+                                </span>
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-1 text-gray-400">
+                            <button
+                                onClick={() => handleMove(index, -1)}
+                                disabled={index === 0}
+                                className="w-7 h-7 rounded-full hover:bg-gray-100 hover:text-[#001f3f] disabled:opacity-30 transition-colors"
+                            >
+                                <i className="pi pi-chevron-up text-xs"></i>
+                            </button>
+                            <button
+                                onClick={() => handleMove(index, 1)}
+                                disabled={index === accounts.length - 1}
+                                className="w-7 h-7 rounded-full hover:bg-gray-100 hover:text-[#001f3f] disabled:opacity-30 transition-colors"
+                            >
+                                <i className="pi pi-chevron-down text-xs"></i>
+                            </button>
+                            <button
+                                onClick={() => openEdit(account)}
+                                className="w-7 h-7 rounded-full hover:bg-gray-100 hover:text-[#001f3f] transition-colors"
+                            >
+                                <i className="pi pi-pencil text-xs"></i>
+                            </button>
+                            <button
+                                onClick={() => handleArchive(account)}
+                                className="w-7 h-7 rounded-full hover:bg-gray-100 hover:text-[#001f3f] transition-colors"
+                                title={account.archived ? 'Unarchive' : 'Archive'}
+                            >
+                                <i className={`pi ${account.archived ? 'pi-replay' : 'pi-box'} text-xs`}></i>
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                {accounts.length === 0 && (
+                    <div className="bg-white p-8 rounded-2xl text-center text-gray-500 text-sm shadow-sm">
+                        No accounts yet.
+                    </div>
+                )}
+            </div>
+
+            {unregistered.length > 0 && (
+                <div className="flex flex-col gap-2">
+                    <span className="text-xs font-bold text-[#001f3f] uppercase tracking-wider opacity-70">Not in registry</span>
+                    {unregistered.map(name => (
+                        <div key={name} className="bg-gray-50 rounded-xl p-3 border border-dashed border-gray-200 flex items-center justify-between">
+                            <span className="text-sm text-gray-600 truncate">{name}</span>
+                            <button
+                                onClick={() => openNew(name)}
+                                className="text-xs font-bold text-blue-600 hover:text-blue-700"
+                            >
+                                Register
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,123 +1,277 @@
 
 import { useState, useEffect } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
-import { supabase } from '../supabaseClient';
+import { useNavigate, useLocation, useParams } from 'react-router-dom';
+import { assetsRepository } from '../data/assetsRepository';
+import { invalidate } from '../data/queryCache';
+import { fetchAccounts, findAccount } from '../lib/accounts';
+import { getCurrencySymbol, SUPPORTED_CURRENCIES } from '../lib/currency';
+import { deleteTransfer, fetchTransferLegs, saveTransfer } from '../lib/transfers';
+import type { TransferLegs } from '../lib/transfers';
+import type { PantagonAccount, PantagonAsset } from '../types';
+
+type EntryType = 'IN' | 'OUT' | 'TRANSFER';
+
+const TYPE_OPTIONS: { value: EntryType; label: string; icon: string; active: string; iconActive: string }[] = [
+    { value: 'IN', label: 'Income', icon: 'pi-arrow-down', active: 'text-green-700', iconActive: 'bg-green-100 text-green-600' },
+    { value: 'OUT', label: 'Expense', icon: 'pi-arrow-up', active: 'text-red-700', iconActive: 'bg-red-100 text-red-600' },
+    { value: 'TRANSFER', label: 'Transfer', icon: 'pi-arrow-right-arrow-left', active: 'text-blue-700', iconActive: 'bg-blue-100 text-blue-600' },
+];
 
 export default function AddTransaction() {
     const navigate = useNavigate();
     const location = useLocation();
-    const [accountName, setAccountName] = useState('');
-    const [type, setType] = useState<'IN' | 'OUT'>('IN');
-    const [amount, setAmount] = useState<number | ''>('');
-    const [date, setDate] = useState<string>(new Date().toISOString().split('T')[0]);
-    const [tag, setTag] = useState('');
-    const [note, setNote] = useState('');
+    const { id } = useParams<{ id: string }>();
+    const isEdit = Boolean(id);
+
+    // Edit mode is prefilled from location state when opened from a list,
+    // otherwise the row is fetched by the :id route param. Transfers always
+    // load both legs.
+    const initialAsset: PantagonAsset | undefined = location.state?.asset;
+    const prefilled = initialAsset && !initialAsset.transfer_id ? initialAsset : undefined;
+    const returnTo: string = location.state?.returnTo || '/';
+
+    const [accountName, setAccountName] = useState<string>(prefilled?.account_name ?? location.state?.accountName ?? '');
+    const [type, setType] = useState<EntryType>(prefilled?.type ?? 'IN');
+    const [amount, setAmount] = useState<number | ''>(prefilled ? Number(prefilled.amount) : '');
+    const [date, setDate] = useState<string>(prefilled?.date ?? new Date().toISOString().split('T')[0]);
+    const [tag, setTag] = useState(prefilled?.tag ?? '');
+    const [note, setNote] = useState(prefilled?.note ?? '');
+    // Empty means "use the selected account's currency"
+    const [currency, setCurrency] = useState(prefilled?.currency ?? '');
+    // Transfer destination; the received amount only matters across currencies
+    const [toAccountName, setToAccountName] = useState('');
+    const [receivedAmount, setReceivedAmount] = useState<number | ''>('');
+    const [transferLegs, setTransferLegs] = useState<TransferLegs | null>(null);
     const [loading, setLoading] = useState(false);
+    const [fetching, setFetching] = useState(isEdit && !prefilled);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+    const [registry, setRegistry] = useState<PantagonAccount[]>([]);
+
+    useEffect(() => {
+        fetchAccounts().then(setRegistry);
+    }, []);
 
     useEffect(() => {
-        if (location.state?.accountName) {
-            setAccountName(location.state.accountName);
+        if (!id || prefilled) return;
+
+        const fetchAsset = async () => {
+            let asset = initialAsset;
+            if (!asset) {
+                try {
+                    asset = await assetsRepository.get(Number(id));
+                } catch (error) {
+                    console.error('Error fetching transaction:', error);
+                    alert('Transaction not found');
+                    navigate(returnTo, { replace: true });
+                    return;
+                }
+            }
+
+            if (asset.transfer_id) {
+                const legs = (await fetchTransferLegs([asset.transfer_id]))[asset.transfer_id];
+                if (!legs?.out || !legs.in) {
+                    alert('Transfer is missing one of its legs');
+                    navigate(returnTo, { replace: true });
+                    return;
+                }
+                setTransferLegs(legs);
+                setType('TRANSFER');
+                setAccountName(legs.out.account_name);
+                setToAccountName(legs.in.account_name);
+                setAmount(Number(legs.out.amount));
+                setReceivedAmount(Number(legs.in.amount));
+                setDate(legs.out.date);
+                setTag(legs.out.tag ?? '');
+                setNote(legs.out.note ?? '');
+                setCurrency(legs.out.currency ?? '');
+                setFetching(false);
+                return;
+            }
+
+            setAccountName(asset.account_name);
+            setType(asset.type);
+            setAmount(Number(asset.amount));
+            setDate(asset.date);
+            setTag(asset.tag ?? '');
+            setNote(asset.note ?? '');
+            setCurrency(asset.currency ?? '');
+            setFetching(false);
+        };
+
+        fetchAsset();
+    }, [id, initialAsset, prefilled, navigate, returnTo]);
+
+    const accountOptions = registry
+        .filter(acc => !acc.archived)
+        .map(acc => acc.name);
+
+    // Keep the current values selectable when editing a row from an archived or legacy account
+    [accountName, toAccountName].forEach(name => {
+        if (name && !accountOptions.includes(name)) accountOptions.push(name);
+    });
+
+    const isTransfer = type === 'TRANSFER';
+    const entryCurrency = currency || findAccount(registry, accountName)?.currency || 'THB';
+    const toCurrency = findAccount(registry, toAccountName)?.currency || transferLegs?.in?.currency || 'THB';
+    const crossCurrency = isTransfer && toAccountName !== '' && toCurrency !== entryCurrency;
+
+    // Edits keep a row on its side of the income/expense vs transfer split
+    const typeOptions = TYPE_OPTIONS.filter(opt =>
+        !isEdit || (transferLegs ? opt.value === 'TRANSFER' : opt.value !== 'TRANSFER'));
+
+    const submitTransfer = async () => {
+        if (!toAccountName || toAccountName === accountName) {
+            alert('Choose a different destination account');
+            return;
         }
-    }, [location.state]);
-
-    const accountOptions = [
-        'SCB [Recieve/ Saving]',
-        'Dime [Invest]',
-        'Dime [Save]',
-        'Dime [FCD]',
-        'KBank Emergency',
-        'Make Monthly Expense',
-        'ttb Emergency Main',
-        'PVD [Kbank]',
-        'SSO'
-    ];
+        const received = crossCurrency ? receivedAmount : amount;
+        if (!received) return;
+
+        setLoading(true);
+        try {
+            await saveTransfer({
+                from: accountName,
+                to: toAccountName,
+                amount: Number(amount),
+                receivedAmount: Number(received),
+                fromCurrency: entryCurrency,
+                toCurrency: crossCurrency ? toCurrency : entryCurrency,
+                date: date,
+                tag: tag || null,
+                note: note || null
+            }, transferLegs ?? undefined);
+        } catch (error) {
+            setLoading(false);
+            console.error(`Error ${isEdit ? 'updating' : 'adding'} transfer:`, error);
+            alert(`Error ${isEdit ? 'updating' : 'adding'} transfer: ` + (error as Error).message);
+            return;
+        }
+        setLoading(false);
+        invalidate('pantagon_assets');
+        navigate(returnTo);
+    };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!accountName || !amount || !date) return;
+        if (type === 'TRANSFER') {
+            await submitTransfer();
+            return;
+        }
 
         setLoading(true);
-        const { error } = await supabase
-            .from('pantagon_assets')
-            .insert([
-                {
-                    account_name: accountName,
-                    type: type,
-                    amount: Number(amount),
-                    date: date,
-                    tag: tag || null,
-                    note: note || null
-                }
-            ]);
+        const payload = {
+            account_name: accountName,
+            type: type,
+            amount: Number(amount),
+            date: date,
+            tag: tag || null,
+            note: note || null,
+            currency: entryCurrency
+        };
 
+        try {
+            if (isEdit) await assetsRepository.update(Number(id), payload);
+            else await assetsRepository.insert([payload]);
+        } catch (error) {
+            setLoading(false);
+            console.error(`Error ${isEdit ? 'updating' : 'adding'} transaction:`, error);
+            alert(`Error ${isEdit ? 'updating' : 'adding'} transaction: ` + (error as Error).message);
+            return;
+        }
         setLoading(false);
+        invalidate('pantagon_assets');
+        navigate(returnTo);
+    };
+
+    const handleDelete = async () => {
+        if (!id) return;
 
-        if (error) {
-            console.error('Error adding transaction:', error);
-            alert('Error adding transaction: ' + error.message);
-        } else {
-            navigate('/');
+        setLoading(true);
+        const transferId = transferLegs?.out?.transfer_id;
+        try {
+            if (transferId) await deleteTransfer(transferId);
+            else await assetsRepository.remove(Number(id));
+        } catch (error) {
+            setLoading(false);
+            console.error('Error deleting transaction:', error);
+            alert('Error deleting transaction: ' + (error as Error).message);
+            return;
         }
+        setLoading(false);
+        invalidate('pantagon_assets');
+        navigate(returnTo);
     };
 
+    if (fetching) {
+        return <div className="flex justify-center items-center min-h-screen text-gray-500 font-sans">Loading transaction...</div>;
+    }
+
     return (
         <div className="flex justify-center">
             <div className="w-full max-w-lg">
                 <div className="bg-white shadow-sm rounded-2xl p-6 mb-20 border border-gray-100">
                     <h2 className="text-xl font-bold text-[#001f3f] mb-6 flex items-center gap-2">
-                        <i className="pi pi-plus-circle text-blue-600"></i>
-                        New Transaction
+                        <i className={`pi ${isEdit ? 'pi-pencil' : 'pi-plus-circle'} text-blue-600`}></i>
+                        {isEdit ? `Edit ${isTransfer ? 'Transfer' : 'Transaction'}` : 'New Transaction'}
                     </h2>
 
                     <form onSubmit={handleSubmit} className="flex flex-col gap-5">
                         <div className="space-y-4">
                             {/* Type Selection */}
-                            <div className="grid grid-cols-2 gap-3 p-1 bg-gray-50 rounded-lg">
-                                <label className={`flex items-center justify-center gap-2 p-3 rounded-md cursor-pointer transition-all ${type === 'IN' ? 'bg-white shadow-sm ring-1 ring-gray-200' : 'text-gray-500 hover:bg-gray-100'}`}>
-                                    <input type="radio" name="type" value="IN" checked={type === 'IN'} onChange={() => setType('IN')} className="hidden" />
-                                    <div className={`w-8 h-8 rounded-full flex items-center justify-center ${type === 'IN' ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-400'}`}>
-                                        <i className="pi pi-arrow-down text-sm font-bold"></i>
-                                    </div>
-                                    <span className={`text-sm font-bold ${type === 'IN' ? 'text-green-700' : 'text-gray-500'}`}>Income</span>
-                                </label>
-                                <label className={`flex items-center justify-center gap-2 p-3 rounded-md cursor-pointer transition-all ${type === 'OUT' ? 'bg-white shadow-sm ring-1 ring-gray-200' : 'text-gray-500 hover:bg-gray-100'}`}>
-                                    <input type="radio" name="type" value="OUT" checked={type === 'OUT'} onChange={() => setType('OUT')} className="hidden" />
-                                    <div className={`w-8 h-8 rounded-full flex items-center justify-center ${type === 'OUT' ? 'bg-red-100 text-red-600' : 'bg-gray-100 text-gray-400'}`}>
-                                        <i className="pi pi-arrow-up text-sm font-bold"></i>
-                                    </div>
-                                    <span className={`text-sm font-bold ${type === 'OUT' ? 'text-red-700' : 'text-gray-500'}`}>Expense</span>
-                                </label>
+                            <div className={`grid ${typeOptions.length === 3 ? 'grid-cols-3' : typeOptions.length === 2 ? 'grid-cols-2' : 'grid-cols-1'} gap-3 p-1 bg-gray-50 rounded-lg`}>
+                                {typeOptions.map(opt => (
+                                    <label key={opt.value} className={`flex items-center justify-center gap-2 p-3 rounded-md cursor-pointer transition-all ${type === opt.value ? 'bg-white shadow-sm ring-1 ring-gray-200' : 'text-gray-500 hover:bg-gray-100'}`}>
+                                        <input type="radio" name="type" value={opt.value} checked={type === opt.value} onChange={() => setType(opt.value)} className="hidden" />
+                                        <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${type === opt.value ? opt.iconActive : 'bg-gray-100 text-gray-400'}`}>
+                                            <i className={`pi ${opt.icon} text-sm font-bold`}></i>
+                                        </div>
+                                        <span className={`text-sm font-bold ${type === opt.value ? opt.active : 'text-gray-500'}`}>{opt.label}</span>
+                                    </label>
+                                ))}
                             </div>
 
                             {/* Amount Input */}
                             <div>
-                                <label htmlFor="amount" className="block text-xs font-bold text-gray-500 uppercase mb-1.5 ml-1">Amount (USD)</label>
+                                <label htmlFor="amount" className="block text-xs font-bold text-gray-500 uppercase mb-1.5 ml-1">Amount ({entryCurrency})</label>
                                 <div className="relative">
                                     <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                                        <span className="text-gray-400 font-bold">$</span>
+                                        <span className="text-gray-400 font-bold">{getCurrencySymbol(entryCurrency)}</span>
                                     </div>
                                     <input
                                         type="number"
                                         id="amount"
                                         value={amount}
                                         onChange={(e) => setAmount(Number(e.target.value) || '')}
-                                        className="pl-7 w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-lg font-semibold text-gray-800 placeholder-gray-300"
+                                        className="pl-7 pr-20 w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-lg font-semibold text-gray-800 placeholder-gray-300"
                                         placeholder="0.00"
                                         step="0.01"
                                         min="0.01"
                                         required
                                     />
+                                    <div className="absolute inset-y-0 right-0 pr-2 flex items-center">
+                                        <select
+                                            value={entryCurrency}
+                                            onChange={(e) => setCurrency(e.target.value)}
+                                            className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-xs font-bold text-gray-600 outline-none"
+                                            aria-label="Currency"
+                                        >
+                                            {Array.from(new Set([...SUPPORTED_CURRENCIES, entryCurrency])).map(code => (
+                                                <option key={code} value={code}>{code}</option>
+                                            ))}
+                                        </select>
+                                    </div>
                                 </div>
                             </div>
 
                             {/* Account Selection */}
                             <div>
-                                <label htmlFor="accountName" className="block text-xs font-bold text-gray-500 uppercase mb-1.5 ml-1">Account</label>
+                                <label htmlFor="accountName" className="block text-xs font-bold text-gray-500 uppercase mb-1.5 ml-1">{isTransfer ? 'From Account' : 'Account'}</label>
                                 <div className="relative">
                                     <select
                                         id="accountName"
                                         value={accountName}
-                                        onChange={(e) => setAccountName(e.target.value)}
+                                        onChange={(e) => { setAccountName(e.target.value); setCurrency(''); }}
                                         className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm font-medium text-gray-700 appearance-none"
                                         required
                                     >
@@ -132,6 +286,51 @@ export default function AddTransaction() {
                                 </div>
                             </div>
 
+                            {isTransfer && (
+                                <div>
+                                    <label htmlFor="toAccountName" className="block text-xs font-bold text-gray-500 uppercase mb-1.5 ml-1">To Account</label>
+                                    <div className="relative">
+                                        <select
+                                            id="toAccountName"
+                                            value={toAccountName}
+                                            onChange={(e) => { setToAccountName(e.target.value); setReceivedAmount(''); }}
+                                            className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm font-medium text-gray-700 appearance-none"
+                                            required
+                                        >
+                                            <option value="" disabled>Select Account</option>
+                                            {accountOptions.filter(opt => opt !== accountName).map(opt => (
+                                                <option key={opt} value={opt}>{opt}</option>
+                                            ))}
+                                        </select>
+                                        <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                                            <i className="pi pi-chevron-down text-gray-400 text-xs"></i>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
+                            {crossCurrency && (
+                                <div>
+                                    <label htmlFor="receivedAmount" className="block text-xs font-bold text-gray-500 uppercase mb-1.5 ml-1">Received ({toCurrency})</label>
+                                    <div className="relative">
+                                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                                            <span className="text-gray-400 font-bold">{getCurrencySymbol(toCurrency)}</span>
+                                        </div>
+                                        <input
+                                            type="number"
+                                            id="receivedAmount"
+                                            value={receivedAmount}
+                                            onChange={(e) => setReceivedAmount(Number(e.target.value) || '')}
+                                            className="pl-7 w-full p-3 bg-gray-50 border border-gray-200 rounded-xl focus:bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition-all text-sm font-semibold text-gray-800 placeholder-gray-300"
+                                            placeholder="0.00"
+                                            step="0.01"
+                                            min="0.01"
+                                            required
+                                        />
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Date Input */}
                             <div>
                                 <label htmlFor="date" className="block text-xs font-bold text-gray-500 uppercase mb-1.5 ml-1">Date</label>
@@ -190,9 +389,30 @@ export default function AddTransaction() {
                                         <i className="pi pi-spin pi-spinner"></i> Saving...
                                     </span>
                                 ) : (
-                                    'Save Transaction'
+                                    `${isEdit ? 'Update' : 'Save'} ${isTransfer ? 'Transfer' : 'Transaction'}`
                                 )}
                             </button>
+
+                            {isEdit && (
+                                confirmDelete ? (
+                                    <div className="mt-3 bg-red-50 border border-red-100 rounded-xl px-4 py-2.5 flex items-center justify-between">
+                                        <span className="text-xs text-red-600 font-medium">{isTransfer ? 'Delete both legs of this transfer?' : 'Delete this transaction?'}</span>
+                                        <div className="flex gap-2">
+                                            <button type="button" onClick={() => setConfirmDelete(false)} className="text-xs text-gray-500 px-2 py-1 hover:bg-gray-100 rounded">Cancel</button>
+                                            <button type="button" onClick={handleDelete} disabled={loading} className="text-xs text-white bg-red-500 px-3 py-1 rounded-lg font-semibold disabled:opacity-50">Confirm</button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        onClick={() => setConfirmDelete(true)}
+                                        disabled={loading}
+                                        className="w-full mt-3 py-3 px-4 rounded-xl text-red-600 font-bold text-sm bg-red-50 hover:bg-red-100 transition-colors flex items-center justify-center gap-2"
+                                    >
+                                        <i className="pi pi-trash"></i> Delete {isTransfer ? 'Transfer' : 'Transaction'}
+                                    </button>
+                                )
+                            )}
                         </div>
                     </form>
                 </div>
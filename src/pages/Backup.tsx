@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    applyTableDiff,
+    BACKUP_TABLES,
+    buildBundle,
+    diffTable,
+    downloadFile,
+    fetchBackupTables,
+    parseBundle,
+    syncIdSequences,
+    toCsv,
+} from '../lib/backup';
+import type { BackupBundle, BackupDiffs, BackupTable, RestoreMode } from '../lib/backup';
+
+const TABLE_LABELS: Record<BackupTable, string> = {
+    pantagon_assets: 'Transactions',
+    pantagon_usd: 'FX Exchanges',
+    dime_transactions: 'Dime Stock',
+};
+
+// Short one-line description of a row for the conflict list
+const describeRow = (table: BackupTable, data: object) => {
+    const row = data as Record<string, unknown>;
+    if (table === 'pantagon_assets') return `${row.date} • ${row.account_name} • ${row.type} ${row.amount}`;
+    if (table === 'pantagon_usd') return `${String(row.transaction_at).slice(0, 10)} • ${row.thb_amount} THB → ${row.foreign_amount} ${row.to_currency}`;
+    return `${String(row.transaction_date).slice(0, 10)} • ${row.side} ${row.symbol ?? ''} ${row.total_amount}`;
+};
+
+export default function Backup() {
+    const navigate = useNavigate();
+    const [exporting, setExporting] = useState<string | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    const [bundle, setBundle] = useState<BackupBundle | null>(null);
+    const [diffs, setDiffs] = useState<BackupDiffs | null>(null);
+    const [restoreError, setRestoreError] = useState<string | null>(null);
+    const [comparing, setComparing] = useState(false);
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+    const [confirmReplace, setConfirmReplace] = useState(false);
+    const [restoring, setRestoring] = useState(false);
+    const [restoreResult, setRestoreResult] = useState<string | null>(null);
+    const [expanded, setExpanded] = useState<BackupTable | null>(null);
+
+    const stamp = () => new Date().toISOString().slice(0, 10);
+
+    const handleExportJson = async () => {
+        try {
+            setExporting('json');
+            setExportError(null);
+            const exported = await buildBundle();
+            downloadFile(`pantagon-backup-${stamp()}.json`, JSON.stringify(exported, null, 2), 'application/json');
+        } catch (err) {
+            setExportError((err as Error).message);
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const handleExportCsv = async (table: BackupTable) => {
+        try {
+            setExporting(table);
+            setExportError(null);
+            const tables = await fetchBackupTables();
+            downloadFile(`${table}-${stamp()}.csv`, toCsv(tables[table]), 'text/csv');
+        } catch (err) {
+            setExportError((err as Error).message);
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setBundle(null);
+        setDiffs(null);
+        setRestoreError(null);
+        setRestoreResult(null);
+        setConfirmReplace(false);
+
+        try {
+            setComparing(true);
+            const parsed = parseBundle(await file.text());
+            const current = await fetchBackupTables();
+            setBundle(parsed);
+            setDiffs({
+                pantagon_assets: diffTable(current.pantagon_assets, parsed.tables.pantagon_assets),
+                pantagon_usd: diffTable(current.pantagon_usd, parsed.tables.pantagon_usd),
+                dime_transactions: diffTable(current.dime_transactions, parsed.tables.dime_transactions),
+            });
+        } catch (err) {
+            setRestoreError((err as Error).message);
+        } finally {
+            setComparing(false);
+        }
+    };
+
+    const handleRestore = async () => {
+        if (!diffs) return;
+        if (mode === 'replace' && !confirmReplace) {
+            setConfirmReplace(true);
+            return;
+        }
+
+        try {
+            setRestoring(true);
+            setRestoreError(null);
+            const results: string[] = [];
+            for (const table of BACKUP_TABLES) {
+                const { written, deleted } = await applyTableDiff(table, diffs[table], mode, overwriteConflicts);
+                results.push(`${TABLE_LABELS[table]}: ${written} written${mode === 'replace' ? `, ${deleted} deleted` : ''}`);
+            }
+            await syncIdSequences();
+            setRestoreResult(results.join(' • '));
+            setBundle(null);
+            setDiffs(null);
+        } catch (err) {
+            setRestoreError((err as Error).message);
+        } finally {
+            setRestoring(false);
+            setConfirmReplace(false);
+        }
+    };
+
+    const labelClass = 'text-xs font-bold text-[#001f3f] uppercase tracking-wider opacity-70';
+
+    return (
+        <div className="flex flex-col gap-4 max-w-lg mx-auto pb-24 px-4 pt-4">
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={() => navigate('/')}
+                    className="w-10 h-10 flex items-center justify-center rounded-full bg-white text-gray-600 shadow-sm hover:bg-gray-50 transition-colors border border-gray-100"
+                >
+                    <i className="pi pi-arrow-left"></i>
+                </button>
+                <h2 className="text-xl font-bold text-[#001f3f] m-0">Backup & Restore</h2>
+            </div>
+
+            {/* Export */}
+            <span className={labelClass}>Export</span>
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-col gap-3">
+                <button
+                    onClick={handleExportJson}
+                    disabled={exporting !== null}
+                    className="w-full py-3 rounded-xl text-sm font-bold bg-[#001f3f] text-white hover:bg-[#002f5f] transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                    <i className={`pi ${exporting === 'json' ? 'pi-spin pi-spinner' : 'pi-download'}`}></i>
+                    Download full backup (JSON)
+                </button>
+                <div className="grid grid-cols-3 gap-2">
+                    {BACKUP_TABLES.map(table => (
+                        <button
+                            key={table}
+                            onClick={() => handleExportCsv(table)}
+                            disabled={exporting !== null}
+                            className="py-2 rounded-xl text-[11px] font-bold bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all disabled:opacity-50"
+                        >
+                            {exporting === table ? <i className="pi pi-spin pi-spinner"></i> : `${TABLE_LABELS[table]} CSV`}
+                        </button>
+                    ))}
+                </div>
+                {exportError && (
+                    <p className="text-xs text-red-500 bg-red-50 px-3 py-2 rounded-lg">{exportError}</p>
+                )}
+            </div>
+
+            {/* Restore */}
+            <span className={labelClass}>Restore</span>
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-col gap-3">
+                <label className="flex items-center justify-center gap-2 w-full py-3 rounded-xl border border-dashed border-gray-300 bg-gray-50 text-xs font-semibold text-gray-500 hover:bg-gray-100 cursor-pointer transition-colors">
+                    <i className={`pi ${comparing ? 'pi-spin pi-spinner' : 'pi-upload'}`}></i>
+                    {comparing ? 'Comparing with database...' : 'Choose backup file (.json)'}
+                    <input
+                        type="file"
+                        accept=".json,application/json"
+                        onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }}
+                        className="hidden"
+                    />
+                </label>
+
+                {restoreError && (
+                    <p className="text-xs text-red-500 bg-red-50 px-3 py-2 rounded-lg">{restoreError}</p>
+                )}
+                {restoreResult && (
+                    <p className="text-xs text-emerald-700 bg-emerald-50 px-3 py-2 rounded-lg flex items-center gap-1">
+                        <i className="pi pi-check-circle" /> Restored. {restoreResult}
+                    </p>
+                )}
+
+                {bundle && diffs && (
+                    <>
+                        <p className="text-[11px] text-gray-400">
+                            Backup from {new Date(bundle.exported_at).toLocaleString('en-GB')} • schema v{bundle.schema_version}
+                        </p>
+
+                        {BACKUP_TABLES.map(table => {
+                            const diff = diffs[table];
+                            return (
+                                <div key={table} className="border border-gray-100 rounded-xl overflow-hidden">
+                                    <div className="px-3 py-2.5 flex items-center justify-between bg-gray-50">
+                                        <span className="text-sm font-semibold text-[#001f3f]">{TABLE_LABELS[table]}</span>
+                                        <span className="text-[10px] text-gray-400">{diff.unchanged} unchanged</span>
+                                    </div>
+                                    <div className="grid grid-cols-4 text-center text-[10px] py-2">
+                                        <div><div className="text-sm font-bold text-green-600">{diff.added.length}</div>New</div>
+                                        <div><div className="text-sm font-bold text-blue-600">{diff.changed.length}</div>Changed</div>
+                                        <button
+                                            onClick={() => setExpanded(expanded === table ? null : table)}
+                                            disabled={diff.conflicts.length === 0}
+                                            className="disabled:cursor-default"
+                                        >
+                                            <div className={`text-sm font-bold ${diff.conflicts.length > 0 ? 'text-amber-600 underline' : 'text-gray-300'}`}>{diff.conflicts.length}</div>Conflicts
+                                        </button>
+                                        <div><div className={`text-sm font-bold ${mode === 'replace' && diff.removed.length > 0 ? 'text-red-600' : 'text-gray-400'}`}>{diff.removed.length}</div>Not in backup</div>
+                                    </div>
+                                    {expanded === table && diff.conflicts.length > 0 && (
+                                        <div className="border-t border-gray-100 max-h-48 overflow-y-auto">
+                                            {diff.conflicts.map(({ current, incoming }) => (
+                                                <div key={String(current.id)} className="px-3 py-2 border-b border-gray-50 last:border-0 text-[10px]">
+                                                    <div className="text-gray-400">id {String(current.id)}</div>
+                                                    <div className="text-gray-600">Current: {describeRow(table, current)}</div>
+                                                    <div className="text-amber-700">Backup: {describeRow(table, incoming)}</div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+
+                        <div className="flex bg-gray-100 rounded-lg p-0.5 gap-0.5">
+                            {([['merge', 'Merge'], ['replace', 'Replace']] as [RestoreMode, string][]).map(([value, label]) => (
+                                <button
+                                    key={value}
+                                    onClick={() => { setMode(value); setConfirmReplace(false); }}
+                                    className={`flex-1 py-1.5 rounded-md text-xs font-bold transition-all ${mode === value ? 'bg-white text-[#001f3f] shadow-sm' : 'text-gray-500'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[11px] text-gray-500 leading-relaxed">
+                            {mode === 'merge'
+                                ? 'Adds new rows and applies changed rows. Rows only in the database are kept.'
+                                : 'Makes every table match the backup exactly. Rows not in the backup are deleted.'}
+                        </p>
+                        {mode === 'merge' && (
+                            <label className="flex items-center gap-2 text-xs font-semibold text-gray-600 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={overwriteConflicts}
+                                    onChange={(e) => setOverwriteConflicts(e.target.checked)}
+                                    className="w-4 h-4 rounded border-gray-300"
+                                />
+                                Overwrite conflicting rows with the backup
+                            </label>
+                        )}
+
+                        {confirmReplace && (
+                            <div className="bg-red-50 border border-red-100 rounded-xl px-4 py-2.5 text-xs text-red-600 font-medium">
+                                This deletes {BACKUP_TABLES.reduce((sum, t) => sum + diffs[t].removed.length, 0)} rows that are not in the backup. Press Restore again to confirm.
+                            </div>
+                        )}
+
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => { setBundle(null); setDiffs(null); setConfirmReplace(false); }}
+                                className="flex-1 py-2.5 rounded-xl text-sm font-bold bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleRestore}
+                                disabled={restoring}
+                                className={`flex-1 py-2.5 rounded-xl text-sm font-bold text-white transition-all disabled:opacity-50 ${mode === 'replace' ? 'bg-red-500 hover:bg-red-600' : 'bg-[#001f3f] hover:bg-[#002f5f]'}`}
+                            >
+                                {restoring ? <i className="pi pi-spin pi-spinner"></i> : 'Restore'}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,480 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { assetsRepository } from '../data/assetsRepository';
+import { budgetsRepository } from '../data/budgetsRepository';
+import { fetchAccounts } from '../lib/accounts';
+import { convertAmount, deriveThbRates, fetchFxHistory, formatMoney, SUPPORTED_CURRENCIES } from '../lib/currency';
+import { budgetStatus, fetchBudgets, isBudgetActive, monthKey, spentByMonth } from '../lib/budgets';
+import { EMPTY_FILTERS, filtersToParams } from '../lib/transactionFilters';
+import { useBaseCurrency } from '../context/baseCurrency';
+import type { PantagonAccount, PantagonAsset, PantagonBudget, PantagonUSD } from '../types';
+
+const MONTHS = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+interface BudgetForm {
+    tag: string;
+    account_name: string;
+    amount: string;
+    currency: string;
+    carry_over: boolean;
+    start_month: string; // 'YYYY-MM'
+}
+
+const EMPTY_FORM: BudgetForm = {
+    tag: '',
+    account_name: '',
+    amount: '',
+    currency: 'THB',
+    carry_over: false,
+    start_month: '',
+};
+
+export default function Budgets() {
+    const navigate = useNavigate();
+    const { baseCurrency, rateMode } = useBaseCurrency();
+    const [budgets, setBudgets] = useState<PantagonBudget[]>([]);
+    const [spending, setSpending] = useState<PantagonAsset[]>([]);
+    const [registry, setRegistry] = useState<PantagonAccount[]>([]);
+    const [fxHistory, setFxHistory] = useState<PantagonUSD[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
+    const [selectedMonth, setSelectedMonth] = useState<number>(new Date().getMonth());
+
+    // null = form closed, 'new' = adding, number = editing that budget id
+    const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+    const [form, setForm] = useState<BudgetForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [deleteId, setDeleteId] = useState<number | null>(null);
+
+    // Bumped after every mutation to reload budgets
+    const [refreshKey, setRefreshKey] = useState(0);
+    const refresh = () => setRefreshKey(key => key + 1);
+
+    useEffect(() => {
+        const loadData = async () => {
+            const [fetchedBudgets, fetchedSpending, fetchedAccounts, fetchedFx] = await Promise.all([
+                fetchBudgets(),
+                assetsRepository.list({ type: 'OUT', excludeTransfers: true, tagged: true }).catch((err: Error) => {
+                    setError(err.message);
+                    return null;
+                }),
+                fetchAccounts(),
+                fetchFxHistory()
+            ]);
+
+            if (fetchedSpending) setSpending(fetchedSpending);
+            setBudgets(fetchedBudgets);
+            setRegistry(fetchedAccounts);
+            setFxHistory(fetchedFx);
+            setLoading(false);
+        };
+
+        loadData();
+    }, [refreshKey]);
+
+    const rates = useMemo(() => deriveThbRates(fxHistory, rateMode), [fxHistory, rateMode]);
+
+    const statuses = useMemo(() => budgets
+        .filter(budget => isBudgetActive(budget, selectedYear, selectedMonth))
+        .map(budget => budgetStatus(
+            budget,
+            spentByMonth(budget, spending, (amount, from, to) => convertAmount(amount, from, to, rates)),
+            selectedYear,
+            selectedMonth
+        ))
+        .sort((a, b) => b.ratio - a.ratio), [budgets, spending, rates, selectedYear, selectedMonth]);
+
+    // Month totals restated in the base currency
+    const totals = useMemo(() => statuses.reduce((acc, status) => {
+        const available = convertAmount(status.available, status.budget.currency, baseCurrency, rates) ?? 0;
+        const spent = convertAmount(status.spent, status.budget.currency, baseCurrency, rates) ?? 0;
+        return { available: acc.available + available, spent: acc.spent + spent };
+    }, { available: 0, spent: 0 }), [statuses, baseCurrency, rates]);
+
+    const knownTags = useMemo(
+        () => Array.from(new Set(spending.map(row => (row.tag ?? '').trim()).filter(Boolean))).sort(),
+        [spending]
+    );
+
+    const handlePrevMonth = () => {
+        if (selectedMonth === 0) {
+            setSelectedMonth(11);
+            setSelectedYear(prev => prev - 1);
+        } else {
+            setSelectedMonth(prev => prev - 1);
+        }
+    };
+
+    const handleNextMonth = () => {
+        if (selectedMonth === 11) {
+            setSelectedMonth(0);
+            setSelectedYear(prev => prev + 1);
+        } else {
+            setSelectedMonth(prev => prev + 1);
+        }
+    };
+
+    const openNew = () => {
+        setEditingId('new');
+        setForm({ ...EMPTY_FORM, currency: baseCurrency, start_month: monthKey(selectedYear, selectedMonth) });
+        setSaveError(null);
+    };
+
+    const openEdit = (budget: PantagonBudget) => {
+        setEditingId(budget.id);
+        setForm({
+            tag: budget.tag,
+            account_name: budget.account_name ?? '',
+            amount: String(budget.amount),
+            currency: budget.currency,
+            carry_over: budget.carry_over,
+            start_month: budget.start_month.slice(0, 7),
+        });
+        setSaveError(null);
+    };
+
+    const closeForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+        setSaveError(null);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const tag = form.tag.trim();
+        if (!tag || !Number(form.amount) || !form.start_month) {
+            setSaveError('Tag, amount and start month are required.');
+            return;
+        }
+        if (budgets.some(b => b.tag === tag && (b.account_name ?? '') === form.account_name && b.id !== editingId)) {
+            setSaveError(`A budget for "${tag}"${form.account_name ? ` on ${form.account_name}` : ''} already exists.`);
+            return;
+        }
+
+        const payload = {
+            tag,
+            account_name: form.account_name || null,
+            amount: Number(form.amount),
+            currency: form.currency,
+            carry_over: form.carry_over,
+            start_month: `${form.start_month}-01`,
+        };
+
+        try {
+            setSaving(true);
+            setSaveError(null);
+
+            if (typeof editingId === 'number') await budgetsRepository.update(editingId, payload);
+            else await budgetsRepository.insert(payload);
+
+            closeForm();
+            refresh();
+        } catch (err) {
+            setSaveError((err as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (id: number) => {
+        try {
+            await budgetsRepository.remove(id);
+        } catch (error) {
+            console.error('Error deleting budget:', error);
+            alert('Delete failed: ' + (error as Error).message);
+            return;
+        }
+        setDeleteId(null);
+        refresh();
+    };
+
+    // Spending behind a budget for the selected month
+    const openTransactions = (budget: PantagonBudget) => {
+        const month = monthKey(selectedYear, selectedMonth);
+        const params = filtersToParams({
+            ...EMPTY_FILTERS,
+            tag: budget.tag,
+            account: budget.account_name ?? '',
+            type: 'OUT',
+            from: `${month}-01`,
+            to: `${month}-${new Date(selectedYear, selectedMonth + 1, 0).getDate()}`,
+        });
+        navigate(`/transactions?${params.toString()}`);
+    };
+
+    const progressColor = (ratio: number) => {
+        if (ratio > 1) return 'bg-red-500';
+        if (ratio >= 0.8) return 'bg-amber-400';
+        return 'bg-green-500';
+    };
+
+    if (loading) return <div className="p-4 text-center">Loading...</div>;
+    if (error) return <div className="p-4 text-center text-red-500">Error: {error}</div>;
+
+    const inputClass = 'w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none';
+    const labelClass = 'block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1';
+    const overBudget = statuses.filter(status => status.ratio > 1).length;
+
+    const renderForm = () => (
+        <form onSubmit={handleSave} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-col gap-3">
+            <h2 className="text-sm font-bold text-[#001f3f]">{editingId === 'new' ? 'New Budget' : 'Edit Budget'}</h2>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Tag</label>
+                    <input
+                        type="text"
+                        list="budget-tags"
+                        value={form.tag}
+                        onChange={(e) => setForm({ ...form, tag: e.target.value })}
+                        className={`${inputClass} font-semibold`}
+                        placeholder="Food"
+                        required
+                    />
+                    <datalist id="budget-tags">
+                        {knownTags.map(tag => <option key={tag} value={tag} />)}
+                    </datalist>
+                </div>
+                <div>
+                    <label className={labelClass}>Account</label>
+                    <select
+                        value={form.account_name}
+                        onChange={(e) => setForm({ ...form, account_name: e.target.value })}
+                        className={inputClass}
+                    >
+                        <option value="">All accounts</option>
+                        {registry.filter(acc => !acc.archived || acc.name === form.account_name).map(acc => (
+                            <option key={acc.id} value={acc.name}>{acc.name}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Monthly Amount</label>
+                    <input
+                        type="number"
+                        value={form.amount}
+                        onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                        className={`${inputClass} font-semibold`}
+                        placeholder="0.00"
+                        step="0.01"
+                        min="0.01"
+                        required
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Currency</label>
+                    <select
+                        value={form.currency}
+                        onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                        className={`${inputClass} font-semibold`}
+                    >
+                        {Array.from(new Set([...SUPPORTED_CURRENCIES, form.currency])).map(code => (
+                            <option key={code} value={code}>{code}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 items-end">
+                <div>
+                    <label className={labelClass}>Starts</label>
+                    <input
+                        type="month"
+                        value={form.start_month}
+                        onChange={(e) => setForm({ ...form, start_month: e.target.value })}
+                        className={inputClass}
+                        required
+                    />
+                </div>
+                <label className="flex items-center gap-2 text-xs font-semibold text-gray-600 py-2.5 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={form.carry_over}
+                        onChange={(e) => setForm({ ...form, carry_over: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300"
+                    />
+                    Carry over leftovers
+                </label>
+            </div>
+
+            {saveError && (
+                <p className="text-xs text-red-500 bg-red-50 px-3 py-2 rounded-lg">{saveError}</p>
+            )}
+
+            <div className="flex gap-2">
+                <button
+                    type="button"
+                    onClick={closeForm}
+                    className="flex-1 py-2.5 rounded-xl text-sm font-bold bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex-1 py-2.5 rounded-xl text-sm font-bold bg-[#001f3f] text-white hover:bg-[#002f5f] transition-all disabled:opacity-50"
+                >
+                    {saving ? <i className="pi pi-spin pi-spinner"></i> : 'Save Budget'}
+                </button>
+            </div>
+        </form>
+    );
+
+    return (
+        <div className="flex flex-col gap-4 max-w-lg mx-auto pb-24 px-4 pt-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => navigate('/')}
+                        className="w-10 h-10 flex items-center justify-center rounded-full bg-white text-gray-600 shadow-sm hover:bg-gray-50 transition-colors border border-gray-100"
+                    >
+                        <i className="pi pi-arrow-left"></i>
+                    </button>
+                    <h2 className="text-xl font-bold text-[#001f3f] m-0">Budgets</h2>
+                </div>
+                {editingId === null && (
+                    <button
+                        onClick={openNew}
+                        className="flex items-center gap-1.5 bg-blue-50 text-blue-600 px-3 py-1.5 rounded-full text-xs font-bold hover:bg-blue-100 transition-colors"
+                    >
+                        <i className="pi pi-plus text-[10px]"></i>
+                        <span>Add</span>
+                    </button>
+                )}
+            </div>
+
+            {editingId !== null && renderForm()}
+
+            {/* Month Nav */}
+            <div className="flex items-center justify-between bg-white p-3 rounded-lg shadow-sm border border-gray-100">
+                <button onClick={handlePrevMonth} className="p-2 text-gray-500 hover:text-[#001f3f] transition-colors">
+                    <i className="pi pi-chevron-left text-xl"></i>
+                </button>
+                <div className="text-center">
+                    <div className="font-bold text-lg text-[#001f3f]">{MONTHS[selectedMonth]}</div>
+                    <div className="text-sm text-gray-500 font-medium">{selectedYear}</div>
+                </div>
+                <button onClick={handleNextMonth} className="p-2 text-gray-500 hover:text-[#001f3f] transition-colors">
+                    <i className="pi pi-chevron-right text-xl"></i>
+                </button>
+            </div>
+
+            {/* Month Summary */}
+            {statuses.length > 0 && (
+                <div className="rounded-2xl bg-[#001f3f] p-5">
+                    <span className="text-[11px] uppercase tracking-widest text-white/60">Spent this month</span>
+                    <div className="mt-1 text-[28px] font-bold text-white">
+                        {formatMoney(totals.spent, baseCurrency)}
+                        <span className="text-sm font-medium text-white/50"> / {formatMoney(totals.available, baseCurrency)}</span>
+                    </div>
+                    <div className="mt-3 h-2 rounded-full bg-white/15 overflow-hidden">
+                        <div
+                            className={`h-full rounded-full ${progressColor(totals.available > 0 ? totals.spent / totals.available : 0)}`}
+                            style={{ width: `${Math.min(100, totals.available > 0 ? (totals.spent / totals.available) * 100 : 0)}%` }}
+                        ></div>
+                    </div>
+                    {overBudget > 0 && (
+                        <div className="mt-2 text-[10px] text-red-300">
+                            {overBudget} budget{overBudget !== 1 ? 's' : ''} over limit
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Budget List */}
+            <div className="flex flex-col gap-2.5">
+                {statuses.map(status => {
+                    const { budget } = status;
+                    const isOver = status.ratio > 1;
+                    return (
+                        <div
+                            key={budget.id}
+                            className={`bg-white rounded-xl shadow-[0_1px_3px_0_rgba(0,0,0,0.05)] border overflow-hidden ${isOver ? 'border-red-200' : 'border-slate-100'}`}
+                        >
+                            <div className="p-3 flex flex-col gap-2">
+                                <div className="flex items-start justify-between">
+                                    <button
+                                        onClick={() => openTransactions(budget)}
+                                        className="flex flex-col items-start min-w-0 pr-2 text-left"
+                                    >
+                                        <span className="font-semibold text-[#001f3f] text-sm truncate max-w-full leading-tight">{budget.tag}</span>
+                                        <span className="text-gray-400 text-[10px] uppercase tracking-wide mt-0.5">
+                                            {budget.account_name || 'All accounts'}
+                                            {budget.carry_over ? ' • Carry over' : ''}
+                                        </span>
+                                    </button>
+                                    <div className="flex items-center gap-1 text-gray-400">
+                                        <button
+                                            onClick={() => openEdit(budget)}
+                                            className="w-7 h-7 rounded-full hover:bg-gray-100 hover:text-[#001f3f] transition-colors"
+                                        >
+                                            <i className="pi pi-pencil text-xs"></i>
+                                        </button>
+                                        <button
+                                            onClick={() => setDeleteId(budget.id)}
+                                            className="w-7 h-7 rounded-full hover:bg-gray-100 hover:text-red-400 transition-colors"
+                                        >
+                                            <i className="pi pi-trash text-xs"></i>
+                                        </button>
+                                    </div>
+                                </div>
+
+                                <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                                    <div
+                                        className={`h-full rounded-full transition-all ${progressColor(status.ratio)}`}
+                                        style={{ width: `${Math.min(100, status.ratio * 100)}%` }}
+                                    ></div>
+                                </div>
+
+                                <div className="flex justify-between items-center text-[11px]">
+                                    <span className="text-gray-500">
+                                        <span className={`font-bold ${isOver ? 'text-red-600' : 'text-gray-800'}`}>{formatMoney(status.spent, budget.currency)}</span>
+                                        {' '}of {formatMoney(status.available, budget.currency)}
+                                    </span>
+                                    <span className={`font-semibold ${isOver ? 'text-red-600' : 'text-green-600'}`}>
+                                        {isOver
+                                            ? `${formatMoney(-status.remaining, budget.currency)} over`
+                                            : `${formatMoney(status.remaining, budget.currency)} left`}
+                                    </span>
+                                </div>
+
+                                {budget.carry_over && Math.abs(status.carried) >= 0.005 && (
+                                    <div className="text-[10px] text-gray-400">
+                                        {formatMoney(Number(budget.amount), budget.currency)} monthly {status.carried >= 0 ? '+' : '−'} {formatMoney(Math.abs(status.carried), budget.currency)} carried {status.carried >= 0 ? 'over' : 'overspend'}
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Delete confirm */}
+                            {deleteId === budget.id && (
+                                <div className="bg-red-50 border-t border-red-100 px-4 py-2.5 flex items-center justify-between">
+                                    <span className="text-xs text-red-600 font-medium">Delete this budget?</span>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => setDeleteId(null)} className="text-xs text-gray-500 px-2 py-1 hover:bg-gray-100 rounded">Cancel</button>
+                                        <button onClick={() => handleDelete(budget.id)} className="text-xs text-white bg-red-500 px-3 py-1 rounded-lg font-semibold">Confirm</button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+
+                {statuses.length === 0 && (
+                    <div className="bg-white p-8 rounded-2xl text-center text-gray-500 text-sm shadow-sm">
+                        <i className="pi pi-wallet text-3xl mb-2 opacity-50 block"></i>
+                        {budgets.length === 0 ? 'No budgets yet.' : `No budgets running in ${MONTHS[selectedMonth]} ${selectedYear}.`}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,98 +1,105 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../supabaseClient';
-import type { PantagonAsset } from '../types';
+import { accountsQuery, assetsQuery, fxQuery } from '../data/queries';
+import { useQuery } from '../data/queryCache';
+import { findAccount, getAccountIcon, getAccountRank } from '../lib/accounts';
+import { convertAmount, deriveThbRates, formatMoney } from '../lib/currency';
+import type { ThbRates } from '../lib/currency';
+import { fetchDueOccurrences } from '../lib/recurring';
+import { useBaseCurrency } from '../context/baseCurrency';
+import NetWorthChart from '../components/NetWorthChart';
+import type { PantagonAccount, PantagonAsset } from '../types';
 
 
 export default function Dashboard() {
     const navigate = useNavigate();
-    const [assets, setAssets] = useState<PantagonAsset[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [totalAssetValue, setTotalAssetValue] = useState(0);
-    const [accounts, setAccounts] = useState<{ name: string; balance: number; type: string }[]>([]);
+    const { baseCurrency, rateMode, setRateMode } = useBaseCurrency();
+    const assetsState = useQuery(assetsQuery);
+    const accountsState = useQuery(accountsQuery);
+    const fxState = useQuery(fxQuery);
+    const [dueCount, setDueCount] = useState(0);
+
+    const assets = useMemo(() => assetsState.data ?? [], [assetsState.data]);
+    const registry = useMemo(() => accountsState.data ?? [], [accountsState.data]);
+    const fxHistory = useMemo(() => fxState.data ?? [], [fxState.data]);
+    const loading = assetsState.loading || accountsState.loading || fxState.loading;
 
     useEffect(() => {
-        fetchAssets();
+        fetchDueOccurrences(new Date().toISOString().split('T')[0]).then(due => setDueCount(due.length));
     }, []);
 
-    const fetchAssets = async () => {
-        setLoading(true);
-        const { data, error } = await supabase
-            .from('pantagon_assets')
-            .select('*')
-            .order('date', { ascending: false });
-
-        if (error) {
-            console.error('Error fetching assets:', error);
-        } else {
-            const fetchedAssets = data || [];
-            setAssets(fetchedAssets);
-            calculateAssetView(fetchedAssets);
-        }
-        setLoading(false);
-    };
+    const rates = useMemo(() => deriveThbRates(fxHistory, rateMode), [fxHistory, rateMode]);
 
-    const calculateAssetView = (data: PantagonAsset[]) => {
-        let total = 0;
+    const calculateAssetView = (data: PantagonAsset[], accountRegistry: PantagonAccount[], thbRates: ThbRates, base: string) => {
         const accountMap: { [key: string]: number } = {};
+        const missingRates = new Set<string>();
+
+        // Balances are kept in each account's own currency
+        const accountCurrency = (name: string, fallback: string) =>
+            findAccount(accountRegistry, name)?.currency || fallback;
 
         data.forEach(item => {
-            const amount = Number(item.amount);
+            const accName = item.account_name || 'Unassigned';
+            const itemCurrency = item.currency || 'THB';
+            const currency = accountCurrency(accName, itemCurrency);
+            const amount = convertAmount(Number(item.amount), itemCurrency, currency, thbRates);
+            if (amount === null) {
+                missingRates.add(itemCurrency);
+                return;
+            }
             // Assuming 'IN' is income/addition to asset, 'OUT' is expense/reduction
             const signedAmount = item.type === 'IN' ? amount : -amount;
 
-            total += signedAmount;
-
-            const accName = item.account_name || 'Unassigned';
             accountMap[accName] = (accountMap[accName] || 0) + signedAmount;
         });
 
-        setTotalAssetValue(total);
-
-        const getRank = (name: string) => {
-            const lower = name.toLowerCase();
-            if (lower.includes('dime')) return 1;
-            if (lower.includes('scb')) return 2;
-            if (lower.includes('kbank')) return 3;
-            if (lower.includes('ttb')) return 4;
-            if (lower.includes('pvd')) return 5;
-            if (lower.includes('sso')) return 6;
-            return 7;
-        };
-
-        const accountList = Object.keys(accountMap).map(name => ({
-            name,
-            balance: accountMap[name],
-            type: 'Asset'
-        })).sort((a, b) => {
-            const rankA = getRank(a.name);
-            const rankB = getRank(b.name);
+        // Archived accounts stay visible only while they still hold a balance
+        const isHidden = (name: string) =>
+            accountRegistry.some(acc => acc.name === name && acc.archived) && Math.abs(accountMap[name]) < 0.005;
+
+        const accountList = Object.keys(accountMap).filter(name => !isHidden(name)).map(name => {
+            const currency = accountCurrency(name, 'THB');
+            const baseBalance = convertAmount(accountMap[name], currency, base, thbRates);
+            if (baseBalance === null) missingRates.add(currency);
+            return {
+                name,
+                balance: accountMap[name],
+                currency,
+                baseBalance,
+                type: 'Asset'
+            };
+        }).sort((a, b) => {
+            const rankA = getAccountRank(accountRegistry, a.name);
+            const rankB = getAccountRank(accountRegistry, b.name);
             if (rankA !== rankB) return rankA - rankB;
-            return b.balance - a.balance;
+            return (b.baseBalance ?? 0) - (a.baseBalance ?? 0);
         });
 
-        setAccounts(accountList);
-    };
+        const total = accountList.reduce((sum, acc) => sum + (acc.baseBalance ?? 0), 0);
 
-    const formatCurrency = (value: number) => {
-        return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+        return { totalAssetValue: total, accounts: accountList, missingRates: Array.from(missingRates) };
     };
 
+    const { totalAssetValue, accounts, missingRates } = useMemo(
+        () => calculateAssetView(assets, registry, rates, baseCurrency),
+        [assets, registry, rates, baseCurrency]
+    );
+
+    // Ledger restated in the base currency for the history chart
+    const baseAssets = useMemo(() => assets.map(item => ({
+        ...item,
+        amount: convertAmount(Number(item.amount), item.currency || 'THB', baseCurrency, rates) ?? 0,
+        currency: baseCurrency
+    })), [assets, baseCurrency, rates]);
+
+    const formatCurrency = useCallback((value: number, currency: string = baseCurrency) => {
+        return formatMoney(value, currency);
+    }, [baseCurrency]);
+
     const handleAccountClick = (accountName: string) => {
         navigate(`/account/${encodeURIComponent(accountName)}`);
     };
 
-    // Helper to get icon based on account name
-    const getAccountIcon = (accountName: string): string | undefined => {
-        const lowerName = accountName.toLowerCase();
-        if (lowerName.includes('scb')) return '/scb.jpg';
-        if (lowerName.includes('dime')) return '/Dime.png';
-        if (lowerName.includes('kbank') || lowerName.includes('make')) return '/kbank.png';
-        if (lowerName.includes('ttb')) return '/ttb.png';
-        if (lowerName.includes('sso')) return '/SSO.jpg';
-        return undefined;
-    };
-
     if (loading) {
         return <div className="flex justify-center items-center min-h-screen text-gray-400 font-sans text-sm">Loading...</div>;
     }
@@ -107,13 +114,67 @@ export default function Dashboard() {
   <div className="mt-1 text-[34px] font-bold text-white">
     {formatCurrency(totalAssetValue)}
   </div>
+  <button
+    onClick={() => setRateMode(rateMode === 'latest' ? 'weighted' : 'latest')}
+    className="mt-1 flex items-center gap-1 text-[10px] text-white/50 hover:text-white/80 transition-colors"
+  >
+    <i className="pi pi-sync text-[9px]"></i>
+    {rateMode === 'latest' ? 'Latest FX rate' : 'Weighted avg FX rate'}
+  </button>
+  {missingRates.length > 0 && (
+    <div className="mt-2 text-[10px] text-amber-300">
+      No FX history for {missingRates.join(', ')} — excluded from total
+    </div>
+  )}
 </div>
 
+            {dueCount > 0 && (
+                <button
+                    onClick={() => navigate('/recurring')}
+                    className="bg-amber-50 border border-amber-100 rounded-xl px-4 py-3 flex items-center justify-between text-left hover:bg-amber-100 transition-colors"
+                >
+                    <span className="flex items-center gap-2 text-xs font-semibold text-amber-700">
+                        <i className="pi pi-calendar-clock text-sm"></i>
+                        {dueCount} recurring item{dueCount !== 1 ? 's' : ''} due
+                    </span>
+                    <i className="pi pi-chevron-right text-amber-500 text-xs"></i>
+                </button>
+            )}
+
+            {/* Net Worth History */}
+            <NetWorthChart
+                assets={baseAssets}
+                accountOrder={accounts.map(acc => acc.name)}
+                formatCurrency={formatCurrency}
+            />
 
             {/* Assets List */}
             <div className="flex flex-col gap-3 mt-1">
                 <div className="flex justify-between items-center">
                     <span className="text-xs font-bold text-[#001f3f] uppercase tracking-wider opacity-70">Accounts</span>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => navigate('/budgets')}
+                            className="flex items-center gap-1 text-[11px] font-semibold text-gray-400 hover:text-[#001f3f] transition-colors"
+                        >
+                            <i className="pi pi-chart-bar text-[10px]"></i>
+                            Budgets
+                        </button>
+                        <button
+                            onClick={() => navigate('/recurring')}
+                            className="flex items-center gap-1 text-[11px] font-semibold text-gray-400 hover:text-[#001f3f] transition-colors"
+                        >
+                            <i className="pi pi-replay text-[10px]"></i>
+                            Recurring
+                        </button>
+                        <button
+                            onClick={() => navigate('/accounts')}
+                            className="flex items-center gap-1 text-[11px] font-semibold text-gray-400 hover:text-[#001f3f] transition-colors"
+                        >
+                            <i className="pi pi-cog text-[10px]"></i>
+                            Manage
+                        </button>
+                    </div>
                 </div>
 
                 <div className="flex flex-col gap-2.5">
@@ -125,9 +186,9 @@ export default function Dashboard() {
                         >
                             <div className="flex items-center gap-3 flex-1">
                                 <div className="w-9 h-9 rounded-full overflow-hidden border border-slate-50 bg-slate-50 flex-shrink-0 flex items-center justify-center">
-                                    {getAccountIcon(acc.name) ? (
+                                    {getAccountIcon(registry, acc.name) ? (
                                         <img
-                                            src={getAccountIcon(acc.name)}
+                                            src={getAccountIcon(registry, acc.name)}
                                             alt={acc.name}
                                             className="w-full h-full object-cover"
                                             onError={(e) => {
@@ -136,7 +197,7 @@ export default function Dashboard() {
                                             }}
                                         />
                                     ) : null}
-                                    <i className={`pi ${acc.balance >= 0 ? 'pi-wallet' : 'pi-exclamation-circle'} text-base ${acc.balance >= 0 ? 'text-[#001f3f]' : 'text-red-500'} ${getAccountIcon(acc.name) ? 'hidden' : ''}`}></i>
+                                    <i className={`pi ${acc.balance >= 0 ? 'pi-wallet' : 'pi-exclamation-circle'} text-base ${acc.balance >= 0 ? 'text-[#001f3f]' : 'text-red-500'} ${getAccountIcon(registry, acc.name) ? 'hidden' : ''}`}></i>
                                 </div>
                                 <div className="flex flex-col items-start min-w-0 pr-2">
                                     <span className="font-semibold text-[#001f3f] text-sm truncate max-w-full leading-tight">{acc.name}</span>
@@ -145,8 +206,13 @@ export default function Dashboard() {
                             </div>
                             <div className="flex flex-col items-end pl-1">
                                 <span className={`font-bold text-sm ${acc.balance >= 0 ? 'text-[#001f3f]' : 'text-red-500'}`}>
-                                    {formatCurrency(acc.balance)}
+                                    {formatCurrency(acc.balance, acc.currency)}
                                 </span>
+                                {acc.currency !== baseCurrency && acc.baseBalance !== null && (
+                                    <span className="text-gray-400 text-[10px] mt-0.5">
+                                        ≈ {formatCurrency(acc.baseBalance)}
+                                    </span>
+                                )}
                             </div>
                         </div>
                     ))}
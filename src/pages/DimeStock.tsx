@@ -1,19 +1,30 @@
-import { useEffect, useState, useMemo } from 'react';
-import { supabase } from '../supabaseClient';
+import { useState, useMemo } from 'react';
+import { dimeRepository } from '../data/dimeRepository';
+import { dimeQuery } from '../data/queries';
+import { invalidate, useQuery } from '../data/queryCache';
+import { computeDimeCostBasis } from '../lib/dimeCostBasis';
+import { parseDimeSlip } from '../lib/dimeSlipParser';
+import type { SlipConfidence, SlipField } from '../lib/dimeSlipParser';
+import { deriveTrade, FEE_FIELDS, roundShares, TRADE_SIDES, tradeInputFromJson, validateTrade } from '../lib/dimeTrades';
+import type { TradeInput, TradeSide } from '../lib/dimeTrades';
+import { COST_METHODS } from '../lib/fxCostBasis';
+import type { CostMethod } from '../lib/fxCostBasis';
+import { loadPriceBook, manualPriceSource, mergeQuotes, priceFileSource, savePriceBook, valuePortfolio } from '../lib/stockPrices';
+import type { PriceBook, PriceSource } from '../lib/stockPrices';
+import { recognizeSlips } from '../lib/slipOcr';
 import type { DimeTransaction } from '../types';
+import SlipFieldsEditor from '../components/SlipFieldsEditor';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-type Side = 'BUY' | 'SELL';
-
 interface FormState {
-    side: Side;
+    side: TradeSide;
     transaction_date: string;
     symbol: string;
     executed_price: string;
     // BUY only
     input_amount_usd: string;
-    // SELL only
+    // SELL and INIT
     input_shares: string;
     commission: string;
     vat: string;
@@ -22,17 +33,6 @@ interface FormState {
     taf_fee: string;
 }
 
-interface SymbolSummary {
-    symbol: string;
-    totalBuyAmount: number;
-    totalSellAmount: number;
-    totalShares: number;
-    avgBuyPrice: number;
-    txCount: number;
-    latestDate: string;
-    totalStockAmount: number; // net stock_amount (buy stock - sell stock)
-}
-
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 function formatUSD(value: number | null | undefined): string {
@@ -46,12 +46,43 @@ function formatDate(dateString: string): string {
     return d.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
 }
 
+function formatPct(value: number | null): string {
+    if (value == null) return '—';
+    return `${value > 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+}
+
 function todayISO(): string {
-    const d = new Date();
+    return toLocalInput(new Date().toISOString());
+}
+
+function toLocalInput(iso: string): string {
+    const d = new Date(iso);
     d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
     return d.toISOString().slice(0, 16); // "YYYY-MM-DDTHH:mm" local
 }
 
+// Loads a saved trade back into the form; the amounts it was derived from
+// fall back to the stored totals for rows saved before they were recorded.
+// Shares are rounded to what validateTrade accepts, so older rows stored
+// with more precision can be saved again unchanged.
+function toFormState(tx: DimeTransaction): FormState {
+    const text = (value: number | null | undefined) => value == null ? '' : String(value);
+    const shares = tx.input_shares ?? tx.shares;
+    return {
+        side: tx.side,
+        transaction_date: toLocalInput(tx.transaction_date),
+        symbol: tx.symbol ?? '',
+        executed_price: text(tx.executed_price),
+        input_amount_usd: tx.side === 'BUY' ? text(tx.input_amount_usd ?? tx.total_amount) : '',
+        input_shares: tx.side !== 'BUY' && shares != null ? text(roundShares(Number(shares))) : '',
+        commission: text(tx.commission),
+        vat: text(tx.vat),
+        fee: text(tx.fee),
+        sec_fee: text(tx.sec_fee),
+        taf_fee: text(tx.taf_fee),
+    };
+}
+
 // ─── JSON Templates ───────────────────────────────────────────────────────────
 
 
@@ -118,24 +149,29 @@ const INITIAL_FORM: FormState = {
     taf_fee: '',
 };
 
+const COST_METHOD_KEY = 'pantagon.dimeCostMethod';
+
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export default function DimeStock() {
-    const [transactions, setTransactions] = useState<DimeTransaction[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const dimeState = useQuery(dimeQuery);
+    const transactions = useMemo(() => dimeState.data ?? [], [dimeState.data]);
 
     const [showForm, setShowForm] = useState(false);
     const [form, setForm] = useState<FormState>(INITIAL_FORM);
     const [saving, setSaving] = useState(false);
     const [saveError, setSaveError] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
 
     // JSON auto-fill
     const [showJsonPanel, setShowJsonPanel] = useState(false);
     const [jsonInput, setJsonInput] = useState('');
     const [jsonError, setJsonError] = useState<string | null>(null);
     const [jsonSuccess, setJsonSuccess] = useState(false);
-    const [batchPreview, setBatchPreview] = useState<any[] | null>(null);
+    const [batchPreview, setBatchPreview] = useState<TradeInput[] | null>(null);
+    // Set when the preview came from scanned slips: per-field OCR confidence, in preview order
+    const [batchConfidence, setBatchConfidence] = useState<SlipConfidence[] | null>(null);
+    const [scanProgress, setScanProgress] = useState<{ done: number; total: number } | null>(null);
     const [batchSaving, setBatchSaving] = useState(false);
     const [batchError, setBatchError] = useState<string | null>(null);
     const [copiedPrompt, setCopiedPrompt] = useState(false);
@@ -143,188 +179,107 @@ export default function DimeStock() {
     const [activeTab, setActiveTab] = useState<'transactions' | 'summary'>('summary');
     const [deleteId, setDeleteId] = useState<string | null>(null);
     const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
-
-    // ── Fetch ──────────────────────────────────────────────────────────────────
-
-    const fetchTransactions = async () => {
-        try {
-            setLoading(true);
-            const { data, error } = await supabase
-                .from('dime_transactions')
-                .select('*')
-                .order('transaction_date', { ascending: false });
-            if (error) throw error;
-            setTransactions((data as DimeTransaction[]) || []);
-        } catch (err: any) {
-            setError(err.message);
-        } finally {
-            setLoading(false);
-        }
-    };
-
-    useEffect(() => { fetchTransactions(); }, []);
+    const [costMethod, setCostMethod] = useState<CostMethod>(() =>
+        localStorage.getItem(COST_METHOD_KEY) === 'weighted' ? 'weighted' : 'fifo'
+    );
 
     // ── Summary computation ────────────────────────────────────────────────────
 
-    const symbolSummaries: SymbolSummary[] = useMemo(() => {
-        const map: Record<string, SymbolSummary> = {};
-
-        // 1. Process all BUYS and INITS first
-        transactions
-            .filter(t => t.side === 'BUY' || t.side === 'INIT')
-            .forEach((tx) => {
-                const sym = tx.symbol || 'UNKNOWN';
-                if (!map[sym]) {
-                    map[sym] = { symbol: sym, totalBuyAmount: 0, totalSellAmount: 0, totalShares: 0, avgBuyPrice: 0, txCount: 0, latestDate: tx.transaction_date, totalStockAmount: 0 };
-                }
-                map[sym].txCount++;
-                if (tx.transaction_date > map[sym].latestDate) {
-                    map[sym].latestDate = tx.transaction_date;
-                }
-
-                const stockAmt = tx.side === 'INIT' ? Number(tx.stock_amount ?? 0) : Number(tx.total_amount);
-                map[sym].totalBuyAmount += stockAmt;
-                map[sym].totalShares += Number(tx.shares ?? 0);
-                map[sym].totalStockAmount += Number(tx.stock_amount ?? 0);
-            });
+    // Replayed in trade order so each sell is costed against only what was held before it
+    const costBasis = useMemo(() => computeDimeCostBasis(transactions, costMethod), [transactions, costMethod]);
+    const symbolSummaries = costBasis.positions;
+    const overallBuy = costBasis.invested;
+    const overallSell = costBasis.proceeds;
+    const netPL = costBasis.realized;
 
-        // 2. Calculate the true average buy price based on the total accumulated cost and shares
-        Object.values(map).forEach((s) => {
-            if (s.totalShares > 0) {
-                s.avgBuyPrice = s.totalStockAmount / s.totalShares;
-            } else {
-                s.avgBuyPrice = 0;
-            }
-        });
-
-        // 3. Process SELLS and reduce totalStockAmount by the pro-rated average cost
-        transactions
-            .filter(t => t.side === 'SELL')
-            .forEach((tx) => {
-                const sym = tx.symbol || 'UNKNOWN';
-                if (!map[sym]) {
-                    map[sym] = { symbol: sym, totalBuyAmount: 0, totalSellAmount: 0, totalShares: 0, avgBuyPrice: 0, txCount: 0, latestDate: tx.transaction_date, totalStockAmount: 0 };
-                }
-                map[sym].txCount++;
-                if (tx.transaction_date > map[sym].latestDate) {
-                    map[sym].latestDate = tx.transaction_date;
-                }
+    const changeCostMethod = (method: CostMethod) => {
+        setCostMethod(method);
+        localStorage.setItem(COST_METHOD_KEY, method);
+    };
 
-                const sharesSold = Number(tx.shares ?? 0);
-                map[sym].totalSellAmount += Number(tx.total_amount);
+    // ── Market prices ──────────────────────────────────────────────────────────
 
-                // Track remaining shares
-                map[sym].totalShares -= sharesSold;
+    const [priceBook, setPriceBook] = useState<PriceBook>(loadPriceBook);
+    const [showPrices, setShowPrices] = useState(false);
+    const [priceDraft, setPriceDraft] = useState<Record<string, string>>({});
+    const [priceError, setPriceError] = useState<string | null>(null);
+    const [priceNotice, setPriceNotice] = useState<string | null>(null);
+    const [priceLoading, setPriceLoading] = useState(false);
 
-                // Reduce the initial stock amount by (shares sold * avg cost)
-                const costOfSharesSold = sharesSold * map[sym].avgBuyPrice;
-                map[sym].totalStockAmount -= costOfSharesSold;
-            });
+    const heldSymbols = useMemo(() => symbolSummaries.filter(s => s.shares > 0).map(s => s.symbol), [symbolSummaries]);
+    const valuation = useMemo(() => valuePortfolio(costBasis, priceBook), [costBasis, priceBook]);
 
-        // 4. Clean up any weird float precision issues
-        Object.values(map).forEach((s) => {
-            if (s.totalShares <= 0.000001) {
-                s.totalShares = 0;
-                s.totalStockAmount = 0;
-            } else {
-                s.totalStockAmount = Math.max(0, s.totalStockAmount); // prevent slight negatives
+    const applyPriceSource = async (source: PriceSource) => {
+        setPriceError(null);
+        setPriceNotice(null);
+        setPriceLoading(true);
+        try {
+            const quotes = await source.getQuotes(heldSymbols);
+            if (quotes.length === 0) throw new Error(`${source.label} has no prices for the symbols you hold.`);
+            const { book, skipped } = mergeQuotes(priceBook, quotes);
+            setPriceBook(book);
+            savePriceBook(book);
+            setPriceDraft({});
+            if (skipped.length > 0) {
+                setPriceNotice(`Kept the newer prices already saved for ${skipped.join(', ')}; ${source.label} has older ones.`);
             }
+        } catch (err) {
+            setPriceError((err as Error).message);
+        } finally {
+            setPriceLoading(false);
+        }
+    };
+
+    const handleManualPrices = () => {
+        const prices: Record<string, number> = {};
+        Object.entries(priceDraft).forEach(([symbol, value]) => {
+            if (Number(value) > 0) prices[symbol] = Number(value);
         });
+        applyPriceSource(manualPriceSource(prices));
+    };
 
-        // Sort by total stock amount (largest position first)
-        return Object.values(map).sort((a, b) => b.totalStockAmount - a.totalStockAmount);
-    }, [transactions]);
-
-    // INIT: stock_amount = value; BUY: total_amount = cash spent
-    const overallBuy = useMemo(() =>
-        transactions.filter(t => t.side === 'INIT').reduce((s, t) => s + Number(t.stock_amount ?? 0), 0) +
-        transactions.filter(t => t.side === 'BUY').reduce((s, t) => s + Number(t.total_amount), 0)
-        , [transactions]);
-    const overallSell = useMemo(() => transactions.filter(t => t.side === 'SELL').reduce((s, t) => s + Number(t.total_amount), 0), [transactions]);
-    const netPL = useMemo(() => {
-        // P&L = only realized gain/loss from actual SELL transactions
-        // SELL proceeds minus cost of those sold shares (avg buy price × shares sold)
-        return symbolSummaries.reduce((total, s) => {
-            if (s.totalSellAmount === 0) return total;
-            // Approximate: SELL total - proportional buy cost
-            const sellRatio = s.totalShares < 0 ? 1 : (Math.abs(s.totalSellAmount) / (s.totalBuyAmount || 1));
-            return total + s.totalSellAmount - (s.totalBuyAmount * Math.min(sellRatio, 1));
-        }, 0);
-    }, [symbolSummaries]);
+    const handlePriceFile = async (file: File | undefined) => {
+        if (!file) return;
+        applyPriceSource(priceFileSource(await file.text(), file.name, new Date(file.lastModified).toISOString()));
+    };
 
     // ── Save transaction ───────────────────────────────────────────────────────
 
     const handleSave = async () => {
         setSaveError(null);
-        if (!form.symbol.trim() || !form.executed_price || !form.transaction_date) {
-            setSaveError('Symbol, date, and executed price are required.');
-            return;
-        }
-        if (form.side === 'BUY' && !form.input_amount_usd) {
-            setSaveError('Input Amount (USD) is required for BUY.');
-            return;
-        }
-        if (form.side === 'SELL' && !form.input_shares) {
-            setSaveError('Shares are required for SELL.');
-            return;
-        }
-
-        const execPrice = parseFloat(form.executed_price);
-        const commission = form.commission ? parseFloat(form.commission) : null;
-        const vat = form.vat ? parseFloat(form.vat) : null;
-        const fee = form.fee ? parseFloat(form.fee) : null;
-        const sec_fee = form.sec_fee ? parseFloat(form.sec_fee) : null;
-        const taf_fee = form.taf_fee ? parseFloat(form.taf_fee) : null;
-
-        let shares: number | null = null;
-        let total_amount: number;
-        let input_amount_usd: number | null = null;
-        let input_shares: number | null = null;
-
-        if (form.side === 'BUY') {
-            input_amount_usd = parseFloat(form.input_amount_usd);
-            const totalFees = (commission ?? 0) + (vat ?? 0) + (fee ?? 0) + (sec_fee ?? 0) + (taf_fee ?? 0);
-            // input_amount_usd is the TOTAL spend (fees already included)
-            // stock_amount = money going to actual stock purchase (after fees deducted)
-            const stockAmt = input_amount_usd - totalFees;
-            shares = stockAmt / execPrice;
-            total_amount = input_amount_usd; // total money out of pocket
-        } else {
-            input_shares = parseFloat(form.input_shares);
-            shares = input_shares;
-            const stockAmount = input_shares * execPrice;
-            const totalFees = (commission ?? 0) + (vat ?? 0) + (fee ?? 0) + (sec_fee ?? 0) + (taf_fee ?? 0);
-            total_amount = stockAmount - totalFees; // net proceeds after fees
-        }
-
-        const payload = {
+        const amount = (value: string) => value.trim() ? parseFloat(value) : null;
+        // INIT hides the fee inputs, so nothing left in them is sent
+        const fee = (value: string) => form.side === 'INIT' ? null : amount(value);
+        const input: TradeInput = {
             side: form.side,
-            transaction_date: new Date(form.transaction_date).toISOString(),
-            symbol: form.symbol.toUpperCase().trim(),
-            shares,
-            total_amount,
-            executed_price: execPrice,
-            commission,
-            vat,
-            fee,
-            sec_fee,
-            taf_fee,
-            input_amount_usd: form.side === 'BUY' ? input_amount_usd : null,
-            input_shares: form.side === 'SELL' ? input_shares : null,
-            // stock_amount = actual stock purchase value (excluding fees)
-            stock_amount: form.side === 'BUY'
-                ? (input_amount_usd! - ((commission ?? 0) + (vat ?? 0) + (fee ?? 0) + (sec_fee ?? 0) + (taf_fee ?? 0)))
-                : (shares! * execPrice),
-            currency: 'USD',
+            transaction_date: form.transaction_date,
+            symbol: form.symbol,
+            executed_price: parseFloat(form.executed_price),
+            input_amount_usd: form.side === 'BUY' ? amount(form.input_amount_usd) : null,
+            input_shares: form.side !== 'BUY' ? amount(form.input_shares) : null,
+            commission: fee(form.commission),
+            vat: fee(form.vat),
+            fee: fee(form.fee),
+            sec_fee: fee(form.sec_fee),
+            taf_fee: fee(form.taf_fee),
         };
+        const issues = validateTrade(input);
+        if (issues.length > 0) {
+            setSaveError(issues.join(' '));
+            return;
+        }
+        const payload = deriveTrade(input);
 
         try {
             setSaving(true);
-            const { error } = await supabase.from('dime_transactions').insert([payload]);
-            if (error) throw error;
-            setShowForm(false);
-            setForm(INITIAL_FORM);
-            await fetchTransactions();
+            // An edit keeps the row's id and created_at, so it stays where it was among same-day trades
+            if (editingId) {
+                await dimeRepository.update(editingId, payload);
+            } else {
+                await dimeRepository.insert([payload]);
+            }
+            closeForm();
+            await invalidate('dime_transactions');
         } catch (err: any) {
             setSaveError(err.message);
         } finally {
@@ -332,66 +287,36 @@ export default function DimeStock() {
         }
     };
 
+    const startEdit = (tx: DimeTransaction) => {
+        setForm(toFormState(tx));
+        setEditingId(tx.id);
+        setDeleteId(null);
+        setSaveError(null);
+        setShowForm(true);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const closeForm = () => {
+        setShowForm(false);
+        setEditingId(null);
+        setForm(INITIAL_FORM);
+    };
+
     // ── Delete ─────────────────────────────────────────────────────────────────
 
     const handleDelete = async (id: string) => {
         try {
-            const { error } = await supabase.from('dime_transactions').delete().eq('id', id);
-            if (error) throw error;
+            await dimeRepository.remove(id);
             setDeleteId(null);
-            await fetchTransactions();
+            await invalidate('dime_transactions');
         } catch (err: any) {
             alert('Delete failed: ' + err.message);
         }
     };
 
-    // ── Build DB payload (shared by single + batch save) ───────────────────────
-
-    const buildPayload = (p: any) => {
-        const execPrice = Number(p.executed_price);
-        // Always store fees as positive (OCR may return negatives for SELL)
-        const commission = p.commission != null ? Math.abs(Number(p.commission)) : null;
-        const vat = p.vat != null ? Math.abs(Number(p.vat)) : null;
-        const fee = p.fee != null ? Math.abs(Number(p.fee)) : null;
-        const sec_fee = p.sec_fee != null ? Math.abs(Number(p.sec_fee)) : null;
-        const taf_fee = p.taf_fee != null ? Math.abs(Number(p.taf_fee)) : null;
-        const totalFees = (commission ?? 0) + (vat ?? 0) + (fee ?? 0) + (sec_fee ?? 0) + (taf_fee ?? 0);
-
-        let shares: number | null = null;
-        let total_amount: number;
-        let input_amount_usd: number | null = null;
-        let input_shares: number | null = null;
-        let stock_amount: number | null = null;
-
-        if (p.side === 'BUY') {
-            input_amount_usd = Number(p.input_amount_usd);
-            stock_amount = input_amount_usd - totalFees;
-            shares = stock_amount / execPrice;
-            total_amount = input_amount_usd;
-        } else {
-            input_shares = Number(p.input_shares);
-            shares = input_shares;
-            stock_amount = input_shares * execPrice;
-            total_amount = stock_amount - totalFees;
-        }
-
-        return {
-            side: p.side,
-            transaction_date: new Date(p.transaction_date).toISOString(),
-            symbol: String(p.symbol).toUpperCase().trim(),
-            shares,
-            total_amount,
-            executed_price: execPrice,
-            commission,
-            vat,
-            fee: fee === 0 ? null : fee,
-            sec_fee: sec_fee === 0 ? null : sec_fee,
-            taf_fee: taf_fee === 0 ? null : taf_fee,
-            input_amount_usd: p.side === 'BUY' ? input_amount_usd : null,
-            input_shares: p.side === 'SELL' ? input_shares : null,
-            stock_amount,
-            currency: 'USD',
-        };
+    const clearBatch = () => {
+        setBatchPreview(null);
+        setBatchConfidence(null);
     };
 
     // ── JSON Auto-fill ─────────────────────────────────────────────────────────
@@ -428,7 +353,7 @@ export default function DimeStock() {
     const applyJson = () => {
         setJsonError(null);
         setJsonSuccess(false);
-        setBatchPreview(null);
+        clearBatch();
         setBatchError(null);
         try {
             let raw = jsonInput.trim();
@@ -444,41 +369,34 @@ export default function DimeStock() {
             if (arrMatch) {
                 const arr = JSON.parse(arrMatch[0]);
                 if (!Array.isArray(arr) || arr.length === 0) throw new Error('Empty array');
-                // Validate each item minimally
-                arr.forEach((item: any, i: number) => {
-                    if (!item.side || !item.symbol || !item.executed_price || !item.transaction_date)
-                        throw new Error(`Item ${i + 1} missing required fields (side, symbol, executed_price, transaction_date)`);
-                    if (item.side === 'BUY' && item.input_amount_usd == null)
-                        throw new Error(`Item ${i + 1}: BUY requires input_amount_usd`);
-                    if (item.side === 'SELL' && item.input_shares == null)
-                        throw new Error(`Item ${i + 1}: SELL requires input_shares`);
+                const inputs = arr.map(tradeInputFromJson);
+                inputs.forEach((input, i) => {
+                    const issues = validateTrade(input);
+                    if (issues.length > 0) throw new Error(`Item ${i + 1}: ${issues.join(' ')}`);
                 });
-                setBatchPreview(arr);
+                setBatchPreview(inputs);
                 return;
             }
 
             if (objMatch) {
-                const parsed = JSON.parse(objMatch[0]);
+                const input = tradeInputFromJson(JSON.parse(objMatch[0]));
+                // Only what the JSON gives replaces the form; a zero fee shows as blank
+                const text = (value: number | null | undefined) => value == null ? null : String(value);
+                const feeText = (value: number | null | undefined) => value ? String(value) : '';
                 const newForm: FormState = { ...form };
-                if (parsed.side === 'BUY' || parsed.side === 'SELL') newForm.side = parsed.side;
-                if (parsed.symbol) newForm.symbol = String(parsed.symbol).toUpperCase().trim();
-                if (parsed.transaction_date) {
-                    const d = new Date(parsed.transaction_date);
+                if (TRADE_SIDES.includes(input.side)) newForm.side = input.side;
+                if (input.symbol) newForm.symbol = input.symbol;
+                if (input.transaction_date) {
+                    const d = new Date(input.transaction_date);
                     if (!isNaN(d.getTime())) {
                         d.setMinutes(d.getMinutes() - d.getTimezoneOffset());
                         newForm.transaction_date = d.toISOString().slice(0, 16);
                     }
                 }
-                if (parsed.executed_price != null) newForm.executed_price = String(Math.abs(Number(parsed.executed_price)));
-                if (parsed.input_amount_usd != null) newForm.input_amount_usd = String(parsed.input_amount_usd);
-                if (parsed.input_shares != null) newForm.input_shares = String(parsed.input_shares);
-
-                const getFee = (val: any) => (val == null || Number(val) === 0) ? '' : String(Math.abs(Number(val)));
-                newForm.commission = getFee(parsed.commission);
-                newForm.vat = getFee(parsed.vat);
-                newForm.fee = getFee(parsed.fee);
-                newForm.sec_fee = getFee(parsed.sec_fee);
-                newForm.taf_fee = getFee(parsed.taf_fee);
+                if (!isNaN(input.executed_price)) newForm.executed_price = String(input.executed_price);
+                newForm.input_amount_usd = text(input.input_amount_usd) ?? newForm.input_amount_usd;
+                newForm.input_shares = text(input.input_shares) ?? newForm.input_shares;
+                FEE_FIELDS.forEach(field => { newForm[field] = feeText(input[field]); });
                 setForm(newForm);
                 setJsonSuccess(true);
                 setJsonInput('');
@@ -492,6 +410,36 @@ export default function DimeStock() {
         }
     };
 
+    // ── Slip scan ──────────────────────────────────────────────────────────────
+
+    const handleScanSlips = async (files: FileList | null) => {
+        if (!files || files.length === 0) return;
+        const images = Array.from(files);
+        setJsonError(null);
+        setJsonSuccess(false);
+        setBatchError(null);
+        clearBatch();
+        setScanProgress({ done: 0, total: images.length });
+        try {
+            const slips = (await recognizeSlips(images, (done, total) => setScanProgress({ done, total }))).map(parseDimeSlip);
+            setBatchPreview(slips.map(slip => slip.input));
+            setBatchConfidence(slips.map(slip => slip.confidence));
+        } catch (error) {
+            console.error('Error scanning slips:', error);
+            setJsonError('Could not read the slip: ' + (error as Error).message);
+        } finally {
+            setScanProgress(null);
+        }
+    };
+
+    // A corrected field counts as checked
+    const updateScannedTrade = (index: number, input: TradeInput, field: SlipField) => {
+        setBatchPreview(prev => prev && prev.map((item, i) => i === index ? input : item));
+        setBatchConfidence(prev => prev && prev.map((scores, i) => i === index ? { ...scores, [field]: 1 } : scores));
+    };
+
+    const batchIssues = useMemo(() => (batchPreview ?? []).map(validateTrade), [batchPreview]);
+
     // ── Batch Save ─────────────────────────────────────────────────────────────
 
     const handleBatchSave = async () => {
@@ -499,15 +447,14 @@ export default function DimeStock() {
         setBatchError(null);
         setBatchSaving(true);
         try {
-            const payloads = batchPreview.map(buildPayload);
-            const { error } = await supabase.from('dime_transactions').insert(payloads);
-            if (error) throw error;
-            setBatchPreview(null);
+            const payloads = batchPreview.map(deriveTrade);
+            await dimeRepository.insert(payloads);
+            clearBatch();
             setJsonInput('');
             setShowJsonPanel(false);
             setJsonSuccess(true);
             setTimeout(() => setJsonSuccess(false), 2000);
-            await fetchTransactions();
+            await invalidate('dime_transactions');
         } catch (err: any) {
             setBatchError(err.message);
         } finally {
@@ -517,15 +464,15 @@ export default function DimeStock() {
 
     // ── Render ─────────────────────────────────────────────────────────────────
 
-    if (loading) return (
+    if (dimeState.loading) return (
         <div className="flex justify-center items-center min-h-[60vh] text-gray-400 text-sm gap-2">
             <i className="pi pi-spin pi-spinner" />
             Loading transactions...
         </div>
     );
 
-    if (error) return (
-        <div className="flex justify-center items-center min-h-[60vh] text-red-500 text-sm">{error}</div>
+    if (dimeState.error && !dimeState.data) return (
+        <div className="flex justify-center items-center min-h-[60vh] text-red-500 text-sm">{dimeState.error.message}</div>
     );
 
     return (
@@ -538,7 +485,7 @@ export default function DimeStock() {
                     <span className="text-xs text-gray-400">{transactions.length} transactions</span>
                 </div>
                 <button
-                    onClick={() => { setShowForm(!showForm); setSaveError(null); }}
+                    onClick={() => { if (showForm) closeForm(); else setShowForm(true); setSaveError(null); }}
                     className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold transition-all shadow-sm
             ${showForm ? 'bg-gray-100 text-gray-600' : 'bg-[#001f3f] text-white hover:bg-[#002f5f]'}`}
                 >
@@ -567,25 +514,104 @@ export default function DimeStock() {
                     <p className="text-sm font-bold text-green-700">{formatUSD(overallSell)}</p>
                 </div>
                 <div className={`rounded-xl p-3 border ${netPL >= 0 ? 'bg-emerald-50 border-emerald-100' : 'bg-red-50 border-red-100'}`}>
-                    <p className={`text-[10px] font-semibold uppercase tracking-wider mb-0.5 ${netPL >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>Net P&amp;L</p>
+                    <p className={`text-[10px] font-semibold uppercase tracking-wider mb-0.5 ${netPL >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>Realized P&amp;L</p>
                     <p className={`text-sm font-bold ${netPL >= 0 ? 'text-emerald-700' : 'text-red-700'}`}>{formatUSD(netPL)}</p>
                 </div>
             </div>
 
+            {/* ── Market Value ────────────────────────────────────────────────── */}
+            {heldSymbols.length > 0 && (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-col gap-3">
+                    <div className="flex justify-between items-start">
+                        <div>
+                            <p className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-0.5">Market Value</p>
+                            <p className="text-xl font-bold text-[#001f3f]">{valuation.asOf ? formatUSD(valuation.marketValue) : '—'}</p>
+                            <p className="text-[10px] text-gray-400 mt-0.5">
+                                {valuation.asOf
+                                    ? `Prices as of ${new Date(valuation.asOf).toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}`
+                                    : 'No prices yet'}
+                            </p>
+                        </div>
+                        <div className="text-right">
+                            <p className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-0.5">Unrealized</p>
+                            <p className={`text-sm font-bold ${valuation.unrealized >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                                {valuation.asOf ? `${valuation.unrealized >= 0 ? '+' : ''}${formatUSD(valuation.unrealized)}` : '—'}
+                            </p>
+                            <p className={`text-[10px] font-semibold ${(valuation.returnPct ?? 0) >= 0 ? 'text-emerald-500' : 'text-red-400'}`}>{formatPct(valuation.returnPct)}</p>
+                        </div>
+                    </div>
+
+                    {valuation.unpriced.length > 0 && (
+                        <p className="text-[10px] text-amber-600 bg-amber-50 px-3 py-2 rounded-lg m-0">
+                            No price for {valuation.unpriced.join(', ')}; left out of the totals.
+                        </p>
+                    )}
+
+                    <button
+                        onClick={() => { setShowPrices(!showPrices); setPriceError(null); }}
+                        className="text-xs font-semibold text-[#001f3f] bg-gray-50 border border-gray-200 rounded-xl py-2 hover:bg-gray-100 transition-colors"
+                    >
+                        <i className={`pi ${showPrices ? 'pi-times' : 'pi-pencil'} text-[10px] mr-1.5`} />
+                        {showPrices ? 'Close' : 'Update Prices'}
+                    </button>
+
+                    {showPrices && (
+                        <div className="flex flex-col gap-2">
+                            {heldSymbols.map(symbol => (
+                                <div key={symbol} className="grid grid-cols-[4rem_1fr] items-center gap-2">
+                                    <span className="text-xs font-bold text-gray-700">{symbol}</span>
+                                    <input
+                                        type="number"
+                                        step="0.0001"
+                                        value={priceDraft[symbol] ?? ''}
+                                        onChange={(e) => setPriceDraft({ ...priceDraft, [symbol]: e.target.value })}
+                                        placeholder={priceBook[symbol] ? String(priceBook[symbol].price) : 'Price (USD)'}
+                                        className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                </div>
+                            ))}
+                            <div className="grid grid-cols-2 gap-2 mt-1">
+                                <button
+                                    onClick={handleManualPrices}
+                                    disabled={priceLoading || !Object.values(priceDraft).some(v => Number(v) > 0)}
+                                    className="text-xs text-white bg-[#001f3f] py-2 rounded-xl font-semibold disabled:opacity-50"
+                                >
+                                    Save Prices
+                                </button>
+                                <label className={`text-xs text-center font-semibold text-[#001f3f] bg-gray-100 py-2 rounded-xl cursor-pointer ${priceLoading ? 'opacity-50 pointer-events-none' : ''}`}>
+                                    Import File
+                                    <input
+                                        type="file"
+                                        accept=".json,.csv,.tsv,.txt"
+                                        className="hidden"
+                                        onChange={(e) => { handlePriceFile(e.target.files?.[0]); e.target.value = ''; }}
+                                    />
+                                </label>
+                            </div>
+                            <p className="text-[10px] text-gray-400 m-0">
+                                Files: JSON like {'{"VOO": 512.3}'} or CSV rows of symbol, price and an optional date.
+                            </p>
+                            {priceError && <p className="text-xs text-red-500 m-0">{priceError}</p>}
+                            {priceNotice && <p className="text-xs text-amber-600 m-0">{priceNotice}</p>}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* ── Add Form ────────────────────────────────────────────────────── */}
             {showForm && (
                 <div className="bg-white rounded-2xl shadow-md border border-gray-100 p-4 flex flex-col gap-3 animate-in slide-in-from-top-2 duration-200">
-                    <h2 className="font-bold text-[#001f3f] text-base">New Transaction</h2>
+                    <h2 className="font-bold text-[#001f3f] text-base">{editingId ? 'Edit Transaction' : 'New Transaction'}</h2>
 
-                    {/* Side Toggle */}
+                    {/* Side Toggle: INIT is offered only once pasted JSON sets it, and stays put when a saved one is edited */}
                     <div className="flex bg-gray-100 rounded-xl p-1 gap-1">
-                        {(['BUY', 'SELL'] as Side[]).map((s) => (
+                        {(form.side !== 'INIT' ? ['BUY', 'SELL'] as const : editingId ? ['INIT'] as const : TRADE_SIDES).map((s) => (
                             <button
                                 key={s}
                                 onClick={() => setForm({ ...form, side: s })}
                                 className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-all
                   ${form.side === s
-                                        ? s === 'BUY' ? 'bg-blue-600 text-white shadow-sm' : 'bg-green-600 text-white shadow-sm'
+                                        ? s === 'BUY' ? 'bg-blue-600 text-white shadow-sm' : s === 'INIT' ? 'bg-purple-600 text-white shadow-sm' : 'bg-green-600 text-white shadow-sm'
                                         : 'text-gray-500 hover:bg-gray-200'}`}
                             >
                                 {s}
@@ -602,8 +628,8 @@ export default function DimeStock() {
                             className="w-full flex items-center justify-between px-3 py-2 text-amber-700 hover:bg-amber-100/50 transition-colors"
                         >
                             <span className="flex items-center gap-1.5 text-xs font-semibold">
-                                <i className="pi pi-code text-[11px]" />
-                                Fill from JSON (AI OCR)
+                                <i className="pi pi-camera text-[11px]" />
+                                Fill from Slip or JSON
                             </span>
                             <i className={`pi ${showJsonPanel ? 'pi-chevron-up' : 'pi-chevron-down'} text-[10px] text-amber-500`} />
                         </button>
@@ -611,6 +637,23 @@ export default function DimeStock() {
                         {showJsonPanel && (
                             <div className="px-3 pb-3 flex flex-col gap-3">
 
+                                {/* ── Slip scan ── */}
+                                <label className={`w-full py-2.5 rounded-xl text-xs font-bold bg-[#001f3f] text-white flex items-center justify-center gap-1.5 cursor-pointer hover:bg-[#002f5f] transition-all ${scanProgress ? 'opacity-60 pointer-events-none' : ''}`}>
+                                    {scanProgress
+                                        ? <><i className="pi pi-spin pi-spinner" />Reading slip {Math.min(scanProgress.done + 1, scanProgress.total)} of {scanProgress.total}...</>
+                                        : <><i className="pi pi-images" />Scan Slip Screenshots</>}
+                                    <input
+                                        type="file"
+                                        accept="image/*"
+                                        multiple
+                                        className="hidden"
+                                        onChange={(e) => { handleScanSlips(e.target.files); e.target.value = ''; }}
+                                    />
+                                </label>
+                                <p className="text-[10px] text-amber-600 -mt-2 leading-relaxed">
+                                    Read on this device. Check amber fields and fill red ones before importing.
+                                </p>
+
                                 {/* ── AI Prompt copy card ── */}
                                 <div className="bg-[#001f3f] rounded-xl p-3 flex flex-col gap-2">
                                     <div className="flex items-center justify-between">
@@ -641,7 +684,7 @@ export default function DimeStock() {
                                     </label>
                                     <textarea
                                         value={jsonInput}
-                                        onChange={(e) => { setJsonInput(e.target.value); setJsonError(null); setBatchPreview(null); setJsonSuccess(false); }}
+                                        onChange={(e) => { setJsonInput(e.target.value); setJsonError(null); clearBatch(); setJsonSuccess(false); }}
                                         placeholder={`{ ... }  or  [ { ... }, { ... } ]`}
                                         rows={5}
                                         autoCapitalize="none"
@@ -667,30 +710,47 @@ export default function DimeStock() {
                                         <p className="text-[10px] font-bold text-amber-700 uppercase tracking-wider">
                                             {batchPreview.length} transactions ready to import:
                                         </p>
-                                        <div className="flex flex-col gap-1 max-h-36 overflow-y-auto">
-                                            {batchPreview.map((item, i) => (
-                                                <div key={i} className="flex items-center justify-between bg-white border border-amber-100 rounded-lg px-2.5 py-1.5">
-                                                    <div className="flex items-center gap-2">
-                                                        <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${item.side === 'BUY' ? 'bg-blue-100 text-blue-700' : 'bg-green-100 text-green-700'
-                                                            }`}>{item.side}</span>
-                                                        <span className="text-xs font-bold text-[#001f3f]">{String(item.symbol).toUpperCase()}</span>
-                                                        <span className="text-[10px] text-gray-400">
-                                                            {item.side === 'BUY'
-                                                                ? `$${Number(item.input_amount_usd).toFixed(2)}`
-                                                                : `${Number(item.input_shares)} sh`}
-                                                        </span>
+                                        {batchConfidence ? (
+                                            <div className="flex flex-col gap-2 max-h-96 overflow-y-auto">
+                                                {batchPreview.map((item, i) => (
+                                                    <div key={i} className="bg-white border border-amber-100 rounded-lg p-2 flex flex-col gap-1.5">
+                                                        <SlipFieldsEditor
+                                                            input={item}
+                                                            confidence={batchConfidence[i]}
+                                                            onChange={(input, field) => updateScannedTrade(i, input, field)}
+                                                        />
+                                                        {batchIssues[i].length > 0 && (
+                                                            <p className="text-[10px] text-red-600 m-0">{batchIssues[i].join(' ')}</p>
+                                                        )}
                                                     </div>
-                                                    <span className="text-[10px] text-gray-400">@${Number(item.executed_price).toFixed(2)}</span>
-                                                </div>
-                                            ))}
-                                        </div>
+                                                ))}
+                                            </div>
+                                        ) : (
+                                            <div className="flex flex-col gap-1 max-h-36 overflow-y-auto">
+                                                {batchPreview.map((item, i) => (
+                                                    <div key={i} className="flex items-center justify-between bg-white border border-amber-100 rounded-lg px-2.5 py-1.5">
+                                                        <div className="flex items-center gap-2">
+                                                            <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${item.side === 'BUY' ? 'bg-blue-100 text-blue-700' : item.side === 'INIT' ? 'bg-purple-100 text-purple-700' : 'bg-green-100 text-green-700'
+                                                                }`}>{item.side}</span>
+                                                            <span className="text-xs font-bold text-[#001f3f]">{item.symbol}</span>
+                                                            <span className="text-[10px] text-gray-400">
+                                                                {item.side === 'BUY'
+                                                                    ? `$${Number(item.input_amount_usd).toFixed(2)}`
+                                                                    : `${Number(item.input_shares)} sh`}
+                                                            </span>
+                                                        </div>
+                                                        <span className="text-[10px] text-gray-400">@${Number(item.executed_price).toFixed(2)}</span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
                                         {batchError && (
                                             <p className="text-[11px] text-red-600 bg-red-50 px-2.5 py-1.5 rounded-lg">{batchError}</p>
                                         )}
                                         <div className="flex gap-2">
                                             <button
                                                 type="button"
-                                                onClick={() => setBatchPreview(null)}
+                                                onClick={clearBatch}
                                                 className="flex-1 py-2 rounded-xl text-xs font-bold bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
                                             >
                                                 Cancel
@@ -698,7 +758,7 @@ export default function DimeStock() {
                                             <button
                                                 type="button"
                                                 onClick={handleBatchSave}
-                                                disabled={batchSaving}
+                                                disabled={batchSaving || batchIssues.some(issues => issues.length > 0)}
                                                 className="flex-1 py-2 rounded-xl text-xs font-bold bg-amber-500 hover:bg-amber-600 text-white transition-all shadow-sm disabled:opacity-50"
                                             >
                                                 {batchSaving
@@ -760,7 +820,7 @@ export default function DimeStock() {
                         />
                     </div>
 
-                    {/* BUY: input_amount_usd | SELL: input_shares */}
+                    {/* BUY: input_amount_usd | SELL, INIT: input_shares */}
                     {form.side === 'BUY' ? (
                         <div className="flex flex-col gap-1">
                             <label className="text-[10px] font-semibold text-blue-500 uppercase tracking-wider">Input Amount USD *</label>
@@ -778,6 +838,23 @@ export default function DimeStock() {
                                 </p>
                             )}
                         </div>
+                    ) : form.side === 'INIT' ? (
+                        <div className="flex flex-col gap-1">
+                            <label className="text-[10px] font-semibold text-purple-500 uppercase tracking-wider">Opening Shares *</label>
+                            <input
+                                type="number"
+                                value={form.input_shares}
+                                onChange={(e) => setForm({ ...form, input_shares: e.target.value })}
+                                placeholder="0.0000000"
+                                step="0.0000001"
+                                className="border border-purple-200 bg-purple-50/50 rounded-lg px-3 py-2 text-sm text-purple-900 focus:outline-none focus:ring-2 focus:ring-purple-300"
+                            />
+                            {form.input_shares && form.executed_price && (
+                                <p className="text-[10px] text-purple-500 pl-1">
+                                    ≈ {formatUSD(parseFloat(form.input_shares) * parseFloat(form.executed_price))} opening value
+                                </p>
+                            )}
+                        </div>
                     ) : (
                         <div className="flex flex-col gap-1">
                             <label className="text-[10px] font-semibold text-green-500 uppercase tracking-wider">Shares to Sell *</label>
@@ -797,7 +874,10 @@ export default function DimeStock() {
                         </div>
                     )}
 
-                    {/* Fees */}
+                    {/* Fees; an opening position takes none */}
+                    {form.side === 'INIT' ? (
+                        <p className="text-[10px] text-gray-400">An opening position is valued at its price and takes no fees.</p>
+                    ) : (
                     <div>
                         <p className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-2">Fees (optional)</p>
                         <div className="grid grid-cols-2 gap-2">
@@ -822,6 +902,7 @@ export default function DimeStock() {
                             ))}
                         </div>
                     </div>
+                    )}
 
                     {saveError && (
                         <p className="text-xs text-red-500 bg-red-50 px-3 py-2 rounded-lg">{saveError}</p>
@@ -831,10 +912,10 @@ export default function DimeStock() {
                         onClick={handleSave}
                         disabled={saving}
                         className={`w-full py-2.5 rounded-xl text-sm font-bold transition-all shadow-sm
-              ${form.side === 'BUY' ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-green-600 hover:bg-green-700 text-white'}
+              ${form.side === 'BUY' ? 'bg-blue-600 hover:bg-blue-700 text-white' : form.side === 'INIT' ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-green-600 hover:bg-green-700 text-white'}
               disabled:opacity-50 disabled:cursor-not-allowed`}
                     >
-                        {saving ? <><i className="pi pi-spin pi-spinner mr-2" />Saving...</> : `Confirm ${form.side}`}
+                        {saving ? <><i className="pi pi-spin pi-spinner mr-2" />Saving...</> : editingId ? `Update ${form.side}` : `Confirm ${form.side}`}
                     </button>
                 </div>
             )}
@@ -890,6 +971,13 @@ export default function DimeStock() {
                         ${tx.side === 'BUY' ? 'bg-blue-50 text-blue-600' : tx.side === 'INIT' ? 'bg-purple-50 text-purple-600' : 'bg-green-50 text-green-600'}`}>
                                                     {tx.side}
                                                 </span>
+                                                <button
+                                                    onClick={() => startEdit(tx)}
+                                                    className="text-gray-300 hover:text-[#001f3f] transition-colors"
+                                                    aria-label="Edit"
+                                                >
+                                                    <i className="pi pi-pencil text-xs" />
+                                                </button>
                                                 <button
                                                     onClick={() => setDeleteId(tx.id)}
                                                     className="text-gray-300 hover:text-red-400 transition-colors"
@@ -952,6 +1040,22 @@ export default function DimeStock() {
             {/* ── Summary Tab ─────────────────────────────────────────────────── */}
             {activeTab === 'summary' && (
                 <div className="flex flex-col gap-2">
+                    {symbolSummaries.length > 0 && !selectedSymbol && (
+                        <div className="flex justify-between items-center pl-1">
+                            <span className="text-[10px] font-bold text-gray-400 uppercase tracking-widest">Cost method</span>
+                            <div className="grid grid-cols-2 gap-1 bg-gray-100 p-1 rounded-xl">
+                                {COST_METHODS.map(({ value, label }) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => changeCostMethod(value)}
+                                        className={`px-2 py-1 rounded-lg text-[10px] font-bold transition-all ${costMethod === value ? 'bg-white text-[#001f3f] shadow-sm' : 'text-gray-500'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                     {symbolSummaries.length === 0 ? (
                         <div className="text-center py-12 text-gray-400 bg-gray-50 rounded-2xl border border-dashed border-gray-200">
                             <i className="pi pi-chart-bar text-3xl mb-2 opacity-40 block" />
@@ -964,7 +1068,9 @@ export default function DimeStock() {
                             const symTxs = transactions
                                 .filter(t => (t.symbol || 'UNKNOWN') === selectedSymbol)
                                 .sort((a, b) => b.transaction_date.localeCompare(a.transaction_date));
-                            const realized = s.totalSellAmount > 0 ? s.totalSellAmount - s.totalBuyAmount : 0;
+                            const realized = s.realized;
+                            const value = valuation.positions[s.symbol];
+                            const saleById = new Map(s.sales.map(sale => [sale.tx.id, sale]));
                             return (
                                 <div className="flex flex-col gap-3">
                                     {/* Back header */}
@@ -986,7 +1092,7 @@ export default function DimeStock() {
                                             </div>
                                             {realized !== 0 && (
                                                 <div className="text-right">
-                                                    <p className="text-[10px] text-blue-400 uppercase tracking-wider">Net P&L</p>
+                                                    <p className="text-[10px] text-blue-400 uppercase tracking-wider">Realized P&L</p>
                                                     <p className={`text-lg font-bold ${realized >= 0 ? 'text-emerald-300' : 'text-red-300'}`}>
                                                         {realized >= 0 ? '+' : ''}{formatUSD(realized)}
                                                     </p>
@@ -996,24 +1102,32 @@ export default function DimeStock() {
 
                                         {/* Hero: stock value */}
                                         <div className="mt-3 mb-3">
-                                            <p className="text-[10px] text-blue-400 uppercase tracking-wider mb-0.5">Stock Amount</p>
-                                            <p className="text-3xl font-bold">{formatUSD(s.totalStockAmount)}</p>
+                                            <p className="text-[10px] text-blue-400 uppercase tracking-wider mb-0.5">Cost Held</p>
+                                            <p className="text-3xl font-bold">{formatUSD(s.cost)}</p>
                                         </div>
 
                                         {/* Key metrics row */}
                                         <div className="flex gap-4 text-[11px] border-t border-white/10 pt-3">
                                             <div>
                                                 <p className="text-blue-400 mb-0.5">Shares</p>
-                                                <p className="font-semibold">{s.totalShares.toFixed(7)}</p>
+                                                <p className="font-semibold">{s.shares.toFixed(7)}</p>
                                             </div>
                                             <div>
-                                                <p className="text-blue-400 mb-0.5">Avg Buy</p>
-                                                <p className="font-semibold">{formatUSD(s.avgBuyPrice)}</p>
+                                                <p className="text-blue-400 mb-0.5">Avg Cost</p>
+                                                <p className="font-semibold">{formatUSD(s.averageCost)}</p>
                                             </div>
-                                            {s.totalSellAmount > 0 && (
+                                            {value?.marketValue != null && (
+                                                <div>
+                                                    <p className="text-blue-400 mb-0.5">Value @ {formatUSD(value.quote!.price)}</p>
+                                                    <p className={`font-semibold ${value.unrealized! >= 0 ? 'text-emerald-300' : 'text-red-300'}`}>
+                                                        {formatUSD(value.marketValue)} ({formatPct(value.returnPct)})
+                                                    </p>
+                                                </div>
+                                            )}
+                                            {s.proceeds > 0 && (
                                                 <div>
                                                     <p className="text-blue-400 mb-0.5">Sold</p>
-                                                    <p className="font-semibold text-emerald-300">{formatUSD(s.totalSellAmount)}</p>
+                                                    <p className="font-semibold text-emerald-300">{formatUSD(s.proceeds)}</p>
                                                 </div>
                                             )}
                                         </div>
@@ -1036,6 +1150,13 @@ export default function DimeStock() {
                                                     <div className="flex items-center gap-2">
                                                         <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase ${tx.side === 'BUY' ? 'bg-blue-50 text-blue-600' : tx.side === 'INIT' ? 'bg-purple-50 text-purple-600' : 'bg-emerald-50 text-emerald-600'
                                                             }`}>{tx.side}</span>
+                                                        <button
+                                                            onClick={() => startEdit(tx)}
+                                                            className="text-gray-300 hover:text-[#001f3f] transition-colors"
+                                                            aria-label="Edit"
+                                                        >
+                                                            <i className="pi pi-pencil text-xs" />
+                                                        </button>
                                                         <button
                                                             onClick={() => setDeleteId(tx.id)}
                                                             className="text-gray-300 hover:text-red-400 transition-colors"
@@ -1073,6 +1194,15 @@ export default function DimeStock() {
                                                         {Number(tx.taf_fee) > 0 && (
                                                             <span className="inline-flex items-center bg-orange-50 text-orange-500 text-[10px] font-semibold px-2 py-0.5 rounded-full">TAF {formatUSD(tx.taf_fee)}</span>
                                                         )}
+                                                        {saleById.has(tx.id) && (() => {
+                                                            const sale = saleById.get(tx.id)!;
+                                                            return (
+                                                                <span className={`inline-flex items-center text-[10px] font-semibold px-2 py-0.5 rounded-full ${sale.gain >= 0 ? 'bg-emerald-50 text-emerald-600' : 'bg-red-50 text-red-500'}`}>
+                                                                    P&amp;L {sale.gain >= 0 ? '+' : ''}{formatUSD(sale.gain)}
+                                                                    {sale.unmatched > 0 && ` · ${sale.unmatched.toFixed(4)} sh unmatched`}
+                                                                </span>
+                                                            );
+                                                        })()}
                                                     </div>
                                                     {/* Amount: INIT shows stock_amount, others show total_amount */}
                                                     <span className="font-bold text-gray-900 shrink-0 ml-2">
@@ -1099,7 +1229,8 @@ export default function DimeStock() {
                     ) : (
                         /* ── Symbol List ──────────────────────────────────── */
                         symbolSummaries.map((s) => {
-                            const realized = s.totalSellAmount > 0 ? s.totalSellAmount - s.totalBuyAmount : 0;
+                            const realized = s.realized;
+                            const value = valuation.positions[s.symbol];
                             return (
                                 <button
                                     key={s.symbol}
@@ -1121,21 +1252,32 @@ export default function DimeStock() {
 
                                     {/* Main stock amount */}
                                     <div className="bg-blue-50 rounded-xl p-3 mb-2">
-                                        <p className="text-[10px] text-blue-400 font-semibold uppercase tracking-wider mb-0.5">Stock Amount</p>
-                                        <p className="text-lg font-bold text-blue-700">{formatUSD(s.totalStockAmount)}</p>
-                                        {s.totalShares > 0 && (
-                                            <p className="text-[10px] text-blue-400 mt-0.5">{s.totalShares.toFixed(7)} shares held</p>
+                                        <p className="text-[10px] text-blue-400 font-semibold uppercase tracking-wider mb-0.5">Cost Held</p>
+                                        <p className="text-lg font-bold text-blue-700">{formatUSD(s.cost)}</p>
+                                        {s.shares > 0 && (
+                                            <p className="text-[10px] text-blue-400 mt-0.5">{s.shares.toFixed(7)} shares held</p>
+                                        )}
+                                        {value?.marketValue != null && (
+                                            <div className="flex justify-between items-baseline mt-1.5 pt-1.5 border-t border-blue-100">
+                                                <span className="text-[11px] text-blue-700 font-semibold">
+                                                    {formatUSD(value.marketValue)}
+                                                    <span className="text-[10px] text-blue-400 font-normal ml-1">{value.weight != null ? `${(value.weight * 100).toFixed(1)}% of portfolio` : ''}</span>
+                                                </span>
+                                                <span className={`text-[11px] font-bold ${value.unrealized! >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                                                    {value.unrealized! >= 0 ? '+' : ''}{formatUSD(value.unrealized)} ({formatPct(value.returnPct)})
+                                                </span>
+                                            </div>
                                         )}
                                     </div>
 
                                     <div className="grid grid-cols-3 gap-2 text-[11px]">
                                         <div className="bg-green-50 rounded-lg p-2">
                                             <p className="text-green-400 font-semibold mb-0.5">Sold</p>
-                                            <p className="text-green-800 font-bold">{formatUSD(s.totalSellAmount)}</p>
+                                            <p className="text-green-800 font-bold">{formatUSD(s.proceeds)}</p>
                                         </div>
                                         <div className="bg-gray-50 rounded-lg p-2">
-                                            <p className="text-gray-400 font-semibold mb-0.5">Avg Price</p>
-                                            <p className="text-gray-800 font-bold">{formatUSD(s.avgBuyPrice)}</p>
+                                            <p className="text-gray-400 font-semibold mb-0.5">Avg Cost</p>
+                                            <p className="text-gray-800 font-bold">{formatUSD(s.averageCost)}</p>
                                         </div>
                                         <div className={`rounded-lg p-2 ${realized >= 0 ? 'bg-emerald-50' : 'bg-red-50'}`}>
                                             <p className={`font-semibold mb-0.5 ${realized >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>P&amp;L</p>
@@ -1,38 +1,67 @@
 
-import { useEffect, useState, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../supabaseClient';
-import type { PantagonUSD } from '../types';
+import { fxQuery } from '../data/queries';
+import { useQuery } from '../data/queryCache';
+import { deriveThbRates, formatMoney } from '../lib/currency';
+import { COST_METHODS, computeCostBasis, realizedByPeriod, unrealizedGain } from '../lib/fxCostBasis';
+import type { CostMethod } from '../lib/fxCostBasis';
+import { crossPairFlows, currencyFlows, rateLabel } from '../lib/fxPairs';
+import type { CurrencyFlow } from '../lib/fxPairs';
+import FxRateChart from '../components/FxRateChart';
+
+const COST_METHOD_KEY = 'pantagon.fxCostMethod';
+
+type RealizedView = 'conversion' | 'month' | 'year';
+
+const formatUnits = (value: number) =>
+    value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const gainClass = (value: number) => value > 0.005 ? 'text-green-600' : value < -0.005 ? 'text-red-500' : 'text-gray-500';
+
+function CurrencyPanel({ flow }: { flow: CurrencyFlow }) {
+    return (
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex flex-col gap-3">
+            <div className="flex justify-between items-start">
+                <div className="flex items-center gap-2">
+                    <div className="w-9 h-9 rounded-full bg-blue-100 flex items-center justify-center">
+                        <span className="text-blue-600 font-bold text-[10px]">{flow.currency}</span>
+                    </div>
+                    <div className="text-[10px] text-gray-400">{flow.count} conversion{flow.count !== 1 ? 's' : ''}</div>
+                </div>
+                <div className="text-right">
+                    <div className="text-lg font-bold text-[#001f3f]">{flow.averageRate ? flow.averageRate.toFixed(4) : '—'}</div>
+                    <div className="text-[10px] text-gray-400">{flow.averageRate ? `avg THB per ${flow.currency}` : 'no THB conversions'}</div>
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 bg-gray-50 rounded-xl p-3">
+                <div>
+                    <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">In</div>
+                    <div className="text-sm font-bold text-gray-800 truncate">{formatUnits(flow.bought)}</div>
+                    <div className="text-[10px] text-gray-400">for {formatMoney(flow.thbPaid, 'THB')}</div>
+                </div>
+                <div>
+                    <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Out</div>
+                    <div className="text-sm font-bold text-gray-800 truncate">{formatUnits(flow.sold)}</div>
+                    <div className="text-[10px] text-gray-400">for {formatMoney(flow.thbReceived, 'THB')}</div>
+                </div>
+            </div>
+        </div>
+    );
+}
 
 export default function FXAnalytics() {
     const navigate = useNavigate();
-    const [data, setData] = useState<PantagonUSD[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const fxState = useQuery(fxQuery);
+    const data = useMemo(() => fxState.data ?? [], [fxState.data]);
 
     // Filter States
     const [selectedYear, setSelectedYear] = useState<string>('All');
     const [selectedCurrency, setSelectedCurrency] = useState<string>('USD');
-
-    useEffect(() => {
-        fetchData();
-    }, []);
-
-    const fetchData = async () => {
-        try {
-            setLoading(true);
-            const { data, error } = await supabase
-                .from('pantagon_usd')
-                .select('*');
-
-            if (error) throw error;
-            setData(data || []);
-        } catch (err: any) {
-            setError(err.message);
-        } finally {
-            setLoading(false);
-        }
-    };
+    const [costMethod, setCostMethod] = useState<CostMethod>(() =>
+        localStorage.getItem(COST_METHOD_KEY) === 'weighted' ? 'weighted' : 'fifo'
+    );
+    const [realizedView, setRealizedView] = useState<RealizedView>('month');
 
     // Derived Lists
     const availableYears = useMemo(() => {
@@ -50,103 +79,47 @@ export default function FXAnalytics() {
         return Array.from(currs).sort();
     }, [data]);
 
-    // Filtering
-    const filteredData = useMemo(() => {
-        return data.filter(item => {
-            const date = new Date(item.transaction_at);
-            const matchYear = selectedYear === 'All' || date.getFullYear().toString() === selectedYear;
-
-            // Currency Filter: 
-            // We want transactions involving the selected currency (e.g. USD).
-            // So either from_currency or to_currency must match.
-            // If selectedCurrency is 'All', usually we might just show global THB stats, 
-            // but for "Foreign In/Out" summing mixed currencies doesn't make sense.
-            // So if 'All', we might hide Foreign cards or sum them if user accepts (but effectively meaningless).
-            // Let's assume 'USD' is default and users select specific currency to see foreign stats.
-            const matchCurrency = selectedCurrency === 'All' ||
-                item.from_currency === selectedCurrency ||
-                item.to_currency === selectedCurrency;
-
-            return matchYear && matchCurrency;
-        });
-    }, [data, selectedYear, selectedCurrency]);
-
-    // Analytics Calculation
-    const analytics = useMemo(() => {
-        let totalThbIn = 0;
-        let totalThbOut = 0;
-        let totalForeignIn = 0;
-        let totalForeignOut = 0;
-
-        let count = 0;
-
-        filteredData.forEach(item => {
-            // THB Flow
-            // THB In: Receiving THB OR Selling Selected Currency (Source = Selected)
-            // THB Out: Spending THB OR Buying Selected Currency (Dest = Selected)
-
-            const isSellingForeign = selectedCurrency !== 'All' && item.from_currency === selectedCurrency;
-            const isBuyingForeign = selectedCurrency !== 'All' && item.to_currency === selectedCurrency;
-
-            if (item.to_currency === 'THB' || isSellingForeign) {
-                totalThbIn += Number(item.thb_amount || 0);
-            }
-
-            if (item.from_currency === 'THB' || isBuyingForeign) {
-                totalThbOut += Number(item.thb_amount || 0);
-            }
-
-            // Foreign Flow (relative to selectedCurrency)
-            if (selectedCurrency !== 'All') {
-                // Foreign In: Receiving selected currency
-                if (item.to_currency === selectedCurrency) {
-                    totalForeignIn += item.foreign_amount;
-                }
-                // Foreign Out: Spending selected currency
-                if (item.from_currency === selectedCurrency) {
-                    totalForeignOut += item.foreign_amount;
-                }
-            }
-
-            // For Weighted Average: Sum all foreign volume in this filter view
-            // We use item.foreign_amount as the volume weight
-            // And item.thb_amount as the value
-            // (Note: This assumes thb_amount corresponds to the value of foreign_amount)
-
-            // We use the sum of THB In + THB Out as the total THB volume involved
-            // But item.thb_amount is simpler and more direct for every transaction row
-
-            count++;
-        });
+    // Volumes stay in each currency's own units; 'All' shows one panel per currency
+    const yearData = useMemo(() => data.filter(item =>
+        selectedYear === 'All' || new Date(item.transaction_at).getFullYear().toString() === selectedYear
+    ), [data, selectedYear]);
 
-        // Weighted Average Calculation
-        // Formula: Sum(THB Amount) / Sum(Foreign Amount)
-        // We need to iterate again or accumulate during the loop. 
-        // Let's use reduce for clarity or just add to the loop above.
-        // Actually, let's just sum it up in the loop for efficiency.
+    const flows = useMemo(() => currencyFlows(yearData), [yearData]);
+    const crossPairs = useMemo(() => crossPairFlows(yearData).filter(pair =>
+        selectedCurrency === 'All' || pair.direction.base === selectedCurrency || pair.direction.quote === selectedCurrency
+    ), [yearData, selectedCurrency]);
+    const flow = flows.find(f => f.currency === selectedCurrency);
 
-        const totalThbVolume = data.reduce((acc, item) => {
-            // We only care about filtered items
-            const isIncluded = filteredData.includes(item);
-            return isIncluded ? acc + Number(item.thb_amount || 0) : acc;
-        }, 0);
-
-        const totalForeignVolume = filteredData.reduce((acc, item) => acc + Number(item.foreign_amount || 0), 0);
+    const changeCostMethod = (method: CostMethod) => {
+        setCostMethod(method);
+        localStorage.setItem(COST_METHOD_KEY, method);
+    };
 
-        const weightedAvgRate = totalForeignVolume > 0 ? totalThbVolume / totalForeignVolume : 0;
+    // Lots are matched over the whole history; the year filter only picks which sells to report
+    const costBasis = useMemo(
+        () => selectedCurrency === 'All' ? null : computeCostBasis(data, selectedCurrency, costMethod),
+        [data, selectedCurrency, costMethod]
+    );
 
+    const realized = useMemo(() => {
+        const sales = (costBasis?.sales ?? []).filter(sale =>
+            selectedYear === 'All' || new Date(sale.row.transaction_at).getFullYear().toString() === selectedYear
+        );
         return {
-            totalThbIn,
-            totalThbOut,
-            totalForeignIn,
-            totalForeignOut,
-            avgRate: weightedAvgRate,
-            count
+            sales: [...sales].reverse(),
+            months: realizedByPeriod(sales, 'month'),
+            years: realizedByPeriod(sales, 'year'),
+            gain: sales.reduce((sum, sale) => sum + sale.gain, 0),
+            unmatched: sales.some(sale => sale.unmatched > 0),
         };
-    }, [filteredData, selectedCurrency, data]);
+    }, [costBasis, selectedYear]);
+
+    // Held units are valued at the most recent conversion's rate
+    const marketRate = useMemo(() => deriveThbRates(data, 'latest')[selectedCurrency] ?? 0, [data, selectedCurrency]);
+    const unrealized = costBasis && marketRate ? unrealizedGain(costBasis, marketRate) : null;
 
-    if (loading) return <div className="p-4 text-center">Loading...</div>;
-    if (error) return <div className="p-4 text-center text-red-500">Error: {error}</div>;
+    if (fxState.loading) return <div className="p-4 text-center">Loading...</div>;
+    if (fxState.error && !fxState.data) return <div className="p-4 text-center text-red-500">Error: {fxState.error.message}</div>;
 
     return (
         <div className="p-4 pb-24 max-w-lg mx-auto">
@@ -182,6 +155,7 @@ export default function FXAnalytics() {
                         onChange={(e) => setSelectedCurrency(e.target.value)}
                         className="bg-white border border-gray-200 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5 shadow-sm"
                     >
+                        <option value="All">All Currencies</option>
                         {availableCurrencies.map(curr => (
                             <option key={curr} value={curr}>{curr}</option>
                         ))}
@@ -190,63 +164,208 @@ export default function FXAnalytics() {
             </div>
 
             <div className="grid gap-4">
-                <div className="bg-gradient-to-br from-indigo-500 to-blue-600 p-6 rounded-2xl shadow-lg text-white relative overflow-hidden">
-                    <div className="relative z-10">
-                        <div className="text-blue-100 text-sm font-medium uppercase tracking-wider mb-2">Average Rate</div>
-                        <div className="text-4xl font-bold">{analytics.avgRate.toFixed(4)}</div>
-                        <div className="text-blue-200 text-xs mt-2">Based on {analytics.count} transactions</div>
-                    </div>
-                    <i className="pi pi-chart-line absolute -right-4 -bottom-4 text-9xl text-white opacity-10"></i>
-                </div>
-
-                {/* Foreign Currency Section */}
-                <div className="grid grid-cols-2 gap-4">
-                    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
-                        <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center mb-3">
-                            <span className="text-blue-600 font-bold text-xs">{selectedCurrency}</span>
+                {selectedCurrency === 'All' ? (
+                    flows.length > 0 ? (
+                        flows.map(f => <CurrencyPanel key={f.currency} flow={f} />)
+                    ) : (
+                        <div className="text-center text-xs text-gray-400 py-6">No conversions in this period.</div>
+                    )
+                ) : (
+                    <>
+                        <div className="bg-gradient-to-br from-indigo-500 to-blue-600 p-6 rounded-2xl shadow-lg text-white relative overflow-hidden">
+                            <div className="relative z-10">
+                                <div className="text-blue-100 text-sm font-medium uppercase tracking-wider mb-2">Average Rate</div>
+                                <div className="text-4xl font-bold">{flow?.averageRate ? flow.averageRate.toFixed(4) : '—'}</div>
+                                <div className="text-blue-200 text-xs mt-2">
+                                    THB per {selectedCurrency} · based on {flow?.count ?? 0} transactions
+                                </div>
+                            </div>
+                            <i className="pi pi-chart-line absolute -right-4 -bottom-4 text-9xl text-white opacity-10"></i>
                         </div>
-                        <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">{selectedCurrency} In</div>
-                        <div className="text-xl font-bold text-gray-800 mt-1 truncate">
-                            {analytics.totalForeignIn.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+
+                        <FxRateChart rows={data} currency={selectedCurrency} year={selectedYear} />
+
+                        {/* Foreign Currency Section */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+                                <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center mb-3">
+                                    <span className="text-blue-600 font-bold text-xs">{selectedCurrency}</span>
+                                </div>
+                                <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">{selectedCurrency} In</div>
+                                <div className="text-xl font-bold text-gray-800 mt-1 truncate">{formatUnits(flow?.bought ?? 0)}</div>
+                            </div>
+
+                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+                                <div className="w-10 h-10 rounded-full bg-orange-100 flex items-center justify-center mb-3">
+                                    <span className="text-orange-600 font-bold text-xs">{selectedCurrency}</span>
+                                </div>
+                                <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">{selectedCurrency} Out</div>
+                                <div className="text-xl font-bold text-gray-800 mt-1 truncate">{formatUnits(flow?.sold ?? 0)}</div>
+                            </div>
                         </div>
-                    </div>
 
-                    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
-                        <div className="w-10 h-10 rounded-full bg-orange-100 flex items-center justify-center mb-3">
-                            <span className="text-orange-600 font-bold text-xs">{selectedCurrency}</span>
+                        {/* THB Section: only conversions against THB */}
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+                                <div className="w-10 h-10 rounded-full bg-green-100 flex items-center justify-center mb-3">
+                                    <i className="pi pi-arrow-down-left text-green-600 font-bold"></i>
+                                </div>
+                                <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">THB In</div>
+                                <div className="text-xl font-bold text-gray-800 mt-1 truncate">
+                                    {(flow?.thbReceived ?? 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                </div>
+                            </div>
+
+                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
+                                <div className="w-10 h-10 rounded-full bg-red-100 flex items-center justify-center mb-3">
+                                    <i className="pi pi-arrow-up-right text-red-600 font-bold"></i>
+                                </div>
+                                <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">THB Out</div>
+                                <div className="text-xl font-bold text-gray-800 mt-1 truncate">
+                                    {(flow?.thbPaid ?? 0).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                                </div>
+                            </div>
                         </div>
-                        <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">{selectedCurrency} Out</div>
-                        <div className="text-xl font-bold text-gray-800 mt-1 truncate">
-                            {analytics.totalForeignOut.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+
+                        {flow && flow.unsized > 0 && (
+                            <p className="text-[10px] text-amber-600 bg-amber-50 px-3 py-2 rounded-lg m-0">
+                                {flow.unsized} cross conversion{flow.unsized !== 1 ? 's' : ''} out of {selectedCurrency} have no rate, so the amount sold is unknown and left out.
+                            </p>
+                        )}
+                    </>
+                )}
+
+                {/* Cross pairs never feed a THB average; each keeps its own quote */}
+                {crossPairs.length > 0 && (
+                    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 flex flex-col gap-2">
+                        <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">Cross Pairs</div>
+                        <div className="flex flex-col divide-y divide-gray-50">
+                            {crossPairs.map(pair => (
+                                <div key={rateLabel(pair.direction)} className="flex justify-between items-center py-2">
+                                    <div>
+                                        <div className="text-xs font-bold text-gray-700">{pair.direction.base} / {pair.direction.quote}</div>
+                                        <div className="text-[10px] text-gray-400">
+                                            {formatUnits(pair.baseAmount)} {pair.direction.base} ↔ {formatUnits(pair.quoteAmount)} {pair.direction.quote} · {pair.count} conversion{pair.count !== 1 ? 's' : ''}
+                                        </div>
+                                    </div>
+                                    <div className="text-right">
+                                        <div className="text-sm font-bold text-[#001f3f]">{pair.averageRate ? pair.averageRate.toFixed(4) : '—'}</div>
+                                        <div className="text-[10px] text-gray-400">{rateLabel(pair.direction)}</div>
+                                    </div>
+                                </div>
+                            ))}
                         </div>
                     </div>
-                </div>
-
-                {/* THB Section */}
-                <div className="grid grid-cols-2 gap-4">
-                    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
-                        <div className="w-10 h-10 rounded-full bg-green-100 flex items-center justify-center mb-3">
-                            <i className="pi pi-arrow-down-left text-green-600 font-bold"></i>
+                )}
+
+                {/* Cost basis & realized gain/loss */}
+                {costBasis && (
+                    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 flex flex-col gap-4">
+                        <div className="flex justify-between items-start">
+                            <div>
+                                <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">Realized P/L</div>
+                                <div className={`text-2xl font-bold mt-1 ${gainClass(realized.gain)}`}>
+                                    {realized.gain > 0 ? '+' : ''}{formatMoney(realized.gain, 'THB')}
+                                </div>
+                                <div className="text-[10px] text-gray-400 mt-0.5">
+                                    {realized.sales.length} {selectedCurrency} sell{realized.sales.length !== 1 ? 's' : ''}
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-1 bg-gray-100 p-1 rounded-xl">
+                                {COST_METHODS.map(({ value, label }) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => changeCostMethod(value)}
+                                        className={`px-2 py-1 rounded-lg text-[10px] font-bold transition-all ${costMethod === value ? 'bg-white text-[#001f3f] shadow-sm' : 'text-gray-500'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
                         </div>
-                        <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">THB In</div>
-                        <div className="text-xl font-bold text-gray-800 mt-1 truncate">
-                            {analytics.totalThbIn.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+
+                        <div className="grid grid-cols-3 gap-2 bg-gray-50 rounded-xl p-3">
+                            <div>
+                                <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Held</div>
+                                <div className="text-sm font-bold text-gray-800 truncate">{formatUnits(costBasis.held)}</div>
+                                <div className="text-[10px] text-gray-400">{selectedCurrency}</div>
+                            </div>
+                            <div>
+                                <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Avg Cost</div>
+                                <div className="text-sm font-bold text-gray-800">{costBasis.averageCost ? costBasis.averageCost.toFixed(4) : '—'}</div>
+                                <div className="text-[10px] text-gray-400">THB / {selectedCurrency}</div>
+                            </div>
+                            <div>
+                                <div className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Unrealized</div>
+                                <div className={`text-sm font-bold truncate ${unrealized ? gainClass(unrealized.gain) : 'text-gray-400'}`}>
+                                    {unrealized ? `${unrealized.gain > 0 ? '+' : ''}${formatMoney(unrealized.gain, 'THB')}` : '—'}
+                                </div>
+                                <div className="text-[10px] text-gray-400">{marketRate ? `at ${marketRate.toFixed(4)}` : 'no rate'}</div>
+                            </div>
                         </div>
-                    </div>
 
-                    <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100">
-                        <div className="w-10 h-10 rounded-full bg-red-100 flex items-center justify-center mb-3">
-                            <i className="pi pi-arrow-up-right text-red-600 font-bold"></i>
+                        <div className="grid grid-cols-3 gap-1 bg-gray-100 p-1 rounded-xl">
+                            {([['conversion', 'Sells'], ['month', 'Months'], ['year', 'Years']] as const).map(([value, label]) => (
+                                <button
+                                    key={value}
+                                    onClick={() => setRealizedView(value)}
+                                    className={`py-1.5 rounded-lg text-xs font-bold transition-all ${realizedView === value ? 'bg-white text-[#001f3f] shadow-sm' : 'text-gray-500'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
                         </div>
-                        <div className="text-gray-500 text-xs font-semibold uppercase tracking-wide">THB Out</div>
-                        <div className="text-xl font-bold text-gray-800 mt-1 truncate">
-                            {analytics.totalThbOut.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+
+                        <div className="flex flex-col divide-y divide-gray-50">
+                            {realizedView === 'conversion' && realized.sales.map(sale => (
+                                <div key={sale.row.id} className="flex justify-between items-center py-2">
+                                    <div>
+                                        <div className="text-xs font-bold text-gray-700">
+                                            {formatUnits(sale.units)} {selectedCurrency} @ {(sale.proceeds / sale.units).toFixed(4)}
+                                        </div>
+                                        <div className="text-[10px] text-gray-400">
+                                            {new Date(sale.row.transaction_at).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}
+                                            {' · cost '}{formatMoney(sale.cost, 'THB')}
+                                            {sale.unmatched > 0 && <span className="text-amber-600"> · {formatUnits(sale.unmatched)} unmatched</span>}
+                                        </div>
+                                    </div>
+                                    <div className={`text-sm font-bold ${gainClass(sale.gain)}`}>
+                                        {sale.gain > 0 ? '+' : ''}{formatMoney(sale.gain, 'THB')}
+                                    </div>
+                                </div>
+                            ))}
+                            {realizedView !== 'conversion' && (realizedView === 'month' ? realized.months : realized.years).map(period => (
+                                <div key={period.key} className="flex justify-between items-center py-2">
+                                    <div>
+                                        <div className="text-xs font-bold text-gray-700">
+                                            {realizedView === 'month'
+                                                ? new Date(`${period.key}-01T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+                                                : period.key}
+                                        </div>
+                                        <div className="text-[10px] text-gray-400">
+                                            {period.count} sell{period.count !== 1 ? 's' : ''} · proceeds {formatMoney(period.proceeds, 'THB')}
+                                        </div>
+                                    </div>
+                                    <div className={`text-sm font-bold ${gainClass(period.gain)}`}>
+                                        {period.gain > 0 ? '+' : ''}{formatMoney(period.gain, 'THB')}
+                                    </div>
+                                </div>
+                            ))}
+                            {realized.sales.length === 0 && (
+                                <div className="text-center text-xs text-gray-400 py-4">No {selectedCurrency} sold back in this period.</div>
+                            )}
                         </div>
+
+                        {realized.unmatched && (
+                            <p className="text-[10px] text-amber-600 bg-amber-50 px-3 py-2 rounded-lg m-0">
+                                Some sells exceed the {selectedCurrency} bought before them; the unmatched units are left out of the gain.
+                            </p>
+                        )}
                     </div>
-                </div>
+                )}
 
                 <div className="bg-gray-50 p-4 rounded-xl text-center text-xs text-gray-400 mt-4">
-                    Showing statistics for <strong>{selectedYear === 'All' ? 'All Time' : selectedYear}</strong> and <strong>{selectedCurrency}</strong> flow.
+                    Showing statistics for <strong>{selectedYear === 'All' ? 'All Time' : selectedYear}</strong> and <strong>{selectedCurrency === 'All' ? 'every currency' : selectedCurrency}</strong> flow.
                 </div>
             </div>
         </div>
@@ -1,7 +1,10 @@
 
-import { useEffect, useState, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '../supabaseClient';
+import { fxRepository } from '../data/fxRepository';
+import { fxQuery } from '../data/queries';
+import { invalidate, useQuery } from '../data/queryCache';
+import { foreignCurrency, isCrossPair, rateDirection, rateLabel } from '../lib/fxPairs';
 import type { PantagonUSD } from '../types';
 
 const MONTHS = [
@@ -9,11 +12,35 @@ const MONTHS = [
     'July', 'August', 'September', 'October', 'November', 'December'
 ];
 
+const FORM_CURRENCIES = ['THB', 'USD', 'FCD', 'SAVE'];
+
+// A blank rate against THB is derived from the two amounts; a cross pair has
+// to be quoted since thb_amount only values it
+function resolveExchangeRate(rate: string, thb: number, foreign: number, from: string, to: string): number {
+    const entered = Number(rate);
+    if (!entered && !isCrossPair(from, to) && foreign > 0 && thb > 0) return thb / foreign;
+    return entered;
+}
+
+// datetime-local inputs take local time without a zone
+function toLocalInput(iso: string): string {
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+interface EditState {
+    id: number;
+    transaction_at: string;
+    thb_amount: string;
+    foreign_amount: string;
+    exchange_rate: string;
+    rateEdited: boolean; // typed by hand, so amount edits no longer rederive it
+}
+
 export default function FXPage() {
     const navigate = useNavigate();
-    const [data, setData] = useState<PantagonUSD[]>([]);
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const fxState = useQuery(fxQuery);
+    const data = useMemo(() => fxState.data ?? [], [fxState.data]);
 
     // Form states
     const [showForm, setShowForm] = useState(false);
@@ -27,58 +54,33 @@ export default function FXPage() {
         exchange_rate: ''
     });
 
+    // Inline edit / delete on the month list
+    const [editing, setEditing] = useState<EditState | null>(null);
+    const [editSaving, setEditSaving] = useState(false);
+    const [deleteId, setDeleteId] = useState<number | null>(null);
+
     // Filter states
-    const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
-    const [selectedMonth, setSelectedMonth] = useState<number>(new Date().getMonth());
+    const [period, setPeriod] = useState<{ year: number; month: number } | null>(null);
     const [selectedFromCurrency, setSelectedFromCurrency] = useState<string>('All');
     const [selectedToCurrency, setSelectedToCurrency] = useState<string>('All');
 
-    useEffect(() => {
-        fetchData();
-    }, []);
-
-    const fetchData = async () => {
-        try {
-            setLoading(true);
-            const { data, error } = await supabase
-                .from('pantagon_usd')
-                .select('*')
-                .order('transaction_at', { ascending: false });
-
-            if (error) {
-                throw error;
-            }
-
-            setData(data || []);
+    // Until the user picks a month, show the one with the latest exchange
+    const latestDate = data.length > 0 ? new Date(data[0].transaction_at) : new Date();
+    const selectedYear = period?.year ?? latestDate.getFullYear();
+    const selectedMonth = period?.month ?? latestDate.getMonth();
 
-            // Set initial year/month from data if available
-            if (data && data.length > 0) {
-                const latestDate = new Date(data[0].transaction_at);
-                setSelectedYear(latestDate.getFullYear());
-                setSelectedMonth(latestDate.getMonth());
-            }
-
-        } catch (err: any) {
-            setError(err.message);
-        } finally {
-            setLoading(false);
-        }
-    };
+    const formPairChosen = Boolean(form.from_currency && form.to_currency);
+    const formCross = formPairChosen && isCrossPair(form.from_currency, form.to_currency);
 
     const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
         setFormLoading(true);
         try {
-            // Calculate exchange rate if empty
-            let finalRate = Number(form.exchange_rate);
             const foreign = Number(form.foreign_amount);
             const thb = Number(form.thb_amount);
+            const finalRate = resolveExchangeRate(form.exchange_rate, thb, foreign, form.from_currency, form.to_currency);
 
-            if (!finalRate && foreign > 0 && thb > 0) {
-                finalRate = thb / foreign;
-            }
-
-            const { error } = await supabase.from('pantagon_usd').insert({
+            await fxRepository.insert({
                 transaction_at: new Date(form.transaction_at).toISOString(),
                 from_currency: form.from_currency,
                 to_currency: form.to_currency,
@@ -86,8 +88,7 @@ export default function FXPage() {
                 foreign_amount: foreign,
                 exchange_rate: finalRate
             });
-
-            if (error) throw error;
+            invalidate('pantagon_usd');
 
             setShowForm(false);
             setForm({
@@ -98,7 +99,6 @@ export default function FXPage() {
                 foreign_amount: '',
                 exchange_rate: ''
             });
-            fetchData();
         } catch (err: any) {
             alert(err.message);
         } finally {
@@ -106,6 +106,69 @@ export default function FXPage() {
         }
     };
 
+    const startEdit = (item: PantagonUSD) => {
+        setDeleteId(null);
+        setEditing({
+            id: item.id,
+            transaction_at: toLocalInput(item.transaction_at),
+            thb_amount: String(item.thb_amount),
+            foreign_amount: String(item.foreign_amount),
+            exchange_rate: String(item.exchange_rate),
+            rateEdited: false
+        });
+    };
+
+    // A THB pair's rate follows its amounts; a cross pair's cannot be derived from them
+    const setEditAmounts = (patch: Pick<EditState, 'thb_amount'> | Pick<EditState, 'foreign_amount'>) => {
+        if (!editing) return;
+        const next = { ...editing, ...patch };
+        const item = data.find(row => row.id === editing.id);
+        const thb = Number(next.thb_amount);
+        const foreign = Number(next.foreign_amount);
+        if (!next.rateEdited && item && !isCrossPair(item.from_currency, item.to_currency) && thb > 0 && foreign > 0) {
+            next.exchange_rate = String(thb / foreign);
+        }
+        setEditing(next);
+    };
+
+    const handleUpdate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+
+        const item = data.find(row => row.id === editing.id);
+        const thb = Number(editing.thb_amount);
+        const foreign = Number(editing.foreign_amount);
+        setEditSaving(true);
+        try {
+            await fxRepository.update(editing.id, {
+                transaction_at: new Date(editing.transaction_at).toISOString(),
+                thb_amount: thb,
+                foreign_amount: foreign,
+                exchange_rate: resolveExchangeRate(editing.exchange_rate, thb, foreign, item?.from_currency ?? '', item?.to_currency ?? '')
+            });
+        } catch (error) {
+            console.error('Error updating FX transaction:', error);
+            alert('Update failed: ' + (error as Error).message);
+            return;
+        } finally {
+            setEditSaving(false);
+        }
+        setEditing(null);
+        invalidate('pantagon_usd');
+    };
+
+    const handleDelete = async (id: number) => {
+        try {
+            await fxRepository.remove(id);
+        } catch (error) {
+            console.error('Error deleting FX transaction:', error);
+            alert('Delete failed: ' + (error as Error).message);
+            return;
+        }
+        setDeleteId(null);
+        invalidate('pantagon_usd');
+    };
+
     // Derived lists for dropdowns
     const availableYears = useMemo(() => {
         const years = new Set(data.map(item => new Date(item.transaction_at).getFullYear()));
@@ -135,24 +198,22 @@ export default function FXPage() {
 
     const handlePrevMonth = () => {
         if (selectedMonth === 0) {
-            setSelectedMonth(11);
-            setSelectedYear(prev => prev - 1);
+            setPeriod({ year: selectedYear - 1, month: 11 });
         } else {
-            setSelectedMonth(prev => prev - 1);
+            setPeriod({ year: selectedYear, month: selectedMonth - 1 });
         }
     };
 
     const handleNextMonth = () => {
         if (selectedMonth === 11) {
-            setSelectedMonth(0);
-            setSelectedYear(prev => prev + 1);
+            setPeriod({ year: selectedYear + 1, month: 0 });
         } else {
-            setSelectedMonth(prev => prev + 1);
+            setPeriod({ year: selectedYear, month: selectedMonth + 1 });
         }
     };
 
-    if (loading) return <div className="p-4 text-center">Loading...</div>;
-    if (error) return <div className="p-4 text-center text-red-500">Error: {error}</div>;
+    if (fxState.loading) return <div className="p-4 text-center">Loading...</div>;
+    if (fxState.error && !fxState.data) return <div className="p-4 text-center text-red-500">Error: {fxState.error.message}</div>;
 
     return (
         <div className="p-4 pb-24 max-w-lg mx-auto">
@@ -202,7 +263,7 @@ export default function FXPage() {
                                         required
                                     >
                                         <option value="" disabled>Select</option>
-                                        {['USD', 'FCD', 'SAVE'].map(currency => (
+                                        {FORM_CURRENCIES.map(currency => (
                                             <option key={currency} value={currency}>{currency}</option>
                                         ))}
                                     </select>
@@ -219,7 +280,7 @@ export default function FXPage() {
                                         required
                                     >
                                         <option value="" disabled>Select</option>
-                                        {['USD', 'FCD', 'SAVE']
+                                        {FORM_CURRENCIES
                                             .filter(currency => currency !== form.from_currency)
                                             .map(currency => (
                                                 <option key={currency} value={currency}>{currency}</option>
@@ -244,7 +305,9 @@ export default function FXPage() {
                                 />
                             </div>
                             <div>
-                                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Foreign Amount</label>
+                                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">
+                                    {formPairChosen ? `${foreignCurrency(form.from_currency, form.to_currency)} Amount` : 'Foreign Amount'}
+                                </label>
                                 <input
                                     type="number"
                                     step="0.000001"
@@ -258,14 +321,17 @@ export default function FXPage() {
                         </div>
 
                         <div>
-                            <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Exchange Rate (Optional)</label>
+                            <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">
+                                Exchange Rate {formPairChosen ? `(${rateLabel(rateDirection(form.from_currency, form.to_currency))})` : '(Optional)'}
+                            </label>
                             <input
                                 type="number"
                                 step="0.000001"
                                 value={form.exchange_rate}
                                 onChange={(e) => setForm({ ...form, exchange_rate: e.target.value })}
                                 className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none font-semibold"
-                                placeholder="Auto-calculated if left blank"
+                                placeholder={formCross ? 'Required for cross pairs' : 'Auto-calculated if left blank'}
+                                required={formCross}
                             />
                         </div>
 
@@ -304,7 +370,7 @@ export default function FXPage() {
                             <div className="font-bold text-lg text-[#001f3f]">{MONTHS[selectedMonth]}</div>
                             <select
                                 value={selectedYear}
-                                onChange={(e) => setSelectedYear(Number(e.target.value))}
+                                onChange={(e) => setPeriod({ year: Number(e.target.value), month: selectedMonth })}
                                 className="text-sm text-gray-500 bg-transparent border-none focus:ring-0 p-0 text-center font-medium cursor-pointer appearance-none hover:text-gray-700"
                             >
                                 {availableYears.map(year => (
@@ -361,31 +427,122 @@ export default function FXPage() {
                                                 {new Date(item.transaction_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                                             </div>
                                         </div>
+                                        {editing?.id !== item.id && (
+                                            <div className="flex gap-3">
+                                                <button
+                                                    onClick={() => startEdit(item)}
+                                                    className="text-gray-300 hover:text-[#001f3f] transition-colors"
+                                                    aria-label="Edit"
+                                                >
+                                                    <i className="pi pi-pencil text-xs" />
+                                                </button>
+                                                <button
+                                                    onClick={() => { setEditing(null); setDeleteId(item.id); }}
+                                                    className="text-gray-300 hover:text-red-400 transition-colors"
+                                                    aria-label="Delete"
+                                                >
+                                                    <i className="pi pi-trash text-xs" />
+                                                </button>
+                                            </div>
+                                        )}
                                     </div>
 
-                                    <div className="flex justify-between items-end pl-2">
-                                        <div>
-                                            <div className="flex items-baseline gap-1">
-                                                <span className="text-lg font-bold text-gray-800">
-                                                    {item.foreign_amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                                                </span>
-                                                <span className="text-xs font-semibold text-gray-500">{item.to_currency}</span>
+                                    {editing?.id === item.id ? (
+                                        <form onSubmit={handleUpdate} className="flex flex-col gap-2 pl-2">
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <div>
+                                                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">THB Amount</label>
+                                                    <input
+                                                        type="number"
+                                                        step="0.01"
+                                                        value={editing.thb_amount}
+                                                        onChange={(e) => setEditAmounts({ thb_amount: e.target.value })}
+                                                        className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none font-semibold"
+                                                        required
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">{foreignCurrency(item.from_currency, item.to_currency)} Amount</label>
+                                                    <input
+                                                        type="number"
+                                                        step="0.000001"
+                                                        value={editing.foreign_amount}
+                                                        onChange={(e) => setEditAmounts({ foreign_amount: e.target.value })}
+                                                        className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none font-semibold"
+                                                        required
+                                                    />
+                                                </div>
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <div>
+                                                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Rate ({rateLabel(rateDirection(item.from_currency, item.to_currency))})</label>
+                                                    <input
+                                                        type="number"
+                                                        step="0.000001"
+                                                        value={editing.exchange_rate}
+                                                        onChange={(e) => setEditing({ ...editing, exchange_rate: e.target.value, rateEdited: true })}
+                                                        className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none font-semibold"
+                                                        placeholder={isCrossPair(item.from_currency, item.to_currency) ? 'Required' : 'Auto if blank'}
+                                                        required={isCrossPair(item.from_currency, item.to_currency)}
+                                                    />
+                                                </div>
+                                                <div>
+                                                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Date</label>
+                                                    <input
+                                                        type="datetime-local"
+                                                        value={editing.transaction_at}
+                                                        onChange={(e) => setEditing({ ...editing, transaction_at: e.target.value })}
+                                                        className="w-full text-xs bg-gray-50 border border-gray-200 rounded-xl px-2 py-2 focus:ring-2 focus:ring-blue-500 outline-none font-medium text-gray-700"
+                                                        required
+                                                    />
+                                                </div>
+                                            </div>
+                                            <div className="flex justify-end gap-2 mt-1">
+                                                <button type="button" onClick={() => setEditing(null)} className="text-xs text-gray-500 px-3 py-1.5 hover:bg-gray-100 rounded-lg">Cancel</button>
+                                                <button
+                                                    type="submit"
+                                                    disabled={editSaving}
+                                                    className="text-xs text-white bg-[#001f3f] px-3 py-1.5 rounded-lg font-semibold disabled:opacity-50"
+                                                >
+                                                    {editSaving ? <i className="pi pi-spin pi-spinner"></i> : 'Save'}
+                                                </button>
                                             </div>
-                                            <div className="text-xs text-gray-500 mt-1 flex items-center gap-1">
-                                                <span>{item.from_currency}</span>
-                                                <i className="pi pi-arrow-right text-[10px]"></i>
-                                                <span>{item.to_currency}</span>
-                                                <span className="text-gray-300 mx-1">|</span>
-                                                <span>Rate: {item.exchange_rate.toFixed(4)}</span>
+                                        </form>
+                                    ) : (
+                                        <div className="flex justify-between items-end pl-2">
+                                            <div>
+                                                <div className="flex items-baseline gap-1">
+                                                    <span className="text-lg font-bold text-gray-800">
+                                                        {item.foreign_amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                                    </span>
+                                                    <span className="text-xs font-semibold text-gray-500">{foreignCurrency(item.from_currency, item.to_currency)}</span>
+                                                </div>
+                                                <div className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                                                    <span>{item.from_currency}</span>
+                                                    <i className="pi pi-arrow-right text-[10px]"></i>
+                                                    <span>{item.to_currency}</span>
+                                                    <span className="text-gray-300 mx-1">|</span>
+                                                    <span>Rate: {item.exchange_rate.toFixed(4)} {rateLabel(rateDirection(item.from_currency, item.to_currency))}</span>
+                                                </div>
+                                            </div>
+                                            <div className="text-right">
+                                                <div className="text-sm font-bold text-[#001f3f]">
+                                                    {item.thb_amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                                </div>
+                                                <div className="text-[10px] text-gray-400 font-medium">THB</div>
                                             </div>
                                         </div>
-                                        <div className="text-right">
-                                            <div className="text-sm font-bold text-[#001f3f]">
-                                                {item.thb_amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                    )}
+
+                                    {deleteId === item.id && (
+                                        <div className="bg-red-50 border-t border-red-100 -mx-4 -mb-4 mt-3 px-4 py-2.5 flex items-center justify-between">
+                                            <span className="text-xs text-red-600 font-medium">Delete this exchange?</span>
+                                            <div className="flex gap-2">
+                                                <button onClick={() => setDeleteId(null)} className="text-xs text-gray-500 px-2 py-1 hover:bg-gray-100 rounded">Cancel</button>
+                                                <button onClick={() => handleDelete(item.id)} className="text-xs text-white bg-red-500 px-3 py-1 rounded-lg font-semibold">Confirm</button>
                                             </div>
-                                            <div className="text-[10px] text-gray-400 font-medium">THB</div>
                                         </div>
-                                    </div>
+                                    )}
                                 </div>
                             ))
                         )}
@@ -0,0 +1,409 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { assetsRepository } from '../data/assetsRepository';
+import { fetchAccounts, findAccount } from '../lib/accounts';
+import { formatMoney } from '../lib/currency';
+import { BANKS, findDuplicates, loadPreset, mapRows, parseDelimited, savePreset } from '../lib/csvImport';
+import type { AmountMode, Bank, ColumnMapping, DateFormat } from '../lib/csvImport';
+import { filtersToParams, EMPTY_FILTERS } from '../lib/transactionFilters';
+import type { PantagonAccount, PantagonAsset } from '../types';
+
+const INSERT_CHUNK = 500;
+
+type ExistingRow = Pick<PantagonAsset, 'account_name' | 'date' | 'type' | 'amount'>;
+
+// Thai bank exports are often Windows-874 rather than UTF-8
+const decodeFile = async (file: File) => {
+    const buffer = await file.arrayBuffer();
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        return new TextDecoder('windows-874').decode(buffer);
+    }
+};
+
+export default function ImportTransactions() {
+    const navigate = useNavigate();
+    const [registry, setRegistry] = useState<PantagonAccount[]>([]);
+    const [step, setStep] = useState<'source' | 'map'>('source');
+
+    const [accountName, setAccountName] = useState('');
+    const [bank, setBank] = useState<Bank>('SCB');
+    const [mapping, setMapping] = useState<ColumnMapping>(() => loadPreset('SCB'));
+    const [text, setText] = useState('');
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [tag, setTag] = useState('');
+    const [presetSaved, setPresetSaved] = useState(false);
+
+    const [existing, setExisting] = useState<ExistingRow[]>([]);
+    // Per-line include/exclude choices; unset lines follow the duplicate check
+    const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+    const [importing, setImporting] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchAccounts().then(setRegistry);
+    }, []);
+
+    const table = useMemo(() => parseDelimited(text), [text]);
+    const rows = useMemo(() => mapRows(table, mapping), [table, mapping]);
+    const headerRow = table[mapping.skipRows] ?? [];
+    const columnCount = table.reduce((max, row) => Math.max(max, row.length), 0);
+
+    const columnLabel = (index: number) => {
+        const header = mapping.hasHeader ? headerRow[index] : '';
+        return header ? `${index + 1}: ${header}` : `Column ${index + 1}`;
+    };
+
+    const dateRange = useMemo(() => {
+        const dates = rows.filter(row => !row.error).map(row => row.date).sort();
+        return dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null;
+    }, [rows]);
+
+    // Existing ledger rows for the account over the statement period, for duplicate flags
+    useEffect(() => {
+        if (step !== 'map' || !accountName || !dateRange) return;
+
+        let ignore = false;
+        assetsRepository.list({ account: accountName, from: dateRange.from, to: dateRange.to })
+            .then(data => {
+                if (!ignore) setExisting(data);
+            })
+            .catch(error => {
+                if (!ignore) console.error('Error fetching existing rows:', error);
+            });
+        return () => { ignore = true; };
+    }, [step, accountName, dateRange]);
+
+    const duplicates = useMemo(() => findDuplicates(rows, accountName, existing), [rows, accountName, existing]);
+
+    const isIncluded = (index: number) => {
+        const row = rows[index];
+        if (row.error) return false;
+        return overrides[row.line] ?? !duplicates.has(index);
+    };
+
+    const selected = rows.filter((_, index) => isIncluded(index));
+    const totals = selected.reduce(
+        (acc, row) => ({ ...acc, [row.type]: acc[row.type] + row.amount }),
+        { IN: 0, OUT: 0 }
+    );
+
+    const accountCurrency = findAccount(registry, accountName)?.currency || 'THB';
+
+    const updateMapping = (patch: Partial<ColumnMapping>) => {
+        setMapping(prev => ({ ...prev, ...patch }));
+        setPresetSaved(false);
+    };
+
+    const handleBankChange = (value: Bank) => {
+        setBank(value);
+        setMapping(loadPreset(value));
+        setPresetSaved(false);
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setText(await decodeFile(file));
+        setFileName(file.name);
+        setOverrides({});
+    };
+
+    const handleSavePreset = () => {
+        savePreset(bank, mapping);
+        setPresetSaved(true);
+    };
+
+    const handleImport = async () => {
+        if (!accountName || selected.length === 0) return;
+
+        const payloads = selected.map(row => ({
+            account_name: accountName,
+            type: row.type,
+            amount: row.amount,
+            date: row.date,
+            tag: tag.trim() || null,
+            note: row.note || null,
+            currency: accountCurrency,
+        }));
+
+        setImporting(true);
+        setImportError(null);
+        let inserted = 0;
+        try {
+            for (let i = 0; i < payloads.length; i += INSERT_CHUNK) {
+                const chunk = payloads.slice(i, i + INSERT_CHUNK);
+                await assetsRepository.insert(chunk);
+                inserted += chunk.length;
+            }
+            navigate(`/transactions?${filtersToParams({ ...EMPTY_FILTERS, account: accountName }).toString()}`);
+        } catch (err) {
+            setImportError(`${(err as Error).message}${inserted > 0 ? ` (${inserted} of ${payloads.length} rows were imported before the error)` : ''}`);
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    const formatDate = (dateString: string) => {
+        if (!dateString) return '';
+        const date = new Date(dateString);
+        return date.toLocaleDateString('en-GB', {
+            day: 'numeric',
+            month: 'short',
+            year: 'numeric'
+        });
+    };
+
+    const inputClass = 'w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none';
+    const labelClass = 'block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1';
+
+    const renderColumnSelect = (label: string, key: 'date' | 'description' | 'amount' | 'debit' | 'credit') => (
+        <div>
+            <label className={labelClass}>{label}</label>
+            <select
+                value={mapping[key]}
+                onChange={(e) => updateMapping({ [key]: Number(e.target.value) })}
+                className={`${inputClass} text-xs`}
+            >
+                <option value={-1}>—</option>
+                {Array.from({ length: columnCount }, (_, index) => (
+                    <option key={index} value={index}>{columnLabel(index)}</option>
+                ))}
+            </select>
+        </div>
+    );
+
+    return (
+        <div className="flex flex-col gap-4 max-w-lg mx-auto pb-24 px-4 pt-4">
+            <div className="flex items-center gap-3">
+                <button
+                    onClick={() => step === 'map' ? setStep('source') : navigate('/transactions')}
+                    className="w-10 h-10 flex items-center justify-center rounded-full bg-white text-gray-600 shadow-sm hover:bg-gray-50 transition-colors border border-gray-100"
+                >
+                    <i className="pi pi-arrow-left"></i>
+                </button>
+                <h2 className="text-xl font-bold text-[#001f3f] m-0">Import Statement</h2>
+            </div>
+
+            {step === 'source' && (
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-col gap-3">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>Into Account</label>
+                            <select
+                                value={accountName}
+                                onChange={(e) => setAccountName(e.target.value)}
+                                className={inputClass}
+                            >
+                                <option value="" disabled>Select</option>
+                                {registry.filter(acc => !acc.archived).map(acc => (
+                                    <option key={acc.id} value={acc.name}>{acc.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Bank Preset</label>
+                            <select
+                                value={bank}
+                                onChange={(e) => handleBankChange(e.target.value as Bank)}
+                                className={inputClass}
+                            >
+                                {BANKS.map(b => <option key={b} value={b}>{b}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Statement File (CSV / TSV)</label>
+                        <label className="flex items-center justify-center gap-2 w-full py-3 rounded-xl border border-dashed border-gray-300 bg-gray-50 text-xs font-semibold text-gray-500 hover:bg-gray-100 cursor-pointer transition-colors">
+                            <i className="pi pi-upload"></i>
+                            {fileName ?? 'Choose file'}
+                            <input
+                                type="file"
+                                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                                onChange={(e) => handleFile(e.target.files?.[0])}
+                                className="hidden"
+                            />
+                        </label>
+                    </div>
+
+                    <div>
+                        <label className={labelClass}>Or Paste Rows</label>
+                        <textarea
+                            value={text}
+                            onChange={(e) => { setText(e.target.value); setFileName(null); setOverrides({}); }}
+                            rows={5}
+                            placeholder="Date,Description,Withdrawal,Deposit"
+                            spellCheck="false"
+                            className="w-full border border-gray-200 bg-gray-50 rounded-xl px-3 py-2 text-xs text-gray-700 font-mono resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                    </div>
+
+                    <button
+                        onClick={() => setStep('map')}
+                        disabled={!accountName || table.length === 0}
+                        className="w-full py-3 rounded-xl text-sm font-bold bg-[#001f3f] text-white hover:bg-[#002f5f] transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        Next: Map Columns
+                    </button>
+                </div>
+            )}
+
+            {step === 'map' && (
+                <>
+                    {/* Mapping */}
+                    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-col gap-3">
+                        <div className="flex justify-between items-center">
+                            <h3 className="text-sm font-bold text-[#001f3f]">Columns • {bank}</h3>
+                            <button
+                                onClick={handleSavePreset}
+                                className="text-xs font-semibold text-blue-600 hover:text-blue-700 flex items-center gap-1"
+                            >
+                                <i className={`pi ${presetSaved ? 'pi-check' : 'pi-save'} text-[10px]`}></i>
+                                {presetSaved ? 'Saved' : `Save as ${bank} preset`}
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-2">
+                            <div>
+                                <label className={labelClass}>Skip Lines</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={mapping.skipRows}
+                                    onChange={(e) => updateMapping({ skipRows: Math.max(0, Number(e.target.value) || 0) })}
+                                    className={`${inputClass} text-xs`}
+                                />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Date Format</label>
+                                <select
+                                    value={mapping.dateFormat}
+                                    onChange={(e) => updateMapping({ dateFormat: e.target.value as DateFormat })}
+                                    className={`${inputClass} text-xs`}
+                                >
+                                    <option value="DMY">DD/MM/YYYY</option>
+                                    <option value="MDY">MM/DD/YYYY</option>
+                                    <option value="YMD">YYYY-MM-DD</option>
+                                </select>
+                            </div>
+                            <label className="flex items-end gap-2 text-xs font-semibold text-gray-600 pb-2.5 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={mapping.hasHeader}
+                                    onChange={(e) => updateMapping({ hasHeader: e.target.checked })}
+                                    className="w-4 h-4 rounded border-gray-300"
+                                />
+                                Header row
+                            </label>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            {renderColumnSelect('Date', 'date')}
+                            {renderColumnSelect('Description', 'description')}
+                        </div>
+
+                        <div className="flex bg-gray-100 rounded-lg p-0.5 gap-0.5">
+                            {([['signed', 'One amount column (±)'], ['split', 'Debit / Credit columns']] as [AmountMode, string][]).map(([value, label]) => (
+                                <button
+                                    key={value}
+                                    onClick={() => updateMapping({ amountMode: value })}
+                                    className={`flex-1 py-1.5 rounded-md text-[11px] font-bold transition-all ${mapping.amountMode === value ? 'bg-white text-[#001f3f] shadow-sm' : 'text-gray-500'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {mapping.amountMode === 'signed' ? (
+                            renderColumnSelect('Amount', 'amount')
+                        ) : (
+                            <div className="grid grid-cols-2 gap-2">
+                                {renderColumnSelect('Debit (Out)', 'debit')}
+                                {renderColumnSelect('Credit (In)', 'credit')}
+                            </div>
+                        )}
+
+                        <div>
+                            <label className={labelClass}>Tag for imported rows (Optional)</label>
+                            <input
+                                type="text"
+                                value={tag}
+                                onChange={(e) => setTag(e.target.value)}
+                                className={inputClass}
+                                placeholder="Leave empty to tag later"
+                            />
+                        </div>
+                    </div>
+
+                    {/* Preview */}
+                    <div className="flex justify-between items-center px-1 text-[11px] text-gray-400">
+                        <span>
+                            {selected.length} of {rows.length} rows selected
+                            {duplicates.size > 0 && <span className="text-amber-600"> • {duplicates.size} possible duplicate{duplicates.size !== 1 ? 's' : ''}</span>}
+                        </span>
+                        <span>
+                            <span className="text-green-600 font-semibold">+{formatMoney(totals.IN, accountCurrency)}</span>
+                            {' / '}
+                            <span className="text-gray-700 font-semibold">-{formatMoney(totals.OUT, accountCurrency)}</span>
+                        </span>
+                    </div>
+
+                    <div className="flex flex-col gap-0 max-h-[50vh] overflow-y-auto rounded-2xl shadow-sm">
+                        {rows.map((row, index) => {
+                            const included = isIncluded(index);
+                            const isDuplicate = duplicates.has(index);
+                            return (
+                                <label
+                                    key={row.line}
+                                    className={`bg-white border-b border-gray-100 last:border-0 px-3 py-2.5 flex items-center gap-3 ${row.error ? 'opacity-60' : 'cursor-pointer hover:bg-gray-50'} ${isDuplicate ? 'bg-amber-50' : ''}`}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={included}
+                                        disabled={Boolean(row.error)}
+                                        onChange={(e) => setOverrides(prev => ({ ...prev, [row.line]: e.target.checked }))}
+                                        className="w-4 h-4 rounded border-gray-300 flex-shrink-0"
+                                    />
+                                    <div className="flex flex-col min-w-0 flex-1">
+                                        <span className="text-xs font-semibold text-gray-800 truncate">{row.note || '—'}</span>
+                                        <span className="text-[10px] text-gray-400">
+                                            {row.error
+                                                ? <span className="text-red-500">Line {row.line}: {row.error}</span>
+                                                : <>{formatDate(row.date)}{isDuplicate && <span className="text-amber-600 font-semibold"> • Already in ledger?</span>}</>}
+                                        </span>
+                                    </div>
+                                    {!row.error && (
+                                        <span className={`text-xs font-bold ${row.type === 'IN' ? 'text-green-600' : 'text-gray-900'}`}>
+                                            {row.type === 'IN' ? '+' : '-'}{formatMoney(row.amount, accountCurrency)}
+                                        </span>
+                                    )}
+                                </label>
+                            );
+                        })}
+
+                        {rows.length === 0 && (
+                            <div className="bg-white p-8 text-center text-gray-500 text-sm">
+                                No rows found with this mapping.
+                            </div>
+                        )}
+                    </div>
+
+                    {importError && (
+                        <p className="text-xs text-red-500 bg-red-50 px-3 py-2 rounded-lg">{importError}</p>
+                    )}
+
+                    <button
+                        onClick={handleImport}
+                        disabled={importing || selected.length === 0}
+                        className="w-full py-3.5 px-4 rounded-xl text-white font-bold tracking-wide shadow-lg transition-all bg-gradient-to-r from-[#001f3f] to-[#003366] hover:shadow-xl disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        {importing
+                            ? <span className="flex items-center justify-center gap-2"><i className="pi pi-spin pi-spinner"></i> Importing...</span>
+                            : `Import ${selected.length} row${selected.length !== 1 ? 's' : ''} into ${accountName}`}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
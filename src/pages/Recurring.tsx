@@ -0,0 +1,617 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { recurringRepository } from '../data/recurringRepository';
+import { fetchAccounts, findAccount } from '../lib/accounts';
+import { formatMoney, SUPPORTED_CURRENCIES } from '../lib/currency';
+import {
+    CADENCES,
+    dueOccurrences,
+    fetchHandledOccurrences,
+    fetchRecurring,
+    nextOccurrence,
+    occurrenceKey,
+    postOccurrences,
+    skipOccurrences,
+} from '../lib/recurring';
+import type { Cadence, Occurrence } from '../lib/recurring';
+import type { PantagonAccount, PantagonRecurring } from '../types';
+
+interface RecurringForm {
+    name: string;
+    account_name: string;
+    type: 'IN' | 'OUT';
+    amount: string;
+    currency: string;
+    tag: string;
+    note: string;
+    cadence: Cadence;
+    start_date: string;
+    end_date: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const EMPTY_FORM: RecurringForm = {
+    name: '',
+    account_name: '',
+    type: 'IN',
+    amount: '',
+    currency: 'THB',
+    tag: '',
+    note: '',
+    cadence: 'monthly',
+    start_date: '',
+    end_date: '',
+};
+
+// Per-occurrence overrides made before posting
+interface OccurrenceEdit {
+    amount: string;
+    date: string;
+}
+
+export default function Recurring() {
+    const navigate = useNavigate();
+    const [templates, setTemplates] = useState<PantagonRecurring[]>([]);
+    const [handled, setHandled] = useState<Set<string>>(new Set());
+    const [registry, setRegistry] = useState<PantagonAccount[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    // null = form closed, 'new' = adding, number = editing that template id
+    const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+    const [form, setForm] = useState<RecurringForm>(EMPTY_FORM);
+    const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [deleteId, setDeleteId] = useState<number | null>(null);
+
+    const [edits, setEdits] = useState<Record<string, OccurrenceEdit>>({});
+    const [posting, setPosting] = useState(false);
+
+    // Bumped after every mutation to reload templates and handled occurrences
+    const [refreshKey, setRefreshKey] = useState(0);
+    const refresh = () => setRefreshKey(key => key + 1);
+
+    useEffect(() => {
+        const loadData = async () => {
+            const [fetchedTemplates, fetchedHandled, fetchedAccounts] = await Promise.all([
+                fetchRecurring(),
+                fetchHandledOccurrences(),
+                fetchAccounts()
+            ]);
+
+            setTemplates(fetchedTemplates);
+            setHandled(fetchedHandled);
+            setRegistry(fetchedAccounts);
+            setLoading(false);
+        };
+
+        loadData();
+    }, [refreshKey]);
+
+    const due = useMemo(() => dueOccurrences(templates, handled, today()), [templates, handled]);
+
+    const accountOptions = registry.filter(acc => !acc.archived).map(acc => acc.name);
+    if (form.account_name && !accountOptions.includes(form.account_name)) {
+        accountOptions.push(form.account_name);
+    }
+
+    const openNew = () => {
+        setEditingId('new');
+        setForm({ ...EMPTY_FORM, start_date: today() });
+        setSaveError(null);
+    };
+
+    const openEdit = (template: PantagonRecurring) => {
+        setEditingId(template.id);
+        setForm({
+            name: template.name,
+            account_name: template.account_name,
+            type: template.type,
+            amount: String(template.amount),
+            currency: template.currency,
+            tag: template.tag ?? '',
+            note: template.note ?? '',
+            cadence: template.cadence,
+            start_date: template.start_date,
+            end_date: template.end_date ?? '',
+        });
+        setSaveError(null);
+    };
+
+    const closeForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+        setSaveError(null);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = form.name.trim();
+        if (!name || !form.account_name || !Number(form.amount) || !form.start_date) {
+            setSaveError('Name, account, amount and start date are required.');
+            return;
+        }
+        if (form.end_date && form.end_date < form.start_date) {
+            setSaveError('End date must be on or after the start date.');
+            return;
+        }
+
+        const payload = {
+            name,
+            account_name: form.account_name,
+            type: form.type,
+            amount: Number(form.amount),
+            currency: form.currency,
+            tag: form.tag.trim() || null,
+            note: form.note.trim() || null,
+            cadence: form.cadence,
+            start_date: form.start_date,
+            end_date: form.end_date || null,
+        };
+
+        try {
+            setSaving(true);
+            setSaveError(null);
+
+            if (typeof editingId === 'number') await recurringRepository.update(editingId, payload);
+            else await recurringRepository.insert(payload);
+
+            closeForm();
+            refresh();
+        } catch (err) {
+            setSaveError((err as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggleActive = async (template: PantagonRecurring) => {
+        try {
+            await recurringRepository.update(template.id, { active: !template.active });
+        } catch (error) {
+            console.error('Error updating recurring template:', error);
+            alert('Update failed: ' + (error as Error).message);
+            return;
+        }
+        refresh();
+    };
+
+    const handleDelete = async (id: number) => {
+        try {
+            await recurringRepository.remove(id);
+        } catch (error) {
+            console.error('Error deleting recurring template:', error);
+            alert('Delete failed: ' + (error as Error).message);
+            return;
+        }
+        setDeleteId(null);
+        refresh();
+    };
+
+    const editFor = (occurrence: Occurrence): OccurrenceEdit | undefined =>
+        edits[occurrenceKey(occurrence.template.id, occurrence.date)];
+
+    const setEdit = (occurrence: Occurrence, edit: OccurrenceEdit | null) => {
+        const key = occurrenceKey(occurrence.template.id, occurrence.date);
+        setEdits(prev => {
+            const next = { ...prev };
+            if (edit) next[key] = edit;
+            else delete next[key];
+            return next;
+        });
+    };
+
+    const handlePost = async (items: Occurrence[]) => {
+        const invalid = items.find(o => {
+            const edit = editFor(o);
+            return edit && (!Number(edit.amount) || !edit.date);
+        });
+        if (invalid) {
+            alert(`Check the amount and date for ${invalid.template.name} (${invalid.date})`);
+            return;
+        }
+
+        setPosting(true);
+        try {
+            await postOccurrences(items.map(o => {
+                const edit = editFor(o);
+                return {
+                    ...o,
+                    amount: edit ? Number(edit.amount) : Number(o.template.amount),
+                    postedDate: edit?.date || o.date,
+                };
+            }));
+        } catch (error) {
+            console.error('Error posting recurring items:', error);
+            alert('Post failed: ' + (error as Error).message);
+            return;
+        } finally {
+            setPosting(false);
+        }
+        items.forEach(o => setEdit(o, null));
+        refresh();
+    };
+
+    const handleSkip = async (occurrence: Occurrence) => {
+        setPosting(true);
+        try {
+            await skipOccurrences([occurrence]);
+        } catch (error) {
+            console.error('Error skipping recurring item:', error);
+            alert('Skip failed: ' + (error as Error).message);
+            return;
+        } finally {
+            setPosting(false);
+        }
+        setEdit(occurrence, null);
+        refresh();
+    };
+
+    const formatDate = (dateString: string) => {
+        if (!dateString) return '';
+        const date = new Date(dateString);
+        return date.toLocaleDateString('en-GB', {
+            day: 'numeric',
+            month: 'short',
+            year: 'numeric'
+        });
+    };
+
+    const describeSchedule = (template: PantagonRecurring) => {
+        const day = Number(template.start_date.slice(8, 10));
+        if (template.cadence === 'weekly') {
+            return `Every ${new Date(template.start_date).toLocaleDateString('en-GB', { weekday: 'long' })}`;
+        }
+        if (template.cadence === 'yearly') {
+            return `Every ${new Date(template.start_date).toLocaleDateString('en-GB', { day: 'numeric', month: 'long' })}`;
+        }
+        return `Monthly on day ${day}`;
+    };
+
+    if (loading) {
+        return <div className="flex justify-center items-center min-h-screen text-gray-400 font-sans text-sm">Loading...</div>;
+    }
+
+    const inputClass = 'w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none';
+    const labelClass = 'block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1';
+
+    const renderForm = () => (
+        <form onSubmit={handleSave} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-col gap-3">
+            <h2 className="text-sm font-bold text-[#001f3f]">{editingId === 'new' ? 'New Recurring Item' : 'Edit Recurring Item'}</h2>
+
+            <div>
+                <label className={labelClass}>Name</label>
+                <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className={`${inputClass} font-semibold`}
+                    placeholder="Salary"
+                    required
+                />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Account</label>
+                    <select
+                        value={form.account_name}
+                        onChange={(e) => setForm({
+                            ...form,
+                            account_name: e.target.value,
+                            currency: findAccount(registry, e.target.value)?.currency || form.currency
+                        })}
+                        className={inputClass}
+                        required
+                    >
+                        <option value="" disabled>Select</option>
+                        {accountOptions.map(name => (
+                            <option key={name} value={name}>{name}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Type</label>
+                    <div className="flex bg-gray-100 rounded-xl p-0.5 gap-0.5 h-[38px]">
+                        {(['IN', 'OUT'] as const).map(value => (
+                            <button
+                                key={value}
+                                type="button"
+                                onClick={() => setForm({ ...form, type: value })}
+                                className={`flex-1 rounded-lg text-xs font-bold transition-all ${form.type === value ? `bg-white shadow-sm ${value === 'IN' ? 'text-green-600' : 'text-red-600'}` : 'text-gray-500'}`}
+                            >
+                                {value === 'IN' ? 'Income' : 'Expense'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Amount</label>
+                    <input
+                        type="number"
+                        value={form.amount}
+                        onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                        className={`${inputClass} font-semibold`}
+                        placeholder="0.00"
+                        step="0.01"
+                        min="0.01"
+                        required
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Currency</label>
+                    <select
+                        value={form.currency}
+                        onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                        className={`${inputClass} font-semibold`}
+                    >
+                        {Array.from(new Set([...SUPPORTED_CURRENCIES, form.currency])).map(code => (
+                            <option key={code} value={code}>{code}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Tag</label>
+                    <input
+                        type="text"
+                        value={form.tag}
+                        onChange={(e) => setForm({ ...form, tag: e.target.value })}
+                        className={inputClass}
+                        placeholder="Salary, SSO, PVD"
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Repeats</label>
+                    <select
+                        value={form.cadence}
+                        onChange={(e) => setForm({ ...form, cadence: e.target.value as Cadence })}
+                        className={inputClass}
+                    >
+                        {CADENCES.map(cadence => (
+                            <option key={cadence.value} value={cadence.value}>{cadence.label}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className={labelClass}>Starts</label>
+                    <input
+                        type="date"
+                        value={form.start_date}
+                        onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                        className={inputClass}
+                        required
+                    />
+                </div>
+                <div>
+                    <label className={labelClass}>Ends (Optional)</label>
+                    <input
+                        type="date"
+                        value={form.end_date}
+                        onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            <div>
+                <label className={labelClass}>Note</label>
+                <input
+                    type="text"
+                    value={form.note}
+                    onChange={(e) => setForm({ ...form, note: e.target.value })}
+                    className={inputClass}
+                    placeholder="Add details..."
+                />
+            </div>
+
+            {saveError && (
+                <p className="text-xs text-red-500 bg-red-50 px-3 py-2 rounded-lg">{saveError}</p>
+            )}
+
+            <div className="flex gap-2">
+                <button
+                    type="button"
+                    onClick={closeForm}
+                    className="flex-1 py-2.5 rounded-xl text-sm font-bold bg-gray-100 text-gray-600 hover:bg-gray-200 transition-all"
+                >
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex-1 py-2.5 rounded-xl text-sm font-bold bg-[#001f3f] text-white hover:bg-[#002f5f] transition-all disabled:opacity-50"
+                >
+                    {saving ? <i className="pi pi-spin pi-spinner"></i> : 'Save'}
+                </button>
+            </div>
+        </form>
+    );
+
+    return (
+        <div className="flex flex-col gap-4 max-w-lg mx-auto pb-24 px-4 pt-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => navigate('/')}
+                        className="w-10 h-10 flex items-center justify-center rounded-full bg-white text-gray-600 shadow-sm hover:bg-gray-50 transition-colors border border-gray-100"
+                    >
+                        <i className="pi pi-arrow-left"></i>
+                    </button>
+                    <h2 className="text-xl font-bold text-[#001f3f] m-0">Recurring</h2>
+                </div>
+                {editingId === null && (
+                    <button
+                        onClick={openNew}
+                        className="flex items-center gap-1.5 bg-blue-50 text-blue-600 px-3 py-1.5 rounded-full text-xs font-bold hover:bg-blue-100 transition-colors"
+                    >
+                        <i className="pi pi-plus text-[10px]"></i>
+                        <span>Add</span>
+                    </button>
+                )}
+            </div>
+
+            {editingId !== null && renderForm()}
+
+            {/* Due Items */}
+            <div className="flex flex-col gap-2">
+                <div className="flex justify-between items-center">
+                    <span className="text-xs font-bold text-[#001f3f] uppercase tracking-wider opacity-70">Due ({due.length})</span>
+                    {due.length > 1 && (
+                        <button
+                            onClick={() => handlePost(due)}
+                            disabled={posting}
+                            className="text-xs font-bold text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                        >
+                            Post all
+                        </button>
+                    )}
+                </div>
+
+                {due.map(occurrence => {
+                    const { template, date } = occurrence;
+                    const edit = editFor(occurrence);
+                    return (
+                        <div key={occurrenceKey(template.id, date)} className="bg-white rounded-xl p-3 shadow-[0_1px_3px_0_rgba(0,0,0,0.05)] border border-slate-100 flex flex-col gap-2">
+                            <div className="flex items-center justify-between">
+                                <div className="flex flex-col items-start min-w-0 pr-2">
+                                    <span className="font-semibold text-[#001f3f] text-sm truncate max-w-full leading-tight">{template.name}</span>
+                                    <span className="text-gray-400 text-[10px] uppercase tracking-wide mt-0.5">
+                                        {formatDate(date)} • {template.account_name}
+                                    </span>
+                                </div>
+                                <span className={`font-bold text-sm ${template.type === 'IN' ? 'text-green-600' : 'text-gray-900'}`}>
+                                    {template.type === 'IN' ? '+' : '-'}{formatMoney(edit ? Number(edit.amount) || 0 : Number(template.amount), template.currency)}
+                                </span>
+                            </div>
+
+                            {edit && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input
+                                        type="number"
+                                        value={edit.amount}
+                                        onChange={(e) => setEdit(occurrence, { ...edit, amount: e.target.value })}
+                                        step="0.01"
+                                        min="0.01"
+                                        className="bg-gray-50 border border-gray-200 text-gray-700 text-xs rounded-lg w-full p-2 outline-none focus:ring-2 focus:ring-blue-500"
+                                        aria-label="Amount"
+                                    />
+                                    <input
+                                        type="date"
+                                        value={edit.date}
+                                        onChange={(e) => setEdit(occurrence, { ...edit, date: e.target.value })}
+                                        className="bg-gray-50 border border-gray-200 text-gray-700 text-xs rounded-lg w-full p-2 outline-none focus:ring-2 focus:ring-blue-500"
+                                        aria-label="Posting date"
+                                    />
+                                </div>
+                            )}
+
+                            <div className="flex justify-end gap-2">
+                                <button
+                                    onClick={() => setEdit(occurrence, edit ? null : { amount: String(template.amount), date })}
+                                    className="text-xs text-gray-500 px-2 py-1 hover:bg-gray-100 rounded"
+                                >
+                                    {edit ? 'Reset' : 'Modify'}
+                                </button>
+                                <button
+                                    onClick={() => handleSkip(occurrence)}
+                                    disabled={posting}
+                                    className="text-xs text-gray-500 px-2 py-1 hover:bg-gray-100 rounded disabled:opacity-50"
+                                >
+                                    Skip
+                                </button>
+                                <button
+                                    onClick={() => handlePost([occurrence])}
+                                    disabled={posting}
+                                    className="text-xs text-white bg-[#001f3f] px-3 py-1 rounded-lg font-semibold disabled:opacity-50"
+                                >
+                                    Post
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+
+                {due.length === 0 && (
+                    <div className="bg-white p-6 rounded-2xl text-center text-gray-400 text-sm shadow-sm">
+                        <i className="pi pi-check-circle text-2xl mb-2 block opacity-50"></i>
+                        Nothing due.
+                    </div>
+                )}
+            </div>
+
+            {/* Templates */}
+            <div className="flex flex-col gap-2">
+                <span className="text-xs font-bold text-[#001f3f] uppercase tracking-wider opacity-70">Schedules</span>
+
+                {templates.map(template => {
+                    const next = template.active ? nextOccurrence(template, today()) : null;
+                    return (
+                        <div key={template.id} className={`bg-white rounded-xl shadow-[0_1px_3px_0_rgba(0,0,0,0.05)] border border-slate-100 overflow-hidden ${template.active ? '' : 'opacity-60'}`}>
+                            <div className="p-3 flex items-center justify-between">
+                                <div className="flex flex-col items-start min-w-0 pr-2">
+                                    <span className="font-semibold text-[#001f3f] text-sm truncate max-w-full leading-tight">{template.name}</span>
+                                    <span className="text-gray-400 text-[10px] uppercase tracking-wide mt-0.5">
+                                        {describeSchedule(template)} • {template.account_name}
+                                    </span>
+                                    <span className="text-gray-400 text-[10px] mt-0.5">
+                                        {!template.active ? 'Paused' : next ? `Next ${formatDate(next)}` : 'Ended'}
+                                    </span>
+                                </div>
+                                <div className="flex items-center gap-1 text-gray-400">
+                                    <span className={`font-bold text-sm mr-1 ${template.type === 'IN' ? 'text-green-600' : 'text-gray-900'}`}>
+                                        {template.type === 'IN' ? '+' : '-'}{formatMoney(Number(template.amount), template.currency)}
+                                    </span>
+                                    <button
+                                        onClick={() => openEdit(template)}
+                                        className="w-7 h-7 rounded-full hover:bg-gray-100 hover:text-[#001f3f] transition-colors"
+                                    >
+                                        <i className="pi pi-pencil text-xs"></i>
+                                    </button>
+                                    <button
+                                        onClick={() => handleToggleActive(template)}
+                                        className="w-7 h-7 rounded-full hover:bg-gray-100 hover:text-[#001f3f] transition-colors"
+                                        title={template.active ? 'Pause' : 'Resume'}
+                                    >
+                                        <i className={`pi ${template.active ? 'pi-pause' : 'pi-play'} text-xs`}></i>
+                                    </button>
+                                    <button
+                                        onClick={() => setDeleteId(template.id)}
+                                        className="w-7 h-7 rounded-full hover:bg-gray-100 hover:text-red-400 transition-colors"
+                                    >
+                                        <i className="pi pi-trash text-xs"></i>
+                                    </button>
+                                </div>
+                            </div>
+
+                            {/* Delete confirm */}
+                            {deleteId === template.id && (
+                                <div className="bg-red-50 border-t border-red-100 px-4 py-2.5 flex items-center justify-between">
+                                    <span className="text-xs text-red-600 font-medium">Delete this schedule? Posted rows stay.</span>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => setDeleteId(null)} className="text-xs text-gray-500 px-2 py-1 hover:bg-gray-100 rounded">Cancel</button>
+                                        <button onClick={() => handleDelete(template.id)} className="text-xs text-white bg-red-500 px-3 py-1 rounded-lg font-semibold">Confirm</button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+
+                {templates.length === 0 && (
+                    <div className="bg-white p-8 rounded-2xl text-center text-gray-500 text-sm shadow-sm">
+                        No recurring items yet.
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { useAuth } from '../context/auth';
+
+type Method = 'password' | 'magic';
+
+export default function SignIn() {
+    const { signInWithPassword, sendMagicLink } = useAuth();
+    const [method, setMethod] = useState<Method>('password');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const address = email.trim();
+        if (!address) return;
+
+        try {
+            setSubmitting(true);
+            setError(null);
+            if (method === 'password') {
+                await signInWithPassword(address, password);
+            } else {
+                await sendMagicLink(address);
+                setLinkSentTo(address);
+            }
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const switchMethod = (next: Method) => {
+        setMethod(next);
+        setError(null);
+        setLinkSentTo(null);
+    };
+
+    return (
+        <div className="flex flex-col gap-4 max-w-sm mx-auto px-4 pt-16">
+            <div className="text-center">
+                <div className="w-14 h-14 mx-auto mb-3 flex items-center justify-center rounded-2xl bg-[#001f3f] text-white shadow-sm">
+                    <i className="pi pi-lock text-xl"></i>
+                </div>
+                <h2 className="text-xl font-bold text-[#001f3f] m-0">Sign in</h2>
+                <p className="text-xs text-gray-400 mt-1">Each household member sees only their own accounts.</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-1 bg-gray-100 p-1 rounded-xl">
+                {([['password', 'Password'], ['magic', 'Magic link']] as const).map(([value, label]) => (
+                    <button
+                        key={value}
+                        type="button"
+                        onClick={() => switchMethod(value)}
+                        className={`py-2 rounded-lg text-xs font-bold transition-all ${method === value ? 'bg-white text-[#001f3f] shadow-sm' : 'text-gray-500'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 flex flex-col gap-3">
+                <div>
+                    <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Email</label>
+                    <input
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        autoComplete="email"
+                        required
+                        className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                </div>
+
+                {method === 'password' && (
+                    <div>
+                        <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">Password</label>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            autoComplete="current-password"
+                            required
+                            className="w-full text-sm bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                        />
+                    </div>
+                )}
+
+                {error && (
+                    <p className="text-xs text-red-500 bg-red-50 px-3 py-2 rounded-lg">{error}</p>
+                )}
+                {linkSentTo && (
+                    <p className="text-xs text-green-600 bg-green-50 px-3 py-2 rounded-lg">
+                        Check {linkSentTo} for a sign-in link. You can close this tab.
+                    </p>
+                )}
+
+                <button
+                    type="submit"
+                    disabled={submitting}
+                    className="py-2.5 rounded-xl text-sm font-bold bg-[#001f3f] text-white hover:bg-[#002f5f] transition-all disabled:opacity-50"
+                >
+                    {submitting
+                        ? <i className="pi pi-spin pi-spinner"></i>
+                        : method === 'password' ? 'Sign In' : 'Email Me a Link'}
+                </button>
+            </form>
+        </div>
+    );
+}
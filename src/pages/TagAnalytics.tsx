@@ -0,0 +1,361 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+    Chart as ChartJS,
+    ArcElement,
+    BarElement,
+    CategoryScale,
+    LinearScale,
+    Tooltip,
+    Legend,
+} from 'chart.js';
+import type { ChartData, ChartOptions } from 'chart.js';
+import { Bar, Doughnut } from 'react-chartjs-2';
+import { assetsRepository } from '../data/assetsRepository';
+import { convertAmount, deriveThbRates, fetchFxHistory, formatMoney } from '../lib/currency';
+import { filterByPeriod, tagLabel, totalsByPeriod, totalsByTag, UNTAGGED } from '../lib/tagAnalytics';
+import { filtersToParams, EMPTY_FILTERS } from '../lib/transactionFilters';
+import { useBaseCurrency } from '../context/baseCurrency';
+import type { PantagonAsset, PantagonUSD } from '../types';
+
+ChartJS.register(ArcElement, BarElement, CategoryScale, LinearScale, Tooltip, Legend);
+
+const MONTHS = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const PALETTE = ['#001f3f', '#2563eb', '#0891b2', '#059669', '#65a30d', '#d97706', '#dc2626', '#db2777', '#7c3aed', '#64748b'];
+
+// Doughnut slices beyond this are folded into "Other"
+const MAX_SLICES = 8;
+
+export default function TagAnalytics() {
+    const navigate = useNavigate();
+    const { baseCurrency, rateMode } = useBaseCurrency();
+    const [assets, setAssets] = useState<PantagonAsset[]>([]);
+    const [fxHistory, setFxHistory] = useState<PantagonUSD[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // Filter States
+    const [selectedYear, setSelectedYear] = useState<string>(String(new Date().getFullYear()));
+    const [selectedMonth, setSelectedMonth] = useState<number | null>(null);
+    const [selectedType, setSelectedType] = useState<'IN' | 'OUT'>('OUT');
+    const [selectedTag, setSelectedTag] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                const [fetchedAssets, fetchedFx] = await Promise.all([assetsRepository.list(), fetchFxHistory()]);
+                setAssets(fetchedAssets);
+                setFxHistory(fetchedFx);
+            } catch (err) {
+                setError((err as Error).message);
+            }
+            setLoading(false);
+        };
+
+        fetchData();
+    }, []);
+
+    const rates = useMemo(() => deriveThbRates(fxHistory, rateMode), [fxHistory, rateMode]);
+
+    // Ledger restated in the base currency; transfers and rows without a known
+    // rate are left out
+    const baseAssets = useMemo(() => assets.flatMap(item => {
+        if (item.transfer_id) return [];
+        const amount = convertAmount(Number(item.amount), item.currency || 'THB', baseCurrency, rates);
+        return amount === null ? [] : [{ ...item, amount, currency: baseCurrency }];
+    }), [assets, baseCurrency, rates]);
+
+    const availableYears = useMemo(() => {
+        const years = new Set(assets.map(item => item.date.slice(0, 4)));
+        years.add(String(new Date().getFullYear()));
+        return Array.from(years).sort((a, b) => b.localeCompare(a));
+    }, [assets]);
+
+    const periodRows = useMemo(
+        () => filterByPeriod(baseAssets, selectedYear, selectedYear === 'All' ? null : selectedMonth),
+        [baseAssets, selectedYear, selectedMonth]
+    );
+
+    const tagTotals = useMemo(() => {
+        const key = selectedType === 'IN' ? 'in' : 'out';
+        return totalsByTag(periodRows)
+            .filter(t => t[key] > 0)
+            .sort((a, b) => b[key] - a[key]);
+    }, [periodRows, selectedType]);
+
+    const typeTotal = useMemo(
+        () => tagTotals.reduce((sum, t) => sum + (selectedType === 'IN' ? t.in : t.out), 0),
+        [tagTotals, selectedType]
+    );
+
+    // Month-over-month (or year-over-year for All) bars, narrowed to the drilled tag
+    const periodTotals = useMemo(() => {
+        const rows = filterByPeriod(baseAssets, selectedYear, null)
+            .filter(row => !selectedTag || tagLabel(row.tag) === selectedTag);
+        return totalsByPeriod(rows, selectedYear);
+    }, [baseAssets, selectedYear, selectedTag]);
+
+    const drillRows = useMemo(
+        () => selectedTag ? periodRows.filter(row => tagLabel(row.tag) === selectedTag) : [],
+        [periodRows, selectedTag]
+    );
+
+    const formatCurrency = (value: number) => formatMoney(value, baseCurrency);
+
+    const doughnutData: ChartData<'doughnut'> = useMemo(() => {
+        const key = selectedType === 'IN' ? 'in' : 'out';
+        const head = tagTotals.slice(0, MAX_SLICES);
+        const rest = tagTotals.slice(MAX_SLICES).reduce((sum, t) => sum + t[key], 0);
+        const labels = [...head.map(t => t.tag), ...(rest > 0 ? ['Other'] : [])];
+        return {
+            labels,
+            datasets: [{
+                data: [...head.map(t => t[key]), ...(rest > 0 ? [rest] : [])],
+                backgroundColor: labels.map((_, i) => PALETTE[i % PALETTE.length]),
+                borderWidth: 0,
+            }],
+        };
+    }, [tagTotals, selectedType]);
+
+    const doughnutOptions: ChartOptions<'doughnut'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        cutout: '70%',
+        plugins: {
+            legend: { display: false },
+            tooltip: {
+                callbacks: {
+                    label: (ctx) => `${ctx.label}: ${formatCurrency(Number(ctx.raw))}`,
+                },
+            },
+        },
+        onClick: (_event, elements) => {
+            const label = elements.length > 0 ? doughnutData.labels?.[elements[0].index] : undefined;
+            if (typeof label === 'string' && label !== 'Other') setSelectedTag(label);
+        },
+    };
+
+    const barData: ChartData<'bar'> = useMemo(() => ({
+        labels: periodTotals.map(p => selectedYear === 'All'
+            ? p.key
+            : MONTHS[Number(p.key.slice(5, 7)) - 1].slice(0, 3)),
+        datasets: [
+            { label: 'In', data: periodTotals.map(p => p.in), backgroundColor: '#16a34a', borderRadius: 4 },
+            { label: 'Out', data: periodTotals.map(p => p.out), backgroundColor: '#dc2626', borderRadius: 4 },
+        ],
+    }), [periodTotals, selectedYear]);
+
+    const barOptions: ChartOptions<'bar'> = {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+            legend: { display: false },
+            tooltip: {
+                callbacks: {
+                    label: (ctx) => `${ctx.dataset.label}: ${formatCurrency(Number(ctx.raw))}`,
+                },
+            },
+        },
+        scales: {
+            x: { grid: { display: false }, ticks: { font: { size: 10 }, color: '#9ca3af' } },
+            y: {
+                grid: { color: '#f1f5f9' },
+                ticks: {
+                    maxTicksLimit: 5,
+                    font: { size: 10 },
+                    color: '#9ca3af',
+                    callback: (value) => Number(value).toLocaleString('en-US', { notation: 'compact' }),
+                },
+            },
+        },
+        onClick: (_event, elements) => {
+            // Tapping a month bar narrows the view to that month
+            if (elements.length > 0 && selectedYear !== 'All') {
+                setSelectedMonth(elements[0].index);
+            }
+        },
+    };
+
+    const openInTransactions = (tag: string) => {
+        const filters = { ...EMPTY_FILTERS, tag };
+        if (selectedYear !== 'All') {
+            const month = selectedMonth;
+            const lastDay = month === null ? 31 : new Date(Number(selectedYear), month + 1, 0).getDate();
+            filters.from = `${selectedYear}-${String((month ?? 0) + 1).padStart(2, '0')}-01`;
+            filters.to = `${selectedYear}-${String((month ?? 11) + 1).padStart(2, '0')}-${lastDay}`;
+        }
+        navigate(`/transactions?${filtersToParams(filters).toString()}`);
+    };
+
+    if (loading) return <div className="p-4 text-center">Loading...</div>;
+    if (error) return <div className="p-4 text-center text-red-500">Error: {error}</div>;
+
+    const periodLabel = selectedYear === 'All'
+        ? 'All Time'
+        : selectedMonth === null ? selectedYear : `${MONTHS[selectedMonth]} ${selectedYear}`;
+
+    return (
+        <div className="p-4 pb-24 max-w-lg mx-auto">
+            <div className="flex items-center mb-4">
+                <button
+                    onClick={() => navigate('/transactions')}
+                    className="mr-3 p-2 rounded-full hover:bg-gray-100 transition-colors"
+                >
+                    <i className="pi pi-arrow-left text-gray-600"></i>
+                </button>
+                <h1 className="text-2xl font-bold text-[#001f3f]">Tag Analytics</h1>
+            </div>
+
+            {/* Filters */}
+            <div className="grid grid-cols-2 gap-3 mb-3">
+                <div>
+                    <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Year</label>
+                    <select
+                        value={selectedYear}
+                        onChange={(e) => { setSelectedYear(e.target.value); setSelectedMonth(null); }}
+                        className="bg-white border border-gray-200 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5 shadow-sm"
+                    >
+                        <option value="All">All Time</option>
+                        {availableYears.map(year => (
+                            <option key={year} value={year}>{year}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-semibold text-gray-500 uppercase mb-1">Month</label>
+                    <select
+                        value={selectedMonth ?? ''}
+                        onChange={(e) => setSelectedMonth(e.target.value === '' ? null : Number(e.target.value))}
+                        disabled={selectedYear === 'All'}
+                        className="bg-white border border-gray-200 text-gray-700 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2.5 shadow-sm disabled:opacity-50"
+                    >
+                        <option value="">Whole Year</option>
+                        {MONTHS.map((month, index) => (
+                            <option key={month} value={index}>{month}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="flex bg-gray-100 rounded-xl p-1 gap-1 mb-4">
+                {(['OUT', 'IN'] as const).map(type => (
+                    <button
+                        key={type}
+                        onClick={() => { setSelectedType(type); setSelectedTag(null); }}
+                        className={`flex-1 py-1.5 rounded-lg text-xs font-semibold transition-all ${selectedType === type ? 'bg-white text-[#001f3f] shadow-sm' : 'text-gray-500'}`}
+                    >
+                        {type === 'OUT' ? 'Spending' : 'Income'}
+                    </button>
+                ))}
+            </div>
+
+            <div className="grid gap-4">
+                {/* Distribution */}
+                <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+                    {tagTotals.length > 0 ? (
+                        <div className="w-full flex justify-center py-4 relative h-64">
+                            <Doughnut data={doughnutData} options={doughnutOptions} />
+                            {/* Center Text Overlay */}
+                            <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                                <span className="text-xs text-gray-400 font-medium">{periodLabel}</span>
+                                <span className="text-lg font-bold text-[#001f3f]">{formatCurrency(typeTotal)}</span>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="text-center py-10 text-gray-400 text-sm">
+                            <i className="pi pi-inbox text-4xl mb-2 opacity-50 block"></i>
+                            No {selectedType === 'OUT' ? 'spending' : 'income'} in {periodLabel}
+                        </div>
+                    )}
+                </div>
+
+                {/* Month over month */}
+                <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+                    <div className="flex justify-between items-center mb-2">
+                        <span className="text-xs font-bold text-[#001f3f] uppercase tracking-wider opacity-70">
+                            {selectedYear === 'All' ? 'By Year' : 'By Month'}{selectedTag ? ` • ${selectedTag}` : ''}
+                        </span>
+                        <div className="flex gap-3 text-[10px] text-gray-500">
+                            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-green-600"></span>In</span>
+                            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-600"></span>Out</span>
+                        </div>
+                    </div>
+                    <div className="relative h-48">
+                        <Bar data={barData} options={barOptions} />
+                    </div>
+                </div>
+
+                {/* Top tags */}
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
+                    <div className="grid grid-cols-12 gap-2 px-4 py-2 bg-gray-50 text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                        <span className="col-span-5">Tag</span>
+                        <span className="col-span-3 text-right">In</span>
+                        <span className="col-span-3 text-right">Out</span>
+                        <span className="col-span-1 text-right">#</span>
+                    </div>
+                    {tagTotals.map((t, index) => (
+                        <button
+                            key={t.tag}
+                            onClick={() => setSelectedTag(selectedTag === t.tag ? null : t.tag)}
+                            className={`w-full grid grid-cols-12 gap-2 px-4 py-2.5 border-t border-gray-100 text-left text-xs items-center transition-colors ${selectedTag === t.tag ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                        >
+                            <span className="col-span-5 flex items-center gap-2 min-w-0">
+                                <span
+                                    className="w-2 h-2 rounded-full flex-shrink-0"
+                                    style={{ backgroundColor: index < MAX_SLICES ? PALETTE[index % PALETTE.length] : '#d1d5db' }}
+                                ></span>
+                                <span className={`truncate font-semibold ${t.tag === UNTAGGED ? 'text-gray-400 italic' : 'text-gray-800'}`}>{t.tag}</span>
+                            </span>
+                            <span className="col-span-3 text-right text-green-600 font-semibold">{t.in > 0 ? formatCurrency(t.in) : '—'}</span>
+                            <span className="col-span-3 text-right text-gray-900 font-semibold">{t.out > 0 ? formatCurrency(t.out) : '—'}</span>
+                            <span className="col-span-1 text-right text-gray-400">{t.count}</span>
+                        </button>
+                    ))}
+                    {tagTotals.length === 0 && (
+                        <div className="px-4 py-6 text-center text-xs text-gray-400 border-t border-gray-100">No tags in this period</div>
+                    )}
+                </div>
+
+                {/* Drill-down */}
+                {selectedTag && (
+                    <div className="flex flex-col gap-2">
+                        <div className="flex justify-between items-center px-1">
+                            <span className="text-xs font-bold text-[#001f3f] uppercase tracking-wider opacity-70">
+                                {selectedTag} • {drillRows.length} row{drillRows.length !== 1 ? 's' : ''}
+                            </span>
+                            <button
+                                onClick={() => openInTransactions(selectedTag)}
+                                className="text-xs font-semibold text-blue-600 hover:text-blue-700 flex items-center gap-1"
+                            >
+                                Open in Transactions <i className="pi pi-external-link text-[10px]"></i>
+                            </button>
+                        </div>
+                        <div className="flex flex-col gap-0">
+                            {drillRows.map(item => (
+                                <div key={item.id} className="bg-white p-3 border-b border-gray-100 last:border-0 first:rounded-t-2xl last:rounded-b-2xl flex items-center justify-between shadow-sm">
+                                    <div className="flex flex-col items-start gap-0.5 min-w-0">
+                                        <span className="font-semibold text-gray-800 text-xs truncate max-w-full">{item.note || item.account_name}</span>
+                                        <span className="text-gray-400 text-[10px]">
+                                            {new Date(item.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })} • {item.account_name}
+                                        </span>
+                                    </div>
+                                    <span className={`font-bold text-xs ${item.type === 'IN' ? 'text-green-600' : 'text-gray-900'}`}>
+                                        {item.type === 'IN' ? '+' : '-'}{formatCurrency(Number(item.amount))}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <div className="bg-gray-50 p-4 rounded-xl text-center text-xs text-gray-400">
+                    Showing <strong>{selectedType === 'OUT' ? 'spending' : 'income'}</strong> for <strong>{periodLabel}</strong> in <strong>{baseCurrency}</strong>.
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,33 +1,113 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '../supabaseClient';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { assetsRepository } from '../data/assetsRepository';
+import { accountsQuery, loadMoreTransactions, transactionsPageQuery, transferLegsQuery } from '../data/queries';
+import { useQuery } from '../data/queryCache';
+import { getAccountIcon } from '../lib/accounts';
+import { formatMoney } from '../lib/currency';
+import { countActiveFilters, EMPTY_FILTERS, filtersToParams, parseFilters } from '../lib/transactionFilters';
+import type { TransactionFilters } from '../lib/transactionFilters';
+import { deleteTransfer } from '../lib/transfers';
 import type { PantagonAsset } from '../types';
 
 export default function Transactions() {
-    const [assets, setAssets] = useState<PantagonAsset[]>([]);
-    const [loading, setLoading] = useState(true);
+    const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
+    const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+    const filterKey = searchParams.toString();
 
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [deleteId, setDeleteId] = useState<number | null>(null);
+    const [searchText, setSearchText] = useState(filters.q);
+    const [tagText, setTagText] = useState(filters.tag);
+    const [showFilters, setShowFilters] = useState(countActiveFilters(filters) > 0);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    // "Load more" appends to the cached list; new filters start again from one page
+    const pageState = useQuery(transactionsPageQuery(filters));
+    const accountsState = useQuery(accountsQuery);
+
+    const assets = useMemo(() => pageState.data?.rows ?? [], [pageState.data]);
+    const totalCount = pageState.data?.total ?? 0;
+    const registry = accountsState.data ?? [];
+    // While new filters load the previous list stays on screen
+    const isRefreshing = pageState.placeholder;
+
+    // Both legs of every transfer on screen, to label it "from → to"
+    const transferIds = useMemo(
+        () => Array.from(new Set(assets.flatMap(a => a.transfer_id ? [a.transfer_id] : []))).sort(),
+        [assets]
+    );
+    const transfers = useQuery(transferLegsQuery(transferIds)).data ?? {};
+
+    const updateFilters = useCallback((patch: Partial<TransactionFilters>) => {
+        setSearchParams(prev => filtersToParams({ ...parseFilters(prev), ...patch }), { replace: true });
+    }, [setSearchParams]);
+
+    // Debounce typed text into the URL; it is trimmed there, so compare trimmed
+    // and keep what is being typed (e.g. the space before a second word)
+    useEffect(() => {
+        if (searchText.trim() === filters.q) return;
+        const timer = setTimeout(() => updateFilters({ q: searchText.trim() }), 300);
+        return () => clearTimeout(timer);
+    }, [searchText, filters.q, updateFilters]);
+
+    useEffect(() => {
+        if (tagText.trim() === filters.tag) return;
+        const timer = setTimeout(() => updateFilters({ tag: tagText.trim() }), 300);
+        return () => clearTimeout(timer);
+    }, [tagText, filters.tag, updateFilters]);
+
+    const hasMore = assets.length < totalCount;
+
+    const loadMore = useCallback(() => {
+        if (loadingMore || !hasMore || isRefreshing) return;
+        setLoadingMore(true);
+        loadMoreTransactions(filters).finally(() => setLoadingMore(false));
+    }, [loadingMore, hasMore, isRefreshing, filters]);
+
+    // Infinite scroll: fetch the next page when the end of the list comes into view
     useEffect(() => {
-        fetchAllAssets();
-    }, []);
-
-    const fetchAllAssets = async () => {
-        setLoading(true);
-        const { data, error } = await supabase
-            .from('pantagon_assets')
-            .select('*')
-            .order('date', { ascending: false })
-            .order('id', { ascending: false });
-
-        if (error) {
-            console.error('Error fetching assets:', error);
-        } else {
-            setAssets(data || []);
+        const node = sentinelRef.current;
+        if (!node || !hasMore) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries[0].isIntersecting) loadMore();
+        }, { rootMargin: '200px' });
+        observer.observe(node);
+        return () => observer.disconnect();
+    }, [hasMore, loadMore]);
+
+    const clearFilters = () => {
+        setSearchText('');
+        setTagText('');
+        setSearchParams(filtersToParams(EMPTY_FILTERS), { replace: true });
+    };
+
+    const handleEdit = (item: PantagonAsset) => {
+        navigate(`/edit/${item.id}`, { state: { asset: item, returnTo: `/transactions${filterKey ? `?${filterKey}` : ''}` } });
+    };
+
+    const handleDelete = async (item: PantagonAsset) => {
+        try {
+            if (item.transfer_id) await deleteTransfer(item.transfer_id);
+            else await assetsRepository.remove(item.id);
+        } catch (error) {
+            console.error('Error deleting transaction:', error);
+            alert('Delete failed: ' + (error as Error).message);
+            return;
         }
-        setLoading(false);
+        setDeleteId(null);
     };
 
-    const formatCurrency = (value: number) => {
-        return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+    const transferRoute = (item: PantagonAsset) => {
+        const legs = item.transfer_id ? transfers[item.transfer_id] : undefined;
+        const from = legs?.out?.account_name ?? (item.type === 'OUT' ? item.account_name : '…');
+        const to = legs?.in?.account_name ?? (item.type === 'IN' ? item.account_name : '…');
+        return `${from} → ${to}`;
+    };
+
+    const formatCurrency = (value: number, currency: string) => {
+        return formatMoney(value, currency);
     };
 
     const formatDate = (dateString: string) => {
@@ -40,73 +120,217 @@ export default function Transactions() {
         });
     };
 
-    // Helper to get icon based on account name
-    const getAccountIcon = (accountName: string): string | undefined => {
-        if (!accountName) return undefined;
-        const lowerName = accountName.toLowerCase();
-        if (lowerName.includes('scb')) return '/scb.jpg';
-        if (lowerName.includes('dime')) return '/Dime.png';
-        if (lowerName.includes('kbank') || lowerName.includes('make')) return '/kbank.png';
-        if (lowerName.includes('ttb')) return '/ttb.png';
-        if (lowerName.includes('sso')) return '/SSO.jpg';
-        return undefined;
-    };
-
-    if (loading) {
+    if (pageState.loading) {
         return <div className="flex justify-center items-center min-h-screen text-gray-500 font-sans">Loading transactions...</div>;
     }
 
+    const activeFilterCount = countActiveFilters(filters);
+
     return (
-        <div className="flex flex-col gap-6 max-w-lg mx-auto pb-24 px-4 pt-4">
-            {/* <div className="flex items-center gap-3">
-                <button
-                    onClick={() => window.history.back()}
-                    className="w-10 h-10 flex items-center justify-center rounded-full bg-white text-gray-600 shadow-sm hover:bg-gray-50 transition-colors border border-gray-100"
-                >
-                    <i className="pi pi-arrow-left"></i>
-                </button>
-                <h2 className="text-2xl font-bold text-[#001f3f] m-0">All Transactions</h2>
-            </div> */}
-
-            <div className="flex flex-col gap-0 backdrop-blur-sm">
-                {assets.map((item) => (
-                    <div key={item.id} className="bg-white p-4 border-b border-gray-100 last:border-0 first:rounded-t-2xl last:rounded-b-2xl flex items-center justify-between hover:bg-gray-50 transition-colors shadow-sm">
-                        <div className="flex items-center gap-4">
-                            {/* Account Icon */}
-                            <div className="w-10 h-10 rounded-full overflow-hidden shadow-sm border border-gray-100 flex-shrink-0 bg-white flex items-center justify-center">
-                                {getAccountIcon(item.account_name) ? (
-                                    <img
-                                        src={getAccountIcon(item.account_name)}
-                                        alt={item.account_name}
-                                        className="w-full h-full object-cover"
-                                        onError={(e) => {
-                                            (e.target as HTMLImageElement).style.display = 'none';
-                                            (e.target as HTMLImageElement).nextElementSibling?.classList.remove('hidden');
-                                        }}
-                                    />
-                                ) : (
-                                    <div className={`w-full h-full flex items-center justify-center ${item.type === 'IN' ? 'bg-green-50' : 'bg-red-50'}`}>
-                                        <i className={`pi ${item.type === 'IN' ? 'pi-arrow-down-left' : 'pi-arrow-up-right'} text-sm ${item.type === 'IN' ? 'text-green-600' : 'text-red-600'}`}></i>
-                                    </div>
+        <div className="flex flex-col gap-4 max-w-lg mx-auto pb-24 px-4 pt-4">
+            {/* Search & Filters */}
+            <div className="flex flex-col gap-2">
+                <div className="flex gap-2">
+                    <div className="relative flex-1">
+                        <i className="pi pi-search absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm"></i>
+                        <input
+                            type="search"
+                            value={searchText}
+                            onChange={(e) => setSearchText(e.target.value)}
+                            placeholder="Search note or tag"
+                            className="w-full pl-9 pr-3 py-2.5 bg-white border border-gray-200 rounded-xl text-sm text-gray-700 shadow-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none placeholder-gray-300"
+                        />
+                    </div>
+                    <button
+                        onClick={() => setShowFilters(!showFilters)}
+                        className={`relative w-11 flex items-center justify-center rounded-xl border shadow-sm transition-colors ${showFilters ? 'bg-[#001f3f] text-white border-[#001f3f]' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+                        aria-label="Filters"
+                    >
+                        <i className="pi pi-filter text-sm"></i>
+                        {activeFilterCount > 0 && (
+                            <span className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-blue-600 text-white text-[9px] font-bold flex items-center justify-center">
+                                {activeFilterCount}
+                            </span>
+                        )}
+                    </button>
+                </div>
+
+                {showFilters && (
+                    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-3 flex flex-col gap-3">
+                        <div className="grid grid-cols-2 gap-2">
+                            <select
+                                value={filters.account}
+                                onChange={(e) => updateFilters({ account: e.target.value })}
+                                className="bg-gray-50 border border-gray-200 text-gray-700 text-xs rounded-lg block w-full p-2 outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="">All accounts</option>
+                                {registry.map(acc => (
+                                    <option key={acc.id} value={acc.name}>{acc.name}</option>
+                                ))}
+                                {filters.account && !registry.some(acc => acc.name === filters.account) && (
+                                    <option value={filters.account}>{filters.account}</option>
                                 )}
-                                <i className={`pi pi-wallet text-gray-400 hidden`}></i>
+                            </select>
+                            <div className="flex bg-gray-100 rounded-lg p-0.5 gap-0.5">
+                                {([['', 'All'], ['IN', 'In'], ['OUT', 'Out']] as const).map(([value, label]) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => updateFilters({ type: value })}
+                                        className={`flex-1 rounded-md text-[11px] font-bold transition-all ${filters.type === value ? 'bg-white text-[#001f3f] shadow-sm' : 'text-gray-500'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
                             </div>
-
-                            {/* Info */}
-                            <div className="flex flex-col items-start gap-0.5">
-                                <span className="font-bold text-gray-800 text-sm text-left line-clamp-1">
-                                    {item.tag || item.account_name}
-                                </span>
-                                <span className="text-gray-400 text-xs text-left">
-                                    {formatDate(item.date)} • {item.account_name}
-                                </span>
+                        </div>
+                        <div className="relative">
+                            <i className="pi pi-tag absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400 text-xs"></i>
+                            <input
+                                type="text"
+                                value={tagText}
+                                onChange={(e) => setTagText(e.target.value)}
+                                placeholder="Exact tag"
+                                className="bg-gray-50 border border-gray-200 text-gray-700 text-xs rounded-lg w-full p-2 pl-7 outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <input
+                                type="number"
+                                value={filters.min}
+                                onChange={(e) => updateFilters({ min: e.target.value })}
+                                placeholder="Min amount"
+                                step="0.01"
+                                className="bg-gray-50 border border-gray-200 text-gray-700 text-xs rounded-lg w-full p-2 outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <input
+                                type="number"
+                                value={filters.max}
+                                onChange={(e) => updateFilters({ max: e.target.value })}
+                                placeholder="Max amount"
+                                step="0.01"
+                                className="bg-gray-50 border border-gray-200 text-gray-700 text-xs rounded-lg w-full p-2 outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">From</label>
+                                <input
+                                    type="date"
+                                    value={filters.from}
+                                    onChange={(e) => updateFilters({ from: e.target.value })}
+                                    className="bg-gray-50 border border-gray-200 text-gray-700 text-xs rounded-lg w-full p-2 outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 ml-1">To</label>
+                                <input
+                                    type="date"
+                                    value={filters.to}
+                                    onChange={(e) => updateFilters({ to: e.target.value })}
+                                    className="bg-gray-50 border border-gray-200 text-gray-700 text-xs rounded-lg w-full p-2 outline-none focus:ring-2 focus:ring-blue-500"
+                                />
                             </div>
                         </div>
+                        {(activeFilterCount > 0 || filters.q) && (
+                            <button
+                                onClick={clearFilters}
+                                className="self-end text-xs font-semibold text-red-500 hover:text-red-600"
+                            >
+                                Clear filters
+                            </button>
+                        )}
+                    </div>
+                )}
 
-                        {/* Amount */}
-                        <div className={`font-bold text-sm ${item.type === 'IN' ? 'text-green-600' : 'text-gray-900'}`}>
-                            {item.type === 'IN' ? '+' : '-'}{formatCurrency(Number(item.amount))}
+                <div className="flex justify-between items-center px-1 text-[11px] text-gray-400">
+                    <span className="flex items-center gap-2">
+                        {totalCount} transaction{totalCount !== 1 ? 's' : ''}
+                        {isRefreshing && <i className="pi pi-spin pi-spinner text-xs"></i>}
+                    </span>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => navigate('/transactions/import')}
+                            className="flex items-center gap-1 font-semibold text-gray-500 hover:text-[#001f3f] transition-colors"
+                        >
+                            <i className="pi pi-upload text-[10px]"></i> Import
+                        </button>
+                        <button
+                            onClick={() => navigate('/transactions/analytics')}
+                            className="flex items-center gap-1 font-semibold text-gray-500 hover:text-[#001f3f] transition-colors"
+                        >
+                            <i className="pi pi-chart-pie text-[10px]"></i> Tag Analytics
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <div className={`flex flex-col gap-0 backdrop-blur-sm transition-opacity ${isRefreshing ? 'opacity-50' : ''}`}>
+                {assets.map((item) => (
+                    <div key={item.id} className="bg-white border-b border-gray-100 last:border-0 first:rounded-t-2xl last:rounded-b-2xl shadow-sm overflow-hidden">
+                        <div
+                            onClick={() => handleEdit(item)}
+                            className="p-4 flex items-center justify-between hover:bg-gray-50 transition-colors cursor-pointer"
+                        >
+                            <div className="flex items-center gap-4">
+                                {/* Account Icon */}
+                                <div className="w-10 h-10 rounded-full overflow-hidden shadow-sm border border-gray-100 flex-shrink-0 bg-white flex items-center justify-center">
+                                    {item.transfer_id ? (
+                                        <div className="w-full h-full flex items-center justify-center bg-blue-50">
+                                            <i className="pi pi-arrow-right-arrow-left text-sm text-blue-600"></i>
+                                        </div>
+                                    ) : getAccountIcon(registry, item.account_name) ? (
+                                        <img
+                                            src={getAccountIcon(registry, item.account_name)}
+                                            alt={item.account_name}
+                                            className="w-full h-full object-cover"
+                                            onError={(e) => {
+                                                (e.target as HTMLImageElement).style.display = 'none';
+                                                (e.target as HTMLImageElement).nextElementSibling?.classList.remove('hidden');
+                                            }}
+                                        />
+                                    ) : (
+                                        <div className={`w-full h-full flex items-center justify-center ${item.type === 'IN' ? 'bg-green-50' : 'bg-red-50'}`}>
+                                            <i className={`pi ${item.type === 'IN' ? 'pi-arrow-down-left' : 'pi-arrow-up-right'} text-sm ${item.type === 'IN' ? 'text-green-600' : 'text-red-600'}`}></i>
+                                        </div>
+                                    )}
+                                    <i className={`pi pi-wallet text-gray-400 hidden`}></i>
+                                </div>
+
+                                {/* Info */}
+                                <div className="flex flex-col items-start gap-0.5">
+                                    <span className="font-bold text-gray-800 text-sm text-left line-clamp-1">
+                                        {item.tag || (item.transfer_id ? 'Transfer' : item.account_name)}
+                                    </span>
+                                    <span className="text-gray-400 text-xs text-left">
+                                        {formatDate(item.date)} • {item.transfer_id ? transferRoute(item) : item.account_name}
+                                    </span>
+                                </div>
+                            </div>
+
+                            {/* Amount */}
+                            <div className="flex items-center gap-3">
+                                <div className={`font-bold text-sm ${item.transfer_id ? 'text-blue-600' : item.type === 'IN' ? 'text-green-600' : 'text-gray-900'}`}>
+                                    {item.transfer_id && !filters.account ? '' : item.type === 'IN' ? '+' : '-'}{formatCurrency(Number(item.amount), item.currency || 'THB')}
+                                </div>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); setDeleteId(item.id); }}
+                                    className="text-gray-300 hover:text-red-400 transition-colors"
+                                >
+                                    <i className="pi pi-trash text-xs" />
+                                </button>
+                            </div>
                         </div>
+
+                        {/* Delete confirm */}
+                        {deleteId === item.id && (
+                            <div className="bg-red-50 border-t border-red-100 px-4 py-2.5 flex items-center justify-between">
+                                <span className="text-xs text-red-600 font-medium">{item.transfer_id ? 'Delete both legs of this transfer?' : 'Delete this transaction?'}</span>
+                                <div className="flex gap-2">
+                                    <button onClick={() => setDeleteId(null)} className="text-xs text-gray-500 px-2 py-1 hover:bg-gray-100 rounded">Cancel</button>
+                                    <button onClick={() => handleDelete(item)} className="text-xs text-white bg-red-500 px-3 py-1 rounded-lg font-semibold">Confirm</button>
+                                </div>
+                            </div>
+                        )}
                     </div>
                 ))}
 
@@ -116,6 +340,18 @@ export default function Transactions() {
                     </div>
                 )}
             </div>
+
+            {hasMore && (
+                <div ref={sentinelRef} className="flex justify-center">
+                    <button
+                        onClick={loadMore}
+                        disabled={loadingMore}
+                        className="text-xs font-semibold text-blue-600 px-4 py-2 rounded-full bg-blue-50 hover:bg-blue-100 transition-colors disabled:opacity-50"
+                    >
+                        {loadingMore ? <i className="pi pi-spin pi-spinner"></i> : `Load more (${totalCount - assets.length} left)`}
+                    </button>
+                </div>
+            )}
         </div>
     );
 }
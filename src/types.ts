@@ -7,7 +7,12 @@ export interface PantagonAsset {
   date: string; // ISO date string YYYY-MM-DD
   note: string | null;
   tag: string | null;
+  currency: string; // ISO code of amount, e.g. 'THB'
+  transfer_id: string | null; // uuid shared by both legs of a transfer
+  recurring_id: number | null; // template this row was posted from
+  recurring_date: string | null; // scheduled occurrence date, YYYY-MM-DD
   created_at?: string;
+  user_id?: string; // owner; set by the database from the session
 }
 
 export interface PantagonUSD {
@@ -19,6 +24,7 @@ export interface PantagonUSD {
   from_currency: string;
   to_currency: string;
   created_at?: string;
+  user_id?: string;
 }
 
 export interface DimeTransaction {
@@ -33,6 +39,7 @@ export interface DimeTransaction {
   vat: number | null;
   fee: number | null;
   created_at?: string | null;
+  user_id?: string;
   input_amount_usd: number | null;  // For BUY: the USD amount input
   input_shares: number | null;      // For SELL: the shares input
   stock_amount: number | null;
@@ -40,3 +47,52 @@ export interface DimeTransaction {
   taf_fee: number | null;
   currency: string | null;
 }
+
+export interface PantagonAccount {
+  id: number;
+  name: string;
+  institution: string | null;
+  icon: string | null; // public asset path, e.g. '/scb.jpg'
+  sort_order: number;
+  currency: string;
+  category: string | null;
+  archived: boolean;
+  created_at?: string;
+  user_id?: string;
+}
+
+export interface PantagonRecurring {
+  id: number;
+  name: string;
+  account_name: string;
+  type: 'IN' | 'OUT';
+  amount: number;
+  currency: string;
+  tag: string | null;
+  note: string | null;
+  cadence: 'weekly' | 'monthly' | 'yearly';
+  start_date: string; // YYYY-MM-DD
+  end_date: string | null;
+  active: boolean;
+  created_at?: string;
+  user_id?: string;
+}
+
+export interface PantagonRecurringSkip {
+  recurring_id: number;
+  occurrence_date: string; // YYYY-MM-DD
+  created_at?: string;
+  user_id?: string;
+}
+
+export interface PantagonBudget {
+  id: number;
+  tag: string;
+  account_name: string | null; // null = all accounts
+  amount: number; // per month, in `currency`
+  currency: string;
+  carry_over: boolean;
+  start_month: string; // first day of the first budgeted month, YYYY-MM-DD
+  created_at?: string;
+  user_id?: string;
+}
@@ -0,0 +1,27 @@
+-- Account registry read by the Dashboard, Transactions, AccountDetails and
+-- AddTransaction pages. pantagon_assets.account_name refers to name.
+create table if not exists public.pantagon_accounts (
+    id bigint generated by default as identity primary key,
+    name text not null unique,
+    institution text,
+    icon text,
+    sort_order integer not null default 0,
+    currency text not null default 'THB',
+    category text,
+    archived boolean not null default false,
+    created_at timestamptz not null default now()
+);
+
+-- Seed with the accounts previously hardcoded in AddTransaction.tsx,
+-- ordered the way Dashboard.getRank used to sort them.
+insert into public.pantagon_accounts (name, institution, icon, sort_order, currency, category) values
+    ('Dime [Invest]', 'Dime', '/Dime.png', 1, 'THB', 'Investment'),
+    ('Dime [Save]', 'Dime', '/Dime.png', 2, 'THB', 'Savings'),
+    ('Dime [FCD]', 'Dime', '/Dime.png', 3, 'USD', 'Foreign Currency'),
+    ('SCB [Recieve/ Saving]', 'SCB', '/scb.jpg', 4, 'THB', 'Bank'),
+    ('KBank Emergency', 'KBank', '/kbank.png', 5, 'THB', 'Emergency Fund'),
+    ('PVD [Kbank]', 'KBank', '/kbank.png', 6, 'THB', 'Retirement'),
+    ('ttb Emergency Main', 'ttb', '/ttb.png', 7, 'THB', 'Emergency Fund'),
+    ('SSO', 'SSO', '/SSO.jpg', 8, 'THB', 'Retirement'),
+    ('Make Monthly Expense', 'KBank', '/kbank.png', 9, 'THB', 'Spending')
+on conflict (name) do nothing;
@@ -0,0 +1,10 @@
+-- Ledger amounts are stored in the currency of the entry. Existing rows take
+-- the currency of their registered account (THB unless set otherwise).
+alter table public.pantagon_assets
+    add column if not exists currency text not null default 'THB';
+
+update public.pantagon_assets as a
+set currency = acc.currency
+from public.pantagon_accounts as acc
+where a.account_name = acc.name
+  and a.currency <> acc.currency;
@@ -0,0 +1,8 @@
+-- Inter-account transfers are stored as an OUT and an IN row sharing a
+-- transfer_id. Both legs move balances; neither is income or expense.
+alter table public.pantagon_assets
+    add column if not exists transfer_id uuid;
+
+create index if not exists pantagon_assets_transfer_id_idx
+    on public.pantagon_assets (transfer_id)
+    where transfer_id is not null;
@@ -0,0 +1,33 @@
+-- Recurring templates (salary, SSO, PVD, ...) and the occurrences posted from
+-- them. Each occurrence can be posted or skipped at most once: posted rows
+-- carry (recurring_id, recurring_date) under a unique constraint, skips live
+-- in their own table keyed the same way.
+create table if not exists public.pantagon_recurring (
+    id bigint generated by default as identity primary key,
+    name text not null,
+    account_name text not null,
+    type text not null check (type in ('IN', 'OUT')),
+    amount numeric not null check (amount > 0),
+    currency text not null default 'THB',
+    tag text,
+    note text,
+    cadence text not null default 'monthly' check (cadence in ('weekly', 'monthly', 'yearly')),
+    start_date date not null,
+    end_date date,
+    active boolean not null default true,
+    created_at timestamptz not null default now()
+);
+
+alter table public.pantagon_assets
+    add column if not exists recurring_id bigint references public.pantagon_recurring (id) on delete set null,
+    add column if not exists recurring_date date;
+
+alter table public.pantagon_assets
+    add constraint pantagon_assets_recurring_occurrence_key unique (recurring_id, recurring_date);
+
+create table if not exists public.pantagon_recurring_skips (
+    recurring_id bigint not null references public.pantagon_recurring (id) on delete cascade,
+    occurrence_date date not null,
+    created_at timestamptz not null default now(),
+    primary key (recurring_id, occurrence_date)
+);
@@ -0,0 +1,16 @@
+-- Monthly spending budgets per tag, optionally narrowed to one account. With
+-- carry_over, the unspent (or overspent) balance of each month since
+-- start_month rolls into the next.
+create table if not exists public.pantagon_budgets (
+    id bigint generated by default as identity primary key,
+    tag text not null,
+    account_name text,
+    amount numeric not null check (amount > 0),
+    currency text not null default 'THB',
+    carry_over boolean not null default false,
+    start_month date not null default date_trunc('month', now())::date,
+    created_at timestamptz not null default now()
+);
+
+create unique index if not exists pantagon_budgets_tag_account_idx
+    on public.pantagon_budgets (tag, coalesce(account_name, ''));
@@ -0,0 +1,22 @@
+-- Restoring a backup writes rows with their original ids, which leaves the
+-- identity sequences behind max(id). The app calls this after a restore so
+-- later inserts do not collide. dime_transactions uses uuids and needs none.
+create or replace function public.pantagon_sync_id_sequences()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform setval(
+        pg_get_serial_sequence('public.pantagon_assets', 'id'),
+        coalesce((select max(id) from public.pantagon_assets), 0) + 1,
+        false
+    );
+    perform setval(
+        pg_get_serial_sequence('public.pantagon_usd', 'id'),
+        coalesce((select max(id) from public.pantagon_usd), 0) + 1,
+        false
+    );
+end;
+$$;
@@ -0,0 +1,52 @@
+-- Per-user data: every row belongs to the auth user who created it, and row
+-- level security limits each signed-in member to their own rows. user_id
+-- defaults to auth.uid(), so the app never sends it.
+--
+-- Rows written before this migration have no owner and become invisible.
+-- Claim them for one member (find the id under Authentication > Users):
+--
+--     update public.pantagon_assets set user_id = '<user uuid>' where user_id is null;
+--     -- ...and the same for the other tables listed below
+do $$
+declare
+    t text;
+begin
+    foreach t in array array[
+        'pantagon_assets',
+        'pantagon_usd',
+        'dime_transactions',
+        'pantagon_accounts',
+        'pantagon_recurring',
+        'pantagon_recurring_skips',
+        'pantagon_budgets'
+    ]
+    loop
+        execute format(
+            'alter table public.%I add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade',
+            t
+        );
+        execute format('create index if not exists %I on public.%I (user_id)', t || '_user_id_idx', t);
+        execute format('alter table public.%I enable row level security', t);
+        execute format('drop policy if exists "Owners manage their rows" on public.%I', t);
+        execute format(
+            'create policy "Owners manage their rows" on public.%I for all to authenticated '
+            'using (user_id = auth.uid()) with check (user_id = auth.uid())',
+            t
+        );
+        execute format('revoke all on public.%I from anon', t);
+    end loop;
+end;
+$$;
+
+-- Account names and budgets only need to be unique within one member's data
+alter table public.pantagon_accounts drop constraint if exists pantagon_accounts_name_key;
+alter table public.pantagon_accounts
+    add constraint pantagon_accounts_user_name_key unique (user_id, name);
+
+drop index if exists public.pantagon_budgets_tag_account_idx;
+create unique index if not exists pantagon_budgets_tag_account_idx
+    on public.pantagon_budgets (user_id, tag, coalesce(account_name, ''));
+
+-- Only signed-in members may move the id sequences after a restore
+revoke execute on function public.pantagon_sync_id_sequences() from public, anon;
+grant execute on function public.pantagon_sync_id_sequences() to authenticated;
@@ -0,0 +1,19 @@
+-- Stream row changes to open devices so lists update without a reload.
+-- Realtime applies the row level security policies, so each member only
+-- receives events for their own inserts and updates. Deletes carry just the
+-- primary key.
+do $$
+declare
+    t text;
+begin
+    foreach t in array array['pantagon_assets', 'pantagon_usd', 'dime_transactions']
+    loop
+        if not exists (
+            select 1 from pg_publication_tables
+            where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+        ) then
+            execute format('alter publication supabase_realtime add table public.%I', t);
+        end if;
+    end loop;
+end;
+$$;
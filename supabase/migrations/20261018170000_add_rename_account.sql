@@ -0,0 +1,25 @@
+-- Renaming an account rewrites its name everywhere it is stored: the
+-- registry, ledger rows, recurring templates and per-account budgets. Doing
+-- it in one function makes it a single transaction, so a failure (e.g. the
+-- new name clashing with a budget) leaves nothing half-renamed. It runs as
+-- the caller, so row level security keeps it to their own rows.
+create or replace function public.pantagon_rename_account(from_name text, to_name text)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+    if coalesce(btrim(to_name), '') = '' then
+        raise exception 'Account name is required';
+    end if;
+
+    update public.pantagon_accounts set name = to_name where name = from_name;
+    update public.pantagon_assets set account_name = to_name where account_name = from_name;
+    update public.pantagon_recurring set account_name = to_name where account_name = from_name;
+    update public.pantagon_budgets set account_name = to_name where account_name = from_name;
+end;
+$$;
+
+revoke execute on function public.pantagon_rename_account(text, text) from public, anon;
+grant execute on function public.pantagon_rename_account(text, text) to authenticated;
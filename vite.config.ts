@@ -1,13 +1,39 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
+import { viteStaticCopy } from 'vite-plugin-static-copy'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     react(),
+    // Slip OCR runs offline from these (see src/lib/slipOcr.ts); only the LSTM
+    // engine builds are shipped, since that is the only engine the app uses
+    viteStaticCopy({
+      targets: [
+        { src: 'node_modules/tesseract.js/dist/worker.min.js', dest: 'tesseract' },
+        { src: 'node_modules/tesseract.js-core/tesseract-core*-lstm.wasm.js', dest: 'tesseract/core' },
+        { src: 'node_modules/@tesseract.js-data/{eng,tha}/4.0.0_best_int/*.traineddata.gz', dest: 'tesseract/lang' },
+      ]
+    }),
     VitePWA({
       registerType: 'autoUpdate',
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
+        // The OCR files come to about 17 MB, so they are cached on the first
+        // scan rather than downloaded with every install
+        globIgnores: ['tesseract/**'],
+        runtimeCaching: [
+          {
+            urlPattern: ({ url, sameOrigin }) => sameOrigin && url.pathname.includes('/tesseract/'),
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'tesseract',
+              cacheableResponse: { statuses: [200] }
+            }
+          }
+        ]
+      },
       includeAssets: ['favicon.ico', 'apple-touch-icon.png', 'mask-icon.svg'],
       manifest: {
         name: 'Pan Assets',